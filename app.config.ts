@@ -1,3 +1,5 @@
+import type { Permission } from './electron/types';
+
 /**
  * Central Configuration File
  *
@@ -28,14 +30,30 @@ export const AppConfig = {
   // BACKUP SETTINGS
   // ============================================
   backup: {
-    // Maximum number of backup files to keep
-    maxBackups: 7,
+    // Grandfather-father-son retention: how many of the newest hourly, daily,
+    // weekly and monthly backups to keep. The latest backup and the newest
+    // verified backup are always kept.
+    retention: {
+      hourly: 24,
+      daily: 7,
+      weekly: 4,
+      monthly: 12,
+    },
     // Hours between periodic automatic backups
     periodicIntervalHours: 6,
     // Hours threshold - if last backup is older, create new one on startup
     startupThresholdHours: 24,
   },
 
+  // ============================================
+  // TRASH SETTINGS
+  // ============================================
+  trash: {
+    // Days deleted items and categories stay in the trash before they are
+    // removed for good (0 keeps them until the trash is emptied)
+    retentionDays: 30,
+  },
+
   // ============================================
   // AUTHENTICATION SETTINGS
   // ============================================
@@ -44,18 +62,50 @@ export const AppConfig = {
     sessionExpiryDays: 30,
     // Enable/disable "remember me" checkbox
     rememberMeEnabled: true,
+    // bcrypt cost for passwords and PINs. Existing password hashes are
+    // upgraded to this cost the next time the user signs in.
+    bcryptCost: 12,
+    // Rules for new passwords (setup, change, reset and recovery)
+    passwordPolicy: {
+      minLength: 8,
+      requireUppercase: true,
+      requireLowercase: true,
+      requireNumber: true,
+      requireSymbol: false,
+      // Refuse passwords from the built-in common-password list
+      blockCommon: true,
+      // Refuse any of the user's last N passwords (0 allows reuse)
+      historyCount: 5,
+    },
+    // Minutes without keyboard or mouse activity before the lock screen
+    // appears (0 disables the idle lock)
+    idleLockMinutes: 10,
+    // Failed login protection (per username)
+    lockout: {
+      // Failed attempts before the account is locked
+      maxAttempts: 5,
+      // Minutes a locked account stays locked
+      lockoutMinutes: 15,
+      // Delay after each failure doubles from this many seconds...
+      backoffBaseSeconds: 1,
+      // ...up to this cap
+      backoffMaxSeconds: 30,
+    },
   },
 
   // ============================================
   // NAVIGATION
   // ============================================
-  // Define your app's navigation menu
-  // Available icons: https://lucide.dev/icons
+  // Define your app's navigation menu, shown in the sidebar and the command palette
+  // Icons are listed in NavigationIcon below (from https://lucide.dev/icons)
+  // Entries with a permission are hidden from users whose role lacks it
   navigation: [
     { href: '/', label: 'Dashboard', icon: 'LayoutDashboard' },
     { href: '/items', label: 'Items', icon: 'Package' },
+    { href: '/trash', label: 'Trash', icon: 'Trash2', permission: 'data:write' },
+    { href: '/audit', label: 'Audit Log', icon: 'ScrollText', permission: 'audit:read' },
     { href: '/settings', label: 'Settings', icon: 'Settings' },
-  ],
+  ] satisfies NavigationConfigEntry[],
 
   // ============================================
   // WINDOW SETTINGS
@@ -68,4 +118,15 @@ export const AppConfig = {
   },
 };
 
+// Icons the navigation can use. To use another Lucide icon, add its name here and
+// its component to NAVIGATION_ICONS in src/components/layout/navigation.ts.
+export type NavigationIcon = 'LayoutDashboard' | 'Package' | 'Trash2' | 'ScrollText' | 'Settings';
+
+export interface NavigationConfigEntry {
+  href: string;
+  label: string;
+  icon: NavigationIcon;
+  permission?: Permission;
+}
+
 export type AppConfigType = typeof AppConfig;
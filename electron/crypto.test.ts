@@ -0,0 +1,64 @@
+import crypto from 'crypto';
+import { describe, expect, it } from 'vitest';
+import {
+  deriveKey,
+  encryptBuffer,
+  decryptBuffer,
+  packPayload,
+  unpackPayload,
+  SALT_LENGTH,
+  ENCRYPTION_HEADER_LENGTH,
+} from './crypto';
+
+describe('crypto', () => {
+  const salt = crypto.randomBytes(SALT_LENGTH);
+
+  it('derives the same key from the same passphrase and salt', async () => {
+    const first = await deriveKey('correct horse', salt);
+    const second = await deriveKey('correct horse', salt);
+
+    expect(first).toHaveLength(32);
+    expect(first.equals(second)).toBe(true);
+    expect((await deriveKey('correct horse', crypto.randomBytes(SALT_LENGTH))).equals(first)).toBe(false);
+    expect((await deriveKey('wrong horse', salt)).equals(first)).toBe(false);
+  });
+
+  it('round-trips data through encrypt, pack, unpack and decrypt', async () => {
+    const key = await deriveKey('correct horse', salt);
+    const plaintext = Buffer.from('quantity,name\n3,Stapler\n', 'utf-8');
+
+    const packed = packPayload(encryptBuffer(key, plaintext));
+
+    expect(packed).toHaveLength(ENCRYPTION_HEADER_LENGTH + plaintext.length);
+    expect(decryptBuffer(key, unpackPayload(packed)).equals(plaintext)).toBe(true);
+  });
+
+  it('uses a fresh IV for every encryption', async () => {
+    const key = await deriveKey('correct horse', salt);
+    const plaintext = Buffer.from('same input');
+
+    const first = encryptBuffer(key, plaintext);
+    const second = encryptBuffer(key, plaintext);
+
+    expect(first.iv.equals(second.iv)).toBe(false);
+    expect(first.ciphertext.equals(second.ciphertext)).toBe(false);
+  });
+
+  it('rejects the wrong key', async () => {
+    const payload = encryptBuffer(await deriveKey('correct horse', salt), Buffer.from('secret'));
+    const wrongKey = await deriveKey('wrong horse', salt);
+
+    expect(() => decryptBuffer(wrongKey, payload)).toThrow();
+  });
+
+  it('rejects tampered ciphertext, IV or auth tag', async () => {
+    const key = await deriveKey('correct horse', salt);
+    const packed = packPayload(encryptBuffer(key, Buffer.from('secret data')));
+
+    for (const index of [0, ENCRYPTION_HEADER_LENGTH - 1, packed.length - 1]) {
+      const tampered = Buffer.from(packed);
+      tampered[index] ^= 1;
+      expect(() => decryptBuffer(key, unpackPayload(tampered))).toThrow();
+    }
+  });
+});
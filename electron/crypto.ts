@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+// AES-256-GCM with a 96-bit IV, as recommended for GCM
+const CIPHER = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+export const SALT_LENGTH = 16;
+
+// scrypt cost (N = 2^15); maxmem must cover 128 * N * r bytes
+const SCRYPT_OPTIONS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export interface EncryptedPayload {
+  iv: Buffer;
+  authTag: Buffer;
+  ciphertext: Buffer;
+}
+
+// Derive an encryption key from a passphrase
+export function deriveKey(passphrase: string, salt: Buffer): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(passphrase, salt, KEY_LENGTH, SCRYPT_OPTIONS, (error, key) => {
+      if (error) reject(error);
+      else resolve(key);
+    });
+  });
+}
+
+export function encryptBuffer(key: Buffer, plaintext: Buffer): EncryptedPayload {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, key, iv, { authTagLength: AUTH_TAG_LENGTH });
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+
+  return { iv, authTag: cipher.getAuthTag(), ciphertext };
+}
+
+// Throws if the key is wrong or the data was tampered with
+export function decryptBuffer(key: Buffer, payload: EncryptedPayload): Buffer {
+  const decipher = crypto.createDecipheriv(CIPHER, key, payload.iv, { authTagLength: AUTH_TAG_LENGTH });
+  decipher.setAuthTag(payload.authTag);
+  return Buffer.concat([decipher.update(payload.ciphertext), decipher.final()]);
+}
+
+export const ENCRYPTION_HEADER_LENGTH = IV_LENGTH + AUTH_TAG_LENGTH;
+
+// Serialize as iv | authTag | ciphertext
+export function packPayload(payload: EncryptedPayload): Buffer {
+  return Buffer.concat([payload.iv, payload.authTag, payload.ciphertext]);
+}
+
+export function unpackPayload(data: Buffer): EncryptedPayload {
+  return {
+    iv: data.subarray(0, IV_LENGTH),
+    authTag: data.subarray(IV_LENGTH, ENCRYPTION_HEADER_LENGTH),
+    ciphertext: data.subarray(ENCRYPTION_HEADER_LENGTH),
+  };
+}
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { app } from 'electron';
+import { beforeAll, describe, expect, it } from 'vitest';
+import { isBackupArchive, writeBackupArchive, extractBackupArchive } from './archive';
+import { verifyBackupFile, type BackupManifest } from './manifest';
+
+const PASSPHRASE = 'long enough passphrase';
+
+describe('backup archives', () => {
+  const dir = app.getPath('userData');
+  const databasePath = path.join(dir, 'source.db');
+  const archivePath = path.join(dir, 'backup.enc');
+  const extractedPath = path.join(dir, 'extracted.db');
+  let manifest: BackupManifest;
+
+  beforeAll(async () => {
+    const db = new Database(databasePath);
+    db.exec("CREATE TABLE items (name TEXT); INSERT INTO items VALUES ('Stapler'), ('Hammer');");
+    db.close();
+
+    manifest = await verifyBackupFile(databasePath);
+    await writeBackupArchive(archivePath, databasePath, manifest, PASSPHRASE);
+  });
+
+  it('recognises archives by their header', () => {
+    expect(isBackupArchive(archivePath)).toBe(true);
+    expect(isBackupArchive(databasePath)).toBe(false);
+    expect(fs.existsSync(`${archivePath}.partial`)).toBe(false);
+  });
+
+  it('does not store the database in the clear', () => {
+    expect(fs.readFileSync(archivePath).includes(Buffer.from('Stapler'))).toBe(false);
+  });
+
+  it('extracts the same database and manifest that went in', async () => {
+    const extracted = await extractBackupArchive(archivePath, PASSPHRASE, extractedPath);
+
+    expect(extracted).toEqual(manifest);
+    expect(fs.readFileSync(extractedPath).equals(fs.readFileSync(databasePath))).toBe(true);
+
+    const db = new Database(extractedPath, { readonly: true });
+    expect(db.prepare('SELECT name FROM items ORDER BY name').pluck().all()).toEqual(['Hammer', 'Stapler']);
+    db.close();
+  });
+
+  it('rejects the wrong passphrase', async () => {
+    await expect(extractBackupArchive(archivePath, 'not the passphrase', extractedPath)).rejects.toThrow(
+      'Incorrect passphrase or damaged archive'
+    );
+  });
+
+  it('rejects a damaged archive', async () => {
+    const damagedPath = path.join(dir, 'damaged.enc');
+    const data = fs.readFileSync(archivePath);
+    data[data.length - 1] ^= 1;
+    fs.writeFileSync(damagedPath, data);
+
+    await expect(extractBackupArchive(damagedPath, PASSPHRASE, extractedPath)).rejects.toThrow(
+      'Incorrect passphrase or damaged archive'
+    );
+  });
+
+  it('rejects files that are not archives', async () => {
+    await expect(extractBackupArchive(databasePath, PASSPHRASE, extractedPath)).rejects.toThrow(
+      'Not an encrypted backup archive'
+    );
+  });
+
+  it('discards the database when it does not match the manifest checksum', async () => {
+    const mismatchedPath = path.join(dir, 'mismatched.enc');
+    await writeBackupArchive(mismatchedPath, databasePath, { ...manifest, sha256: '0'.repeat(64) }, PASSPHRASE);
+    fs.rmSync(extractedPath, { force: true });
+
+    await expect(extractBackupArchive(mismatchedPath, PASSPHRASE, extractedPath)).rejects.toThrow(
+      'Archive checksum does not match its manifest'
+    );
+    expect(fs.existsSync(extractedPath)).toBe(false);
+  });
+});
@@ -0,0 +1,88 @@
+import fs from 'fs';
+import zlib from 'zlib';
+import crypto from 'crypto';
+import { deriveKey, encryptBuffer, decryptBuffer, packPayload, unpackPayload, SALT_LENGTH } from '../crypto';
+import { hashFile, type BackupManifest } from './manifest';
+
+// Encrypted backup archive layout:
+//   MAGIC | salt | iv | authTag | AES-256-GCM( gzip( manifestLength | manifest JSON | database ) )
+// The key is derived from the user's passphrase with scrypt.
+const ARCHIVE_MAGIC = Buffer.from('BAKARC01', 'ascii');
+
+export const ARCHIVE_EXTENSION = 'enc';
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+// Check the file header without reading the whole archive
+export function isBackupArchive(filePath: string): boolean {
+  const fd = fs.openSync(filePath, 'r');
+
+  try {
+    const header = Buffer.alloc(ARCHIVE_MAGIC.length);
+    const bytesRead = fs.readSync(fd, header, 0, header.length, 0);
+    return bytesRead === header.length && header.equals(ARCHIVE_MAGIC);
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+// Bundle a database file and its manifest into an encrypted archive
+export async function writeBackupArchive(
+  destination: string,
+  databasePath: string,
+  manifest: BackupManifest,
+  passphrase: string
+): Promise<void> {
+  const manifestJson = Buffer.from(JSON.stringify(manifest), 'utf-8');
+  const manifestLength = Buffer.alloc(4);
+  manifestLength.writeUInt32BE(manifestJson.length);
+
+  const compressed = zlib.gzipSync(
+    Buffer.concat([manifestLength, manifestJson, fs.readFileSync(databasePath)])
+  );
+
+  const salt = crypto.randomBytes(SALT_LENGTH);
+  const key = await deriveKey(passphrase, salt);
+  const payload = encryptBuffer(key, compressed);
+
+  const partialPath = `${destination}.partial`;
+  fs.writeFileSync(partialPath, Buffer.concat([ARCHIVE_MAGIC, salt, packPayload(payload)]));
+  fs.renameSync(partialPath, destination);
+}
+
+// Decrypt an archive, write the database to destination and return its manifest
+export async function extractBackupArchive(
+  archivePath: string,
+  passphrase: string,
+  destination: string
+): Promise<BackupManifest> {
+  const data = fs.readFileSync(archivePath);
+
+  if (!data.subarray(0, ARCHIVE_MAGIC.length).equals(ARCHIVE_MAGIC)) {
+    throw new Error('Not an encrypted backup archive');
+  }
+
+  const saltEnd = ARCHIVE_MAGIC.length + SALT_LENGTH;
+  const salt = data.subarray(ARCHIVE_MAGIC.length, saltEnd);
+  const key = await deriveKey(passphrase, salt);
+
+  let compressed: Buffer;
+  try {
+    compressed = decryptBuffer(key, unpackPayload(data.subarray(saltEnd)));
+  } catch {
+    throw new Error('Incorrect passphrase or damaged archive');
+  }
+
+  const contents = zlib.gunzipSync(compressed);
+  const manifestLength = contents.readUInt32BE(0);
+  const manifest = JSON.parse(contents.subarray(4, 4 + manifestLength).toString('utf-8')) as BackupManifest;
+
+  fs.writeFileSync(destination, contents.subarray(4 + manifestLength));
+
+  if ((await hashFile(destination)) !== manifest.sha256) {
+    fs.unlinkSync(destination);
+    throw new Error('Archive checksum does not match its manifest');
+  }
+
+  return manifest;
+}
@@ -0,0 +1,235 @@
+import fs from 'fs';
+import { dialog } from 'electron';
+import { getDatabase } from './db';
+import { getCurrentUser } from './auth';
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AuditEntityType = 'item' | 'category' | 'user' | 'backup' | 'destination';
+
+// Field-level changes; `from` is null for creates and `to` is null for deletes
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  actor_id: number | null;
+  actor: string;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  entity_label: string | null;
+  changes: AuditChanges | null;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  entity_type?: AuditEntityType;
+  action?: string;
+  entity_id?: string;
+  // Inclusive dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  limit?: number;
+}
+
+export interface AuditActor {
+  id: number | null;
+  username: string;
+}
+
+interface NewAuditEntry {
+  // "<entity>.<verb>", e.g. item.update or auth.login_failed
+  action: string;
+  entityType: AuditEntityType;
+  entityId?: string | number | null;
+  entityLabel?: string | null;
+  changes?: AuditChanges | null;
+  // Defaults to the signed-in user
+  actor?: AuditActor;
+}
+
+// Scheduled work (automatic backups) and events before anyone signs in
+export const SYSTEM_ACTOR: AuditActor = { id: null, username: 'system' };
+export const ANONYMOUS_ACTOR: AuditActor = { id: null, username: 'anonymous' };
+
+const DEFAULT_LIMIT = 500;
+
+// Bookkeeping columns that change on every write and say nothing useful
+const IGNORED_FIELDS = new Set(['id', 'created_at', 'updated_at']);
+
+// ============================================
+// WRITING
+// ============================================
+
+// Compare two versions of a record. Pass null for `before` on create and for `after` on delete.
+export function diffRecords(before: object | null, after: object | null): AuditChanges {
+  const changes: AuditChanges = {};
+  const beforeFields = (before || {}) as Record<string, unknown>;
+  const afterFields = (after || {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeFields), ...Object.keys(afterFields)]);
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+
+    const from = beforeFields[field] ?? null;
+    const to = afterFields[field] ?? null;
+
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  }
+
+  return changes;
+}
+
+// Append an entry. Never throws: a failed audit write is logged, not surfaced to the user.
+export function logAudit(entry: NewAuditEntry): void {
+  try {
+    const actor = entry.actor || currentActor();
+    const db = getDatabase();
+    const changes = entry.changes && Object.keys(entry.changes).length > 0 ? entry.changes : null;
+
+    db.prepare(`
+      INSERT INTO audit_log (actor_id, actor, action, entity_type, entity_id, entity_label, changes)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      actor.id,
+      actor.username,
+      entry.action,
+      entry.entityType,
+      entry.entityId === undefined || entry.entityId === null ? null : String(entry.entityId),
+      entry.entityLabel ?? null,
+      changes ? JSON.stringify(changes) : null
+    );
+  } catch (error) {
+    console.error('Failed to write audit entry:', error);
+  }
+}
+
+function currentActor(): AuditActor {
+  const user = getCurrentUser();
+  return user ? { id: user.id, username: user.username } : ANONYMOUS_ACTOR;
+}
+
+// ============================================
+// READING
+// ============================================
+
+export function getAuditLog(filters: AuditFilters = {}): AuditEntry[] {
+  const db = getDatabase();
+
+  let query = 'SELECT * FROM audit_log WHERE 1=1';
+  const params: any[] = [];
+
+  if (filters.actor) {
+    query += ' AND actor LIKE ?';
+    params.push(`%${filters.actor}%`);
+  }
+
+  if (filters.entity_type) {
+    query += ' AND entity_type = ?';
+    params.push(filters.entity_type);
+  }
+
+  if (filters.action) {
+    query += ' AND action = ?';
+    params.push(filters.action);
+  }
+
+  if (filters.entity_id) {
+    query += ' AND entity_id = ?';
+    params.push(filters.entity_id);
+  }
+
+  // created_at is stored as UTC "YYYY-MM-DD HH:MM:SS"
+  if (filters.from) {
+    query += ' AND created_at >= ?';
+    params.push(`${filters.from} 00:00:00`);
+  }
+
+  if (filters.to) {
+    query += ' AND created_at <= ?';
+    params.push(`${filters.to} 23:59:59`);
+  }
+
+  query += ' ORDER BY id DESC LIMIT ?';
+  params.push(filters.limit || DEFAULT_LIMIT);
+
+  const rows = db.prepare(query).all(...params) as (Omit<AuditEntry, 'changes'> & {
+    changes: string | null;
+  })[];
+
+  return rows.map((row) => ({ ...row, changes: row.changes ? JSON.parse(row.changes) : null }));
+}
+
+// Distinct actions, for the filter list
+export function getAuditActions(): string[] {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT DISTINCT action FROM audit_log ORDER BY action').all() as {
+    action: string;
+  }[];
+
+  return rows.map((row) => row.action);
+}
+
+// ============================================
+// CSV EXPORT
+// ============================================
+
+export function csvField(value: unknown): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// Save the entries matching the filters (without the row limit) to a CSV file
+export async function exportAuditCsv(
+  filters: AuditFilters = {}
+): Promise<{ success: boolean; message: string; filePath?: string }> {
+  try {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Audit Log',
+      defaultPath: `audit-log-${new Date().toISOString().slice(0, 10)}.csv`,
+      filters: [
+        { name: 'CSV Files', extensions: ['csv'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, message: 'Export cancelled' };
+    }
+
+    const entries = getAuditLog({ ...filters, limit: -1 });
+    const header = ['Time (UTC)', 'User', 'Action', 'Entity Type', 'Entity ID', 'Entity', 'Changes'];
+    const lines = entries.map((entry) =>
+      [
+        entry.created_at,
+        entry.actor,
+        entry.action,
+        entry.entity_type,
+        entry.entity_id,
+        entry.entity_label,
+        entry.changes ? JSON.stringify(entry.changes) : '',
+      ]
+        .map(csvField)
+        .join(',')
+    );
+
+    fs.writeFileSync(result.filePath, [header.join(','), ...lines].join('\r\n') + '\r\n', 'utf-8');
+
+    return {
+      success: true,
+      message: `Exported ${entries.length} entries to ${result.filePath}`,
+      filePath: result.filePath,
+    };
+  } catch (error) {
+    console.error('Audit export failed:', error);
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
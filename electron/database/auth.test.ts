@@ -0,0 +1,117 @@
+import bcrypt from 'bcryptjs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppConfig } from '../../app.config';
+import { getDatabase } from './db';
+import { createUser, login, logout, getCurrentUser, validateSession, SALT_ROUNDS } from './auth';
+import { getLoginThrottle } from './lockout';
+import { getAuditLog } from './audit';
+import { resetDatabase, TEST_USERNAME, TEST_PASSWORD } from '../test/database';
+
+const { maxAttempts, backoffMaxSeconds } = AppConfig.auth.lockout;
+
+describe('login', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    await createUser({ username: TEST_USERNAME, password: TEST_PASSWORD });
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  // Move past the delay a failed attempt imposes, so the next one is checked
+  function waitOutBackoff(): void {
+    vi.setSystemTime(Date.now() + backoffMaxSeconds * 1000);
+  }
+
+  it('signs in with the right password, ignoring username case', async () => {
+    const result = await login({ username: ' Admin ', password: TEST_PASSWORD });
+
+    expect(result.success).toBe(true);
+    expect(result.user?.username).toBe(TEST_USERNAME);
+    expect(getCurrentUser()?.username).toBe(TEST_USERNAME);
+    expect(getAuditLog({ action: 'auth.login' })).toHaveLength(1);
+  });
+
+  it('returns a session token only for "remember me"', async () => {
+    expect((await login({ username: TEST_USERNAME, password: TEST_PASSWORD })).sessionToken).toBeUndefined();
+    logout();
+
+    const remembered = await login({ username: TEST_USERNAME, password: TEST_PASSWORD, rememberMe: true });
+    expect(remembered.sessionToken).toBeDefined();
+    expect(validateSession(remembered.sessionToken!).valid).toBe(true);
+  });
+
+  it('refuses a wrong password and makes the next attempt wait', async () => {
+    const result = await login({ username: TEST_USERNAME, password: 'Wrong-Password-1' });
+
+    expect(result).toMatchObject({ success: false, message: 'Invalid username or password' });
+    expect(result.retryAt).toBeGreaterThan(Date.now());
+    expect(getCurrentUser()).toBeNull();
+    expect(getAuditLog({ action: 'auth.login_failed' })).toHaveLength(1);
+
+    // Even the right password is refused until the delay has passed
+    const retry = await login({ username: TEST_USERNAME, password: TEST_PASSWORD });
+    expect(retry).toMatchObject({ success: false, message: 'Please wait before trying again.', locked: false });
+  });
+
+  it('answers an unknown username exactly like a wrong password', async () => {
+    const compare = vi.spyOn(bcrypt, 'compare');
+
+    const result = await login({ username: 'nobody', password: 'Wrong-Password-1' });
+
+    expect(result).toMatchObject({ success: false, message: 'Invalid username or password' });
+    expect(getLoginThrottle('nobody')).not.toBeNull();
+    // A real comparison ran, against a hash as slow as a real one
+    expect(compare).toHaveBeenCalledTimes(1);
+    expect(bcrypt.getRounds(compare.mock.calls[0][1] as string)).toBe(SALT_ROUNDS);
+  });
+
+  it('locks the account after too many wrong passwords', async () => {
+    let result = await login({ username: TEST_USERNAME, password: 'Wrong-Password-1' });
+    for (let attempt = 2; attempt <= maxAttempts; attempt++) {
+      waitOutBackoff();
+      result = await login({ username: TEST_USERNAME, password: 'Wrong-Password-1' });
+    }
+
+    expect(result).toMatchObject({ success: false, locked: true });
+
+    waitOutBackoff();
+    const retry = await login({ username: TEST_USERNAME, password: TEST_PASSWORD });
+    expect(retry).toMatchObject({ success: false, locked: true });
+  });
+
+  it('clears earlier failures after a successful login', async () => {
+    await login({ username: TEST_USERNAME, password: 'Wrong-Password-1' });
+    waitOutBackoff();
+
+    expect((await login({ username: TEST_USERNAME, password: TEST_PASSWORD })).success).toBe(true);
+    expect(getLoginThrottle(TEST_USERNAME)).toBeNull();
+  });
+
+  it('refuses a disabled account even with the right password', async () => {
+    getDatabase().prepare('UPDATE auth_user SET disabled = 1 WHERE username = ?').run(TEST_USERNAME);
+
+    const result = await login({ username: TEST_USERNAME, password: TEST_PASSWORD });
+
+    expect(result).toMatchObject({
+      success: false,
+      message: 'This account has been disabled. Contact an administrator.',
+    });
+    expect(getCurrentUser()).toBeNull();
+  });
+
+  it('upgrades a password hash made at a lower cost', async () => {
+    const weakHash = await bcrypt.hash(TEST_PASSWORD, 4);
+    getDatabase().prepare('UPDATE auth_user SET password_hash = ? WHERE username = ?').run(weakHash, TEST_USERNAME);
+
+    expect((await login({ username: TEST_USERNAME, password: TEST_PASSWORD })).success).toBe(true);
+
+    const { password_hash } = getDatabase()
+      .prepare('SELECT password_hash FROM auth_user WHERE username = ?')
+      .get(TEST_USERNAME) as { password_hash: string };
+    expect(bcrypt.getRounds(password_hash)).toBe(SALT_ROUNDS);
+  });
+});
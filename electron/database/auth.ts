@@ -1,13 +1,28 @@
+import crypto from 'crypto';
+import os from 'os';
 import bcrypt from 'bcryptjs';
 import { v4 as uuidv4 } from 'uuid';
-import { getDatabase } from './db';
+import { getDatabase, setCurrentUserIdProvider } from './db';
 import { AppConfig } from '../../app.config';
+import { getLoginThrottle, recordFailedLogin, clearFailedLogins, type LoginThrottle } from './lockout';
+import { generateRecoveryCodes, consumeRecoveryCode } from './recovery';
+import { isTotpEnabled, verifyTotpCode } from './totp';
+import { validateNewPassword, recordPasswordHistory, needsRehash } from './passwordPolicy';
+import { logAudit, ANONYMOUS_ACTOR } from './audit';
+import { clearUndoHistory } from './undo';
 
-const SALT_ROUNDS = 12;
+export const SALT_ROUNDS = AppConfig.auth.bcryptCost;
+
+// Checked against when the username does not exist, so an unknown name takes as
+// long to reject as a wrong password. Hashed in the background at startup.
+const dummyPasswordHash = bcrypt.hash(crypto.randomBytes(16).toString('hex'), SALT_ROUNDS);
+
+export type UserRole = 'admin' | 'editor' | 'viewer';
 
 export interface AuthUser {
   id: number;
   username: string;
+  role: UserRole;
   created_at: string;
   last_login: string | null;
 }
@@ -17,6 +32,13 @@ export interface SetupData {
   password: string;
 }
 
+export interface SetupResult {
+  success: boolean;
+  message: string;
+  // One-time recovery codes for the new account, shown once
+  recoveryCodes?: string[];
+}
+
 export interface LoginData {
   username: string;
   password: string;
@@ -28,6 +50,11 @@ export interface LoginResult {
   message: string;
   sessionToken?: string;
   user?: AuthUser;
+  // Set when further attempts must wait (ms timestamp), and whether it is a lockout
+  retryAt?: number;
+  locked?: boolean;
+  // The password was accepted; finish with verifySecondFactor()
+  requiresSecondFactor?: boolean;
 }
 
 export interface ChangePasswordData {
@@ -35,15 +62,98 @@ export interface ChangePasswordData {
   newPassword: string;
 }
 
-// Check if initial setup is complete (user exists)
+export interface UnlockData {
+  // One of the two, depending on how the user unlocks
+  password?: string;
+  pin?: string;
+}
+
+export interface UnlockResult {
+  success: boolean;
+  message: string;
+  retryAt?: number;
+  // Too many failed unlocks: the user was signed out and must log in again
+  signedOut?: boolean;
+}
+
+export interface LockStatus {
+  locked: boolean;
+  hasPin: boolean;
+  idleLockMinutes: number;
+}
+
+export interface SetPinData {
+  currentPassword: string;
+  pin: string;
+}
+
+export interface SessionInfo {
+  // Derived from the token, which never leaves the main process
+  id: string;
+  label: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  // "Remember me" session; the others end when the app closes
+  persistent: boolean;
+  current: boolean;
+}
+
+// User signed in to this app instance (main process side)
+let currentUserId: number | null = null;
+let currentSessionId: string | null = null;
+
+// Item history triggers record this as the author of each change
+setCurrentUserIdProvider(() => currentUserId);
+
+// Idle lock: the user stays signed in but data IPC is refused until they unlock
+let isLocked = false;
+
+// Password accepted, waiting for the authenticator or recovery code
+const SECOND_FACTOR_TIMEOUT_MS = 5 * 60 * 1000;
+let pendingSecondFactor: {
+  userId: number;
+  username: string;
+  rememberMe: boolean;
+  expiresAt: number;
+} | null = null;
+
+function startSession(userId: number): void {
+  // Resuming the same user's session (e.g. after a window reload) keeps the lock
+  if (currentUserId !== userId) {
+    isLocked = false;
+  }
+  currentUserId = userId;
+}
+
+export function isSessionLocked(): boolean {
+  return currentUserId !== null && isLocked;
+}
+
+// Get the signed-in user, re-read so role changes and disabling apply immediately
+export function getCurrentUser(): AuthUser | null {
+  if (currentUserId === null) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const user = db.prepare(`
+    SELECT id, username, role, created_at, last_login
+    FROM auth_user WHERE id = ? AND disabled = 0
+  `).get(currentUserId) as AuthUser | undefined;
+
+  return user || null;
+}
+
+// Check if initial setup is complete (at least one user exists)
 export function isSetupComplete(): boolean {
   const db = getDatabase();
-  const user = db.prepare('SELECT id FROM auth_user WHERE id = 1').get();
+  const user = db.prepare('SELECT id FROM auth_user LIMIT 1').get();
   return !!user;
 }
 
-// Create the initial user (first-time setup)
-export async function createUser(data: SetupData): Promise<{ success: boolean; message: string }> {
+// Create the first user (first-time setup); the first user is always an admin
+export async function createUser(data: SetupData): Promise<SetupResult> {
   try {
     const db = getDatabase();
 
@@ -57,8 +167,9 @@ export async function createUser(data: SetupData): Promise<{ success: boolean; m
       return { success: false, message: 'Username must be at least 3 characters' };
     }
 
-    if (!data.password || data.password.length < 6) {
-      return { success: false, message: 'Password must be at least 6 characters' };
+    const passwordError = await validateNewPassword(data.password);
+    if (passwordError) {
+      return { success: false, message: passwordError };
     }
 
     // Hash password
@@ -66,14 +177,26 @@ export async function createUser(data: SetupData): Promise<{ success: boolean; m
 
     // Insert user
     const stmt = db.prepare(`
-      INSERT INTO auth_user (id, username, password_hash, created_at)
-      VALUES (1, ?, ?, datetime('now'))
+      INSERT INTO auth_user (username, password_hash, role, created_at)
+      VALUES (?, ?, 'admin', datetime('now'))
     `);
 
-    stmt.run(data.username.toLowerCase().trim(), passwordHash);
+    const result = stmt.run(data.username.toLowerCase().trim(), passwordHash);
+    const userId = Number(result.lastInsertRowid);
+    recordPasswordHistory(userId, passwordHash);
+    const recoveryCodes = generateRecoveryCodes(userId);
+    const username = data.username.toLowerCase().trim();
+    logAudit({
+      action: 'auth.setup',
+      entityType: 'user',
+      entityId: userId,
+      entityLabel: username,
+      changes: { role: { from: null, to: 'admin' } },
+      actor: { id: userId, username },
+    });
 
     console.log('User created successfully');
-    return { success: true, message: 'Account created successfully' };
+    return { success: true, message: 'Account created successfully', recoveryCodes };
   } catch (error) {
     console.error('Error creating user:', error);
     return {
@@ -83,65 +206,115 @@ export async function createUser(data: SetupData): Promise<{ success: boolean; m
   }
 }
 
+function throttledResult(throttle: LoginThrottle): LoginResult {
+  return {
+    success: false,
+    message: throttle.locked
+      ? 'Too many failed attempts. This account is temporarily locked.'
+      : 'Please wait before trying again.',
+    retryAt: throttle.retryAt,
+    locked: throttle.locked,
+  };
+}
+
+// Sign the user in once every factor has been checked
+function completeLogin(userId: number, rememberMe: boolean): LoginResult {
+  const db = getDatabase();
+  const user = db.prepare(`
+    SELECT id, username, role, created_at, last_login FROM auth_user WHERE id = ?
+  `).get(userId) as AuthUser;
+
+  // Update last login
+  db.prepare('UPDATE auth_user SET last_login = datetime(\'now\') WHERE id = ?').run(user.id);
+  currentUserId = user.id;
+  isLocked = false;
+
+  // Every sign-in gets a session so it can be listed and revoked; only
+  // "remember me" sessions hand their token to the renderer to keep
+  const persistent = rememberMe && AppConfig.auth.rememberMeEnabled;
+  currentSessionId = createSession(user.id, persistent);
+  logAudit({ action: 'auth.login', entityType: 'user', entityId: user.id, entityLabel: user.username });
+
+  return {
+    success: true,
+    message: 'Login successful',
+    sessionToken: persistent ? currentSessionId : undefined,
+    user,
+  };
+}
+
 // Login user
 export async function login(data: LoginData): Promise<LoginResult> {
   try {
     const db = getDatabase();
 
-    // Get user
-    const user = db.prepare(`
-      SELECT id, username, password_hash, created_at, last_login
-      FROM auth_user WHERE id = 1
-    `).get() as (AuthUser & { password_hash: string }) | undefined;
-
-    if (!user) {
+    if (!isSetupComplete()) {
       return { success: false, message: 'No account exists. Please set up your account first.' };
     }
 
-    // Verify password
-    const isValidPassword = await bcrypt.compare(data.password, user.password_hash);
-
-    if (!isValidPassword) {
-      return { success: false, message: 'Invalid password' };
-    }
-
-    // Check username (case-insensitive)
-    if (user.username.toLowerCase() !== data.username.toLowerCase().trim()) {
-      return { success: false, message: 'Invalid username' };
+    // Refuse attempts while the username is locked or backing off
+    const throttle = getLoginThrottle(data.username);
+    if (throttle) {
+      return throttledResult(throttle);
     }
 
-    // Update last login
-    db.prepare('UPDATE auth_user SET last_login = datetime(\'now\') WHERE id = 1').run();
+    // Get user (usernames are stored lowercase)
+    const user = db.prepare(`
+      SELECT id, username, password_hash, role, disabled, created_at, last_login
+      FROM auth_user WHERE username = ?
+    `).get(data.username.toLowerCase().trim()) as
+      | (AuthUser & { password_hash: string; disabled: number })
+      | undefined;
 
-    // Create session if remember me is enabled
-    let sessionToken: string | undefined;
+    // Verify password. Unknown usernames are compared against a dummy hash of the
+    // same cost and get the same message, so neither timing nor wording reveals them.
+    const storedHash = user ? user.password_hash : await dummyPasswordHash;
+    const isValidPassword = await bcrypt.compare(data.password, storedHash);
+
+    if (!user || !isValidPassword) {
+      logAudit({
+        action: 'auth.login_failed',
+        entityType: 'user',
+        entityId: user?.id,
+        entityLabel: data.username.toLowerCase().trim(),
+        actor: ANONYMOUS_ACTOR,
+      });
+      const next = recordFailedLogin(data.username);
+      if (next?.locked) {
+        return throttledResult(next);
+      }
+      return { success: false, message: 'Invalid username or password', retryAt: next?.retryAt };
+    }
 
-    if (data.rememberMe && AppConfig.auth.rememberMeEnabled) {
-      sessionToken = uuidv4();
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + AppConfig.auth.sessionExpiryDays);
+    if (user.disabled) {
+      clearFailedLogins(data.username);
+      return { success: false, message: 'This account has been disabled. Contact an administrator.' };
+    }
 
-      // Clean up old sessions first
-      db.prepare('DELETE FROM auth_sessions WHERE user_id = 1').run();
+    // Upgrade hashes made before the configured cost changed, while the password is at hand
+    if (needsRehash(user.password_hash)) {
+      const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
+      db.prepare('UPDATE auth_user SET password_hash = ? WHERE id = ?').run(passwordHash, user.id);
+    }
 
-      // Create new session
-      db.prepare(`
-        INSERT INTO auth_sessions (id, user_id, created_at, expires_at)
-        VALUES (?, 1, datetime('now'), ?)
-      `).run(sessionToken, expiresAt.toISOString());
+    // Failed counts stay until the second factor passes, so a known password
+    // cannot be used to reset the lockout while guessing codes
+    if (isTotpEnabled(user.id)) {
+      pendingSecondFactor = {
+        userId: user.id,
+        username: data.username,
+        rememberMe: !!data.rememberMe,
+        expiresAt: Date.now() + SECOND_FACTOR_TIMEOUT_MS,
+      };
+      return {
+        success: false,
+        message: 'Enter the code from your authenticator app',
+        requiresSecondFactor: true,
+      };
     }
 
-    return {
-      success: true,
-      message: 'Login successful',
-      sessionToken,
-      user: {
-        id: user.id,
-        username: user.username,
-        created_at: user.created_at,
-        last_login: user.last_login,
-      },
-    };
+    clearFailedLogins(data.username);
+    return completeLogin(user.id, !!data.rememberMe);
   } catch (error) {
     console.error('Login error:', error);
     return {
@@ -151,14 +324,79 @@ export async function login(data: LoginData): Promise<LoginResult> {
   }
 }
 
+// Second login step: a TOTP code, or an unused recovery code if the phone is unavailable.
+// Wrong codes count towards the lockout; requiresSecondFactor stays set while the step is pending.
+export function verifySecondFactor(code: string): LoginResult {
+  try {
+    const pending = pendingSecondFactor;
+
+    if (!pending || pending.expiresAt < Date.now()) {
+      pendingSecondFactor = null;
+      return { success: false, message: 'Sign-in timed out. Please enter your password again.' };
+    }
+
+    const throttle = getLoginThrottle(pending.username);
+    if (throttle) {
+      if (throttle.locked) {
+        pendingSecondFactor = null;
+        return throttledResult(throttle);
+      }
+      return { ...throttledResult(throttle), requiresSecondFactor: true };
+    }
+
+    const trimmed = (code || '').trim();
+    const isValid = /^[\d\s]+$/.test(trimmed)
+      ? verifyTotpCode(pending.userId, trimmed)
+      : consumeRecoveryCode(pending.userId, trimmed);
+
+    if (!isValid) {
+      logAudit({
+        action: 'auth.second_factor_failed',
+        entityType: 'user',
+        entityId: pending.userId,
+        entityLabel: pending.username,
+        actor: ANONYMOUS_ACTOR,
+      });
+      const next = recordFailedLogin(pending.username);
+      if (next?.locked) {
+        pendingSecondFactor = null;
+        return throttledResult(next);
+      }
+      return {
+        success: false,
+        message: 'Invalid authentication code',
+        retryAt: next?.retryAt,
+        requiresSecondFactor: true,
+      };
+    }
+
+    pendingSecondFactor = null;
+    clearFailedLogins(pending.username);
+    return completeLogin(pending.userId, pending.rememberMe);
+  } catch (error) {
+    console.error('Second factor error:', error);
+    return { success: false, message: 'Login failed', requiresSecondFactor: true };
+  }
+}
+
 // Logout user
 export function logout(sessionToken?: string): { success: boolean; message: string } {
   try {
-    if (sessionToken) {
-      const db = getDatabase();
-      db.prepare('DELETE FROM auth_sessions WHERE id = ?').run(sessionToken);
+    const db = getDatabase();
+    const user = getCurrentUser();
+
+    if (user) {
+      logAudit({ action: 'auth.logout', entityType: 'user', entityId: user.id, entityLabel: user.username });
+    }
+
+    for (const id of [sessionToken, currentSessionId]) {
+      if (id) {
+        db.prepare('DELETE FROM auth_sessions WHERE id = ?').run(id);
+      }
     }
 
+    clearSession();
+
     return { success: true, message: 'Logged out successfully' };
   } catch (error) {
     console.error('Logout error:', error);
@@ -166,6 +404,16 @@ export function logout(sessionToken?: string): { success: boolean; message: stri
   }
 }
 
+// Forget the signed-in user without touching the database, for when the
+// database underneath is being replaced
+export function clearSession(): void {
+  currentUserId = null;
+  currentSessionId = null;
+  isLocked = false;
+  pendingSecondFactor = null;
+  clearUndoHistory();
+}
+
 // Validate session token
 export function validateSession(sessionToken: string): {
   valid: boolean;
@@ -176,15 +424,16 @@ export function validateSession(sessionToken: string): {
 
     // Get session
     const session = db.prepare(`
-      SELECT s.id, s.expires_at, u.id as user_id, u.username, u.created_at, u.last_login
+      SELECT s.id, s.expires_at, u.id as user_id, u.username, u.role, u.created_at, u.last_login
       FROM auth_sessions s
       JOIN auth_user u ON s.user_id = u.id
-      WHERE s.id = ?
+      WHERE s.id = ? AND u.disabled = 0
     `).get(sessionToken) as {
       id: string;
       expires_at: string;
       user_id: number;
       username: string;
+      role: UserRole;
       created_at: string;
       last_login: string | null;
     } | undefined;
@@ -201,11 +450,16 @@ export function validateSession(sessionToken: string): {
       return { valid: false };
     }
 
+    startSession(session.user_id);
+    currentSessionId = session.id;
+    refreshSession(session.id);
+
     return {
       valid: true,
       user: {
         id: session.user_id,
         username: session.username,
+        role: session.role,
         created_at: session.created_at,
         last_login: session.last_login,
       },
@@ -220,9 +474,14 @@ export function validateSession(sessionToken: string): {
 export async function changePassword(data: ChangePasswordData): Promise<{ success: boolean; message: string }> {
   try {
     const db = getDatabase();
+    const currentUser = getCurrentUser();
+
+    if (!currentUser) {
+      return { success: false, message: 'You are not signed in' };
+    }
 
     // Get current user
-    const user = db.prepare('SELECT password_hash FROM auth_user WHERE id = 1').get() as
+    const user = db.prepare('SELECT password_hash FROM auth_user WHERE id = ?').get(currentUser.id) as
       | { password_hash: string }
       | undefined;
 
@@ -237,19 +496,32 @@ export async function changePassword(data: ChangePasswordData): Promise<{ succes
       return { success: false, message: 'Current password is incorrect' };
     }
 
-    // Validate new password
-    if (!data.newPassword || data.newPassword.length < 6) {
-      return { success: false, message: 'New password must be at least 6 characters' };
+    // Validate new password against the policy and recent passwords
+    const passwordError = await validateNewPassword(data.newPassword, currentUser.id);
+    if (passwordError) {
+      return { success: false, message: passwordError };
     }
 
     // Hash new password
     const newPasswordHash = await bcrypt.hash(data.newPassword, SALT_ROUNDS);
 
-    // Update password
-    db.prepare('UPDATE auth_user SET password_hash = ? WHERE id = 1').run(newPasswordHash);
-
-    // Invalidate all sessions
-    db.prepare('DELETE FROM auth_sessions WHERE user_id = 1').run();
+    db.transaction(() => {
+      // Update password
+      db.prepare('UPDATE auth_user SET password_hash = ? WHERE id = ?').run(newPasswordHash, currentUser.id);
+      recordPasswordHistory(currentUser.id, newPasswordHash);
+
+      // Invalidate every other session; this one stays signed in
+      db.prepare('DELETE FROM auth_sessions WHERE user_id = ? AND id IS NOT ?').run(
+        currentUser.id,
+        currentSessionId
+      );
+    })();
+    logAudit({
+      action: 'auth.password_change',
+      entityType: 'user',
+      entityId: currentUser.id,
+      entityLabel: currentUser.username,
+    });
 
     return { success: true, message: 'Password changed successfully' };
   } catch (error) {
@@ -276,3 +548,304 @@ export function cleanupExpiredSessions(): void {
     console.error('Session cleanup error:', error);
   }
 }
+
+// ============================================
+// SESSIONS
+// ============================================
+
+// How often activity refreshes the current session's last-seen time
+const SESSION_TOUCH_INTERVAL_MS = 60 * 1000;
+let lastSessionTouch = 0;
+
+const platformNames: Record<string, string> = { darwin: 'macOS', win32: 'Windows', linux: 'Linux' };
+
+// e.g. "OFFICE-PC (Windows)"; the database may be restored onto another computer
+function deviceLabel(): string {
+  return `${os.hostname()} (${platformNames[process.platform] || process.platform})`;
+}
+
+function sessionKey(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex').slice(0, 16);
+}
+
+function sessionExpiry(): string {
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + AppConfig.auth.sessionExpiryDays);
+  return expiresAt.toISOString();
+}
+
+function createSession(userId: number, persistent: boolean): string {
+  const db = getDatabase();
+  const token = uuidv4();
+
+  db.prepare(`
+    INSERT INTO auth_sessions (id, user_id, label, persistent, created_at, last_seen_at, expires_at)
+    VALUES (?, ?, ?, ?, datetime('now'), datetime('now'), ?)
+  `).run(token, userId, deviceLabel(), persistent ? 1 : 0, sessionExpiry());
+
+  return token;
+}
+
+// Sliding expiry: each use pushes the expiry back to the full period
+function refreshSession(token: string): void {
+  const db = getDatabase();
+  db.prepare(`
+    UPDATE auth_sessions SET last_seen_at = datetime('now'), expires_at = ? WHERE id = ?
+  `).run(sessionExpiry(), token);
+  lastSessionTouch = Date.now();
+}
+
+// Called on guarded IPC calls so a long-running app keeps its session fresh
+export function touchCurrentSession(): void {
+  if (currentSessionId && Date.now() - lastSessionTouch >= SESSION_TOUCH_INTERVAL_MS) {
+    refreshSession(currentSessionId);
+  }
+}
+
+// Sessions without "remember me" cannot outlive the app; drop any left from the last run
+export function clearTransientSessions(): void {
+  try {
+    const db = getDatabase();
+    db.prepare('DELETE FROM auth_sessions WHERE persistent = 0').run();
+  } catch (error) {
+    console.error('Session cleanup error:', error);
+  }
+}
+
+// The signed-in user's sessions, newest activity first
+export function listSessions(): SessionInfo[] {
+  const user = getCurrentUser();
+
+  if (!user) {
+    return [];
+  }
+
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT id, label, created_at, last_seen_at, expires_at, persistent
+    FROM auth_sessions WHERE user_id = ? AND expires_at > ?
+    ORDER BY COALESCE(last_seen_at, created_at) DESC
+  `).all(user.id, new Date().toISOString()) as (Omit<SessionInfo, 'persistent' | 'current'> & {
+    persistent: number;
+  })[];
+
+  return rows.map((row) => ({
+    ...row,
+    id: sessionKey(row.id),
+    persistent: row.persistent === 1,
+    current: row.id === currentSessionId,
+  }));
+}
+
+// End one of the signed-in user's sessions. Revoking the current one signs out.
+export function revokeSession(id: string): { success: boolean; message: string; signedOut?: boolean } {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const db = getDatabase();
+    const sessions = db
+      .prepare('SELECT id, label FROM auth_sessions WHERE user_id = ?')
+      .all(user.id) as { id: string; label: string | null }[];
+    const session = sessions.find((row) => sessionKey(row.id) === id);
+
+    if (!session) {
+      return { success: false, message: 'Session not found' };
+    }
+
+    const token = session.id;
+    logAudit({
+      action: 'auth.session_revoke',
+      entityType: 'user',
+      entityId: user.id,
+      entityLabel: user.username,
+      changes: { session: { from: session.label, to: null } },
+    });
+
+    if (token === currentSessionId) {
+      logout();
+      return { success: true, message: 'Signed out', signedOut: true };
+    }
+
+    db.prepare('DELETE FROM auth_sessions WHERE id = ?').run(token);
+    return { success: true, message: 'Session revoked' };
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    return { success: false, message: 'Failed to revoke session' };
+  }
+}
+
+// End every session of the signed-in user, including this one
+export function signOutEverywhere(): { success: boolean; message: string } {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const db = getDatabase();
+    logAudit({
+      action: 'auth.sign_out_everywhere',
+      entityType: 'user',
+      entityId: user.id,
+      entityLabel: user.username,
+    });
+    db.prepare('DELETE FROM auth_sessions WHERE user_id = ?').run(user.id);
+    logout();
+
+    return { success: true, message: 'Signed out on all devices' };
+  } catch (error) {
+    console.error('Sign out everywhere error:', error);
+    return { success: false, message: 'Failed to sign out everywhere' };
+  }
+}
+
+// ============================================
+// IDLE LOCK
+// ============================================
+
+export function getLockStatus(): LockStatus {
+  const user = getCurrentUser();
+  let hasPin = false;
+
+  if (user) {
+    const db = getDatabase();
+    const row = db.prepare('SELECT pin_hash FROM auth_user WHERE id = ?').get(user.id) as {
+      pin_hash: string | null;
+    };
+    hasPin = !!row.pin_hash;
+  }
+
+  return {
+    locked: isSessionLocked(),
+    hasPin,
+    idleLockMinutes: AppConfig.auth.idleLockMinutes,
+  };
+}
+
+export function lockSession(): { success: boolean; message: string } {
+  if (currentUserId === null) {
+    return { success: false, message: 'You are not signed in' };
+  }
+
+  isLocked = true;
+  return { success: true, message: 'Locked' };
+}
+
+// Unlock with the password or PIN. Failures count towards the login lockout,
+// and reaching it signs the user out.
+export async function unlockSession(data: UnlockData): Promise<UnlockResult> {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in', signedOut: true };
+    }
+
+    const throttle = getLoginThrottle(user.username);
+    if (throttle) {
+      if (throttle.locked) {
+        logout();
+        return { success: false, message: 'Too many failed attempts. Please sign in again.', signedOut: true };
+      }
+      return { success: false, message: 'Please wait before trying again.', retryAt: throttle.retryAt };
+    }
+
+    const db = getDatabase();
+    const row = db.prepare('SELECT password_hash, pin_hash FROM auth_user WHERE id = ?').get(user.id) as {
+      password_hash: string;
+      pin_hash: string | null;
+    };
+
+    let isValid = false;
+
+    if (data.pin !== undefined) {
+      if (!row.pin_hash) {
+        return { success: false, message: 'No PIN is set for this account' };
+      }
+      isValid = await bcrypt.compare(data.pin, row.pin_hash);
+    } else if (data.password !== undefined) {
+      isValid = await bcrypt.compare(data.password, row.password_hash);
+    }
+
+    if (!isValid) {
+      logAudit({ action: 'auth.unlock_failed', entityType: 'user', entityId: user.id, entityLabel: user.username });
+      const next = recordFailedLogin(user.username);
+
+      if (next?.locked) {
+        logout();
+        return { success: false, message: 'Too many failed attempts. Please sign in again.', signedOut: true };
+      }
+
+      return {
+        success: false,
+        message: data.pin !== undefined ? 'Incorrect PIN' : 'Incorrect password',
+        retryAt: next?.retryAt,
+      };
+    }
+
+    clearFailedLogins(user.username);
+    isLocked = false;
+
+    return { success: true, message: 'Unlocked' };
+  } catch (error) {
+    console.error('Unlock error:', error);
+    return { success: false, message: 'Failed to unlock' };
+  }
+}
+
+// Set or replace the quick-unlock PIN (4-8 digits); needs the current password
+export async function setPin(data: SetPinData): Promise<{ success: boolean; message: string }> {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    if (!/^\d{4,8}$/.test(data.pin || '')) {
+      return { success: false, message: 'PIN must be 4 to 8 digits' };
+    }
+
+    const db = getDatabase();
+    const row = db.prepare('SELECT password_hash FROM auth_user WHERE id = ?').get(user.id) as {
+      password_hash: string;
+    };
+
+    if (!(await bcrypt.compare(data.currentPassword, row.password_hash))) {
+      return { success: false, message: 'Current password is incorrect' };
+    }
+
+    const pinHash = await bcrypt.hash(data.pin, SALT_ROUNDS);
+    db.prepare('UPDATE auth_user SET pin_hash = ? WHERE id = ?').run(pinHash, user.id);
+    logAudit({ action: 'auth.pin_set', entityType: 'user', entityId: user.id, entityLabel: user.username });
+
+    return { success: true, message: 'PIN saved' };
+  } catch (error) {
+    console.error('Set PIN error:', error);
+    return { success: false, message: 'Failed to save PIN' };
+  }
+}
+
+export function clearPin(): { success: boolean; message: string } {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const db = getDatabase();
+    db.prepare('UPDATE auth_user SET pin_hash = NULL WHERE id = ?').run(user.id);
+    logAudit({ action: 'auth.pin_clear', entityType: 'user', entityId: user.id, entityLabel: user.username });
+
+    return { success: true, message: 'PIN removed' };
+  } catch (error) {
+    console.error('Clear PIN error:', error);
+    return { success: false, message: 'Failed to remove PIN' };
+  }
+}
@@ -1,15 +1,31 @@
 import fs from 'fs';
 import path from 'path';
+import Database from 'better-sqlite3';
 import { app, dialog } from 'electron';
 import { AppConfig } from '../../app.config';
+import { getDatabase, closeDatabase } from './db';
+import { SCHEMA_VERSION } from './migrations';
+import { verifyBackupFile, writeManifest, getManifestPath, type BackupManifest } from './manifest';
+import {
+  isBackupArchive,
+  writeBackupArchive,
+  extractBackupArchive,
+  ARCHIVE_EXTENSION,
+  MIN_PASSPHRASE_LENGTH,
+} from './archive';
+import { getBackupFileName, listBackupFiles, pruneBackups, type BackupFile } from './catalog';
+import { mirrorBackup, getDestinationStatuses, type BackupDestinationStatus } from './destinations';
+import { logAudit, SYSTEM_ACTOR } from './audit';
 
 const BACKUP_DIR = path.join(app.getPath('userData'), 'backups');
 const DB_PATH = path.join(app.getPath('userData'), AppConfig.database.name);
-const MAX_BACKUPS = AppConfig.backup.maxBackups;
-const BACKUP_PREFIX = AppConfig.database.backupPrefix;
+const RETENTION = AppConfig.backup.retention;
 const BACKUP_INTERVAL = AppConfig.backup.periodicIntervalHours * 60 * 60 * 1000;
 const BACKUP_THRESHOLD = AppConfig.backup.startupThresholdHours * 60 * 60 * 1000;
 
+// Tables every database created by this app contains
+const REQUIRED_TABLES = ['auth_user', 'auth_sessions', 'categories', 'items'];
+
 let periodicBackupTimer: NodeJS.Timeout | null = null;
 
 // Ensure backup directory exists
@@ -19,8 +35,70 @@ export function ensureBackupDir(): void {
   }
 }
 
+// Pages copied per step of the online backup, between which writes can proceed
+const BACKUP_PAGES_PER_STEP = 100;
+
+export interface BackupProgress {
+  totalPages: number;
+  remainingPages: number;
+}
+
+export type BackupProgressCallback = (progress: BackupProgress) => void;
+
+// The backup currently being written, so concurrent requests run one at a time
+let backupInFlight: Promise<unknown> = Promise.resolve();
+
+// Copy the live database to destination with SQLite's online backup API. Unlike
+// a file copy this includes pages still in the WAL and never captures a
+// half-written page. Writes go to a temporary file that is renamed on success,
+// then the copy is verified and its manifest written next to it.
+function writeDatabaseBackup(
+  destination: string,
+  onProgress?: BackupProgressCallback
+): Promise<BackupManifest> {
+  const run = backupInFlight.then(async () => {
+    const partialPath = `${destination}.partial`;
+
+    try {
+      await getDatabase().backup(partialPath, {
+        progress: (info) => {
+          onProgress?.(info);
+          return BACKUP_PAGES_PER_STEP;
+        },
+      });
+
+      // A standalone copy does not need WAL; rollback journal mode keeps
+      // read-only opens from leaving -wal/-shm files next to the backup
+      const copy = new Database(partialPath);
+      copy.pragma('journal_mode = DELETE');
+      copy.close();
+
+      fs.renameSync(partialPath, destination);
+
+      const manifest = await verifyBackupFile(destination);
+      writeManifest(destination, manifest);
+      return manifest;
+    } catch (error) {
+      if (fs.existsSync(partialPath)) {
+        fs.unlinkSync(partialPath);
+      }
+      throw error;
+    }
+  });
+
+  // Keep the queue alive even if this backup fails
+  backupInFlight = run.catch(() => undefined);
+  return run;
+}
+
+// Scheduled and safety backups are recorded as the system, manual ones as the signed-in user
+export type BackupTrigger = 'automatic' | 'manual';
+
 // Create a backup of the database
-export function createBackup(): { success: boolean; message: string; filePath?: string } {
+export async function createBackup(
+  onProgress?: BackupProgressCallback,
+  trigger: BackupTrigger = 'automatic'
+): Promise<{ success: boolean; message: string; filePath?: string }> {
   try {
     ensureBackupDir();
 
@@ -28,19 +106,33 @@ export function createBackup(): { success: boolean; message: string; filePath?:
       return { success: false, message: 'Database file not found' };
     }
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-    const timeStr = new Date().toISOString().replace(/[:.]/g, '-').split('T')[1].split('-')[0];
-    const backupFileName = `${BACKUP_PREFIX}_${timestamp}_${timeStr}.db`;
-    const backupPath = path.join(BACKUP_DIR, backupFileName);
+    const backupPath = path.join(BACKUP_DIR, getBackupFileName());
 
-    // Copy the database file
-    fs.copyFileSync(DB_PATH, backupPath);
+    const manifest = await writeDatabaseBackup(backupPath, onProgress);
 
     console.log('Backup created:', backupPath);
 
     // Clean up old backups
     cleanupOldBackups();
 
+    if (manifest.integrity !== 'ok') {
+      return {
+        success: false,
+        message: `Backup failed integrity check: ${manifest.integrity}`,
+        filePath: backupPath,
+      };
+    }
+
+    // Copy to the secondary destinations; failures are recorded on each destination
+    await mirrorBackup(backupPath);
+    logAudit({
+      action: 'backup.create',
+      entityType: 'backup',
+      entityLabel: path.basename(backupPath),
+      changes: { trigger: { from: null, to: trigger } },
+      actor: trigger === 'automatic' ? SYSTEM_ACTOR : undefined,
+    });
+
     return {
       success: true,
       message: 'Backup created successfully',
@@ -55,36 +147,100 @@ export function createBackup(): { success: boolean; message: string; filePath?:
   }
 }
 
+export interface ManualBackupOptions {
+  // Write a password-encrypted, compressed archive instead of a plain .db file
+  encrypt?: boolean;
+  passphrase?: string;
+}
+
 // Manual backup with user-selected location
-export async function createManualBackup(): Promise<{ success: boolean; message: string }> {
+export async function createManualBackup(
+  options: ManualBackupOptions = {},
+  onProgress?: BackupProgressCallback
+): Promise<{ success: boolean; message: string }> {
+  const encrypt = !!options.encrypt;
+
   try {
     if (!fs.existsSync(DB_PATH)) {
       return { success: false, message: 'Database file not found' };
     }
 
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').split('T')[0];
-    const timeStr = new Date().toISOString().replace(/[:.]/g, '-').split('T')[1].split('-')[0];
-    const defaultFileName = `${BACKUP_PREFIX}_${timestamp}_${timeStr}.db`;
+    if (encrypt && (!options.passphrase || options.passphrase.length < MIN_PASSPHRASE_LENGTH)) {
+      return {
+        success: false,
+        message: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+      };
+    }
+
+    const fileName = getBackupFileName();
 
     // Show save dialog
     const result = await dialog.showSaveDialog({
-      title: 'Save Backup',
-      defaultPath: defaultFileName,
-      filters: [
-        { name: 'Database Files', extensions: ['db'] },
-        { name: 'All Files', extensions: ['*'] },
-      ],
+      title: encrypt ? 'Save Encrypted Backup' : 'Save Backup',
+      defaultPath: encrypt ? fileName.replace(/\.db$/, `.${ARCHIVE_EXTENSION}`) : fileName,
+      filters: encrypt
+        ? [
+            { name: 'Encrypted Backups', extensions: [ARCHIVE_EXTENSION] },
+            { name: 'All Files', extensions: ['*'] },
+          ]
+        : [
+            { name: 'Database Files', extensions: ['db'] },
+            { name: 'All Files', extensions: ['*'] },
+          ],
     });
 
     if (result.canceled || !result.filePath) {
       return { success: false, message: 'Backup cancelled' };
     }
 
-    // Copy the database file to selected location
-    fs.copyFileSync(DB_PATH, result.filePath);
+    if (encrypt) {
+      // Take a consistent snapshot first, then pack it with its manifest
+      const snapshotPath = path.join(app.getPath('temp'), fileName);
+
+      try {
+        const manifest = await writeDatabaseBackup(snapshotPath, onProgress);
+
+        if (manifest.integrity !== 'ok') {
+          return { success: false, message: `Backup failed integrity check: ${manifest.integrity}` };
+        }
+
+        await writeBackupArchive(result.filePath, snapshotPath, manifest, options.passphrase!);
+      } finally {
+        for (const file of [snapshotPath, getManifestPath(snapshotPath)]) {
+          if (fs.existsSync(file)) {
+            fs.unlinkSync(file);
+          }
+        }
+      }
+
+      logAudit({
+        action: 'backup.export',
+        entityType: 'backup',
+        entityLabel: result.filePath,
+        changes: { encrypted: { from: null, to: true } },
+      });
+
+      return {
+        success: true,
+        message: `Encrypted backup saved to ${result.filePath}`,
+      };
+    }
+
+    const manifest = await writeDatabaseBackup(result.filePath, onProgress);
 
     console.log('Manual backup created:', result.filePath);
 
+    if (manifest.integrity !== 'ok') {
+      return { success: false, message: `Backup failed integrity check: ${manifest.integrity}` };
+    }
+
+    logAudit({
+      action: 'backup.export',
+      entityType: 'backup',
+      entityLabel: result.filePath,
+      changes: { encrypted: { from: null, to: false } },
+    });
+
     return {
       success: true,
       message: `Backup saved to ${result.filePath}`,
@@ -98,46 +254,26 @@ export async function createManualBackup(): Promise<{ success: boolean; message:
   }
 }
 
-// Clean up old backups (keep only last MAX_BACKUPS)
+// Prune backups that no retention rule keeps (see AppConfig.backup.retention)
 function cleanupOldBackups(): void {
   try {
-    const files = fs
-      .readdirSync(BACKUP_DIR)
-      .filter((file) => file.startsWith(BACKUP_PREFIX) && file.endsWith('.db'))
-      .map((file) => ({
-        name: file,
-        path: path.join(BACKUP_DIR, file),
-        time: fs.statSync(path.join(BACKUP_DIR, file)).mtime.getTime(),
-      }))
-      .sort((a, b) => b.time - a.time); // Sort by time, newest first
-
-    // Delete old backups
-    if (files.length > MAX_BACKUPS) {
-      const filesToDelete = files.slice(MAX_BACKUPS);
-      filesToDelete.forEach((file) => {
-        fs.unlinkSync(file.path);
-        console.log('Deleted old backup:', file.name);
-      });
-    }
+    pruneBackups(BACKUP_DIR, RETENTION);
   } catch (error) {
     console.error('Cleanup failed:', error);
   }
 }
 
+// List backup files in BACKUP_DIR, newest first
+function getBackupFiles(): BackupFile[] {
+  ensureBackupDir();
+  return listBackupFiles(BACKUP_DIR, RETENTION);
+}
+
 // Get the most recent backup file
 function getLastBackupTime(): number | null {
   try {
-    ensureBackupDir();
-    const files = fs
-      .readdirSync(BACKUP_DIR)
-      .filter((file) => file.startsWith(BACKUP_PREFIX) && file.endsWith('.db'))
-      .map((file) => ({
-        path: path.join(BACKUP_DIR, file),
-        time: fs.statSync(path.join(BACKUP_DIR, file)).mtime.getTime(),
-      }))
-      .sort((a, b) => b.time - a.time);
-
-    return files.length > 0 ? files[0].time : null;
+    const files = getBackupFiles();
+    return files.length > 0 ? files[0].createdAt : null;
   } catch (error) {
     console.error('Error getting last backup time:', error);
     return null;
@@ -145,7 +281,7 @@ function getLastBackupTime(): number | null {
 }
 
 // Check if backup is needed and create one if necessary
-export function checkAndCreateBackupOnStartup(): { success: boolean; message: string } {
+export async function checkAndCreateBackupOnStartup(): Promise<{ success: boolean; message: string }> {
   const lastBackupTime = getLastBackupTime();
 
   if (!lastBackupTime) {
@@ -174,9 +310,9 @@ export function startPeriodicBackup(): void {
   }
 
   // Create backup at interval
-  periodicBackupTimer = setInterval(() => {
+  periodicBackupTimer = setInterval(async () => {
     console.log(`Running periodic backup (${AppConfig.backup.periodicIntervalHours}-hour interval)...`);
-    const result = createBackup();
+    const result = await createBackup();
     console.log('Periodic backup result:', result.message);
   }, BACKUP_INTERVAL);
 
@@ -192,10 +328,10 @@ export function stopPeriodicBackup(): void {
   }
 }
 
-// Create backup on app close
-export function createBackupOnClose(): { success: boolean; message: string } {
+// Create backup on app close (must finish before the database is closed)
+export async function createBackupOnClose(): Promise<{ success: boolean; message: string }> {
   console.log('Creating backup on app close...');
-  const result = createBackup();
+  const result = await createBackup();
   console.log('Close backup result:', result.message);
   return result;
 }
@@ -205,16 +341,183 @@ export function getBackupInfo(): {
   backupDir: string;
   lastBackupTime: number | null;
   backupCount: number;
+  lastVerifiedBackupTime: number | null;
+  backups: BackupFile[];
+  destinations: BackupDestinationStatus[];
 } {
-  ensureBackupDir();
-
-  const files = fs
-    .readdirSync(BACKUP_DIR)
-    .filter((file) => file.startsWith(BACKUP_PREFIX) && file.endsWith('.db'));
+  const files = getBackupFiles();
+  const lastKnownGood = files.find((file) => file.health === 'ok');
 
   return {
     backupDir: BACKUP_DIR,
-    lastBackupTime: getLastBackupTime(),
+    lastBackupTime: files.length > 0 ? files[0].createdAt : null,
     backupCount: files.length,
+    lastVerifiedBackupTime: lastKnownGood ? lastKnownGood.createdAt : null,
+    backups: files,
+    destinations: getDestinationStatuses(),
   };
 }
+
+// List available backups for the restore panel
+export function listBackups(): BackupFile[] {
+  try {
+    return getBackupFiles();
+  } catch (error) {
+    console.error('Error listing backups:', error);
+    return [];
+  }
+}
+
+// Check that a file is a SQLite database created by this app
+export function validateBackupFile(filePath: string): { valid: boolean; message: string } {
+  let backupDb: Database.Database | null = null;
+
+  try {
+    backupDb = new Database(filePath, { readonly: true, fileMustExist: true });
+
+    const check = backupDb.pragma('quick_check', { simple: true });
+    if (check !== 'ok') {
+      return { valid: false, message: 'Backup file is corrupted' };
+    }
+
+    const tables = (
+      backupDb.prepare("SELECT name FROM sqlite_master WHERE type = 'table'").all() as { name: string }[]
+    ).map((row) => row.name);
+
+    const missing = REQUIRED_TABLES.filter((table) => !tables.includes(table));
+    if (missing.length > 0) {
+      return { valid: false, message: `Not a backup of this application (missing ${missing.join(', ')})` };
+    }
+
+    // Backups taken before versioned migrations have no schema_version table
+    if (tables.includes('schema_version')) {
+      const row = backupDb.prepare('SELECT MAX(version) as version FROM schema_version').get() as {
+        version: number | null;
+      };
+
+      if ((row.version ?? 0) > SCHEMA_VERSION) {
+        return {
+          valid: false,
+          message: 'Backup was created by a newer version of the application',
+        };
+      }
+    }
+
+    return { valid: true, message: 'Backup file is valid' };
+  } catch (error) {
+    return {
+      valid: false,
+      message: `Not a valid database file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  } finally {
+    backupDb?.close();
+  }
+}
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  // Set when the chosen file is an encrypted archive and no passphrase was given
+  needsPassphrase?: boolean;
+  filePath?: string;
+  // Copy of the data that was replaced, for revertRestore
+  safetyBackupPath?: string;
+}
+
+// Drop leftover WAL files so they are not replayed into a swapped-in database
+function removeWalFiles(): void {
+  for (const suffix of ['-wal', '-shm']) {
+    if (fs.existsSync(DB_PATH + suffix)) {
+      fs.unlinkSync(DB_PATH + suffix);
+    }
+  }
+}
+
+// Replace the current database with a backup or encrypted archive. When no path
+// is given the user picks an external file. The caller must re-initialize the
+// database afterwards, and call revertRestore if that fails.
+export async function restoreBackup(filePath?: string, passphrase?: string): Promise<RestoreResult> {
+  const stagingPath = `${DB_PATH}.restore`;
+
+  try {
+    let sourcePath = filePath;
+
+    if (!sourcePath) {
+      const result = await dialog.showOpenDialog({
+        title: 'Restore Backup',
+        properties: ['openFile'],
+        filters: [
+          { name: 'Backups', extensions: ['db', ARCHIVE_EXTENSION] },
+          { name: 'Database Files', extensions: ['db'] },
+          { name: 'Encrypted Backups', extensions: [ARCHIVE_EXTENSION] },
+          { name: 'All Files', extensions: ['*'] },
+        ],
+      });
+
+      if (result.canceled || result.filePaths.length === 0) {
+        return { success: false, message: 'Restore cancelled' };
+      }
+
+      sourcePath = result.filePaths[0];
+    }
+
+    // Stage a copy first so backup cleanup below cannot remove the source
+    if (isBackupArchive(sourcePath)) {
+      if (!passphrase) {
+        return {
+          success: false,
+          message: 'This backup is encrypted. Enter its passphrase to restore it.',
+          needsPassphrase: true,
+          filePath: sourcePath,
+        };
+      }
+
+      await extractBackupArchive(sourcePath, passphrase, stagingPath);
+    } else {
+      fs.copyFileSync(sourcePath, stagingPath);
+    }
+
+    const validation = validateBackupFile(stagingPath);
+    if (!validation.valid) {
+      fs.unlinkSync(stagingPath);
+      return { success: false, message: validation.message };
+    }
+
+    // Keep the current data recoverable
+    const safetyBackup = await createBackup();
+    if (!safetyBackup.success) {
+      fs.unlinkSync(stagingPath);
+      return { success: false, message: `Could not back up current data: ${safetyBackup.message}` };
+    }
+
+    closeDatabase();
+    removeWalFiles();
+    fs.renameSync(stagingPath, DB_PATH);
+
+    return {
+      success: true,
+      message: 'Backup restored successfully',
+      filePath: sourcePath,
+      safetyBackupPath: safetyBackup.filePath,
+    };
+  } catch (error) {
+    console.error('Restore failed:', error);
+
+    if (fs.existsSync(stagingPath)) {
+      fs.unlinkSync(stagingPath);
+    }
+
+    return {
+      success: false,
+      message: `Restore failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// Put back the data a restore replaced, after the restored database failed to
+// open or migrate. The caller must re-initialize the database afterwards.
+export function revertRestore(safetyBackupPath: string): void {
+  closeDatabase();
+  removeWalFiles();
+  fs.copyFileSync(safetyBackupPath, DB_PATH);
+}
@@ -0,0 +1,81 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { createItem, getItemById } from './items';
+import { bulkUpdateItems, bulkDeleteItems } from './bulk';
+import { undo, redo } from './undo';
+import { getAuditLog } from './audit';
+import { resetDatabase, signInAsAdmin } from '../test/database';
+
+describe('bulk actions', () => {
+  let ids: string[];
+
+  beforeEach(async () => {
+    await resetDatabase();
+    await signInAsAdmin();
+    ids = [
+      createItem({ name: 'Stapler', quantity: 5, category_id: 'cat-3' }).item!.id,
+      createItem({ name: 'Hammer', quantity: 1, status: 'inactive' }).item!.id,
+    ];
+  });
+
+  function snapshot(id: string) {
+    const item = getItemById(id);
+    return item && { quantity: item.quantity, status: item.status, category_id: item.category_id };
+  }
+
+  it('updates every item in one audited batch and skips the ones it cannot change', () => {
+    const result = bulkUpdateItems({ ids: [...ids, 'missing'] }, { quantityDelta: -2, status: 'active' });
+
+    expect(result).toMatchObject({ success: true, changed: 1 });
+    expect(result.failures).toEqual([
+      { id: ids[1], name: 'Hammer', message: 'Quantity would drop below 0 (now 1)' },
+      { id: 'missing', name: null, message: 'Item not found' },
+    ]);
+    expect(snapshot(ids[0])).toEqual({ quantity: 3, status: 'active', category_id: 'cat-3' });
+    expect(snapshot(ids[1])).toEqual({ quantity: 1, status: 'inactive', category_id: null });
+    expect(getAuditLog({ action: 'item.bulk_update' })).toHaveLength(1);
+  });
+
+  it('undoes and redoes a bulk update as one step', () => {
+    const before = ids.map(snapshot);
+    const result = bulkUpdateItems({ ids }, { quantityDelta: 10, status: 'active', category_id: '' });
+    const after = ids.map(snapshot);
+
+    expect(undo(result.undoId).success).toBe(true);
+    expect(ids.map(snapshot)).toEqual(before);
+
+    expect(redo().success).toBe(true);
+    expect(ids.map(snapshot)).toEqual(after);
+  });
+
+  it('only undoes a bulk update while it is the most recent change', () => {
+    const result = bulkUpdateItems({ ids }, { quantityDelta: 1 });
+    createItem({ name: 'Tape' });
+
+    expect(undo(result.undoId)).toMatchObject({
+      success: false,
+      message: 'Only the most recent change can be undone',
+    });
+    expect(snapshot(ids[0])?.quantity).toBe(6);
+  });
+
+  it('moves items to the trash and brings them all back on undo', () => {
+    const result = bulkDeleteItems({ ids });
+
+    expect(result).toMatchObject({ success: true, changed: 2 });
+    expect(ids.map(getItemById)).toEqual([null, null]);
+
+    expect(undo(result.undoId).success).toBe(true);
+    expect(ids.map((id) => getItemById(id)?.name)).toEqual(['Stapler', 'Hammer']);
+
+    expect(redo().success).toBe(true);
+    expect(ids.map(getItemById)).toEqual([null, null]);
+  });
+
+  it('deletes items chosen by the list filters, minus the excluded ones', () => {
+    const result = bulkDeleteItems({ filters: { status: 'all' }, excludeIds: [ids[1]] });
+
+    expect(result.changed).toBe(1);
+    expect(getItemById(ids[0])).toBeNull();
+    expect(getItemById(ids[1])?.name).toBe('Hammer');
+  });
+});
@@ -0,0 +1,465 @@
+import fs from 'fs';
+import { dialog } from 'electron';
+import { getDatabase } from './db';
+import { logAudit, csvField, type AuditChanges } from './audit';
+import { recordUndo } from './undo';
+import { getMatchingItemIds, type Item, type ItemFilters } from './items';
+
+// Changes to many items at once. Each batch reads the items, writes them and
+// adds its single audit entry in one transaction, then records one undo step.
+// Items that cannot be changed (already gone, or the change is not allowed for
+// them) are skipped and reported back instead of failing the whole batch.
+
+// ============================================
+// TYPES
+// ============================================
+
+// Explicit ids, or every item matching the list filters ("select all")
+export type ItemSelection = { ids: string[] } | { filters: ItemFilters; excludeIds?: string[] };
+
+export interface BulkUpdateData {
+  status?: 'active' | 'inactive';
+  // '' removes the category
+  category_id?: string;
+  // Added to each item's quantity
+  quantityDelta?: number;
+}
+
+export interface BulkFailure {
+  id: string;
+  name: string | null;
+  message: string;
+}
+
+export interface BulkResult {
+  success: boolean;
+  message: string;
+  // Items actually changed
+  changed: number;
+  failures: BulkFailure[];
+  undoId?: number;
+}
+
+// The fields a bulk update can set; undo and redo write these back as they were
+export interface ItemValues {
+  id: string;
+  status: 'active' | 'inactive';
+  category_id: string | null;
+  quantity: number;
+}
+
+interface BatchOutcome {
+  before: Item[];
+  after: Item[];
+  failures: BulkFailure[];
+}
+
+// Audit entries list at most this many item names
+const AUDIT_NAME_LIMIT = 10;
+
+// ============================================
+// HELPERS
+// ============================================
+
+function resolveSelection(selection: ItemSelection): string[] {
+  if ('ids' in selection) {
+    return [...new Set(selection.ids)];
+  }
+
+  const excluded = new Set(selection.excludeIds ?? []);
+  return getMatchingItemIds(selection.filters).filter((id) => !excluded.has(id));
+}
+
+// Prepared once per batch; batches can cover thousands of items
+function itemLookup(trashed = false): (id: string) => Item | undefined {
+  const stmt = getDatabase().prepare(`
+    SELECT i.*, c.name as category_name
+    FROM items i
+    LEFT JOIN categories c ON i.category_id = c.id
+    WHERE i.id = ? AND i.deleted_at IS ${trashed ? 'NOT NULL' : 'NULL'}
+  `);
+
+  return (id) => stmt.get(id) as Item | undefined;
+}
+
+function countLabel(count: number): string {
+  return count === 1 ? '1 item' : `${count} items`;
+}
+
+function nameList(items: Item[]): string {
+  const names = items.slice(0, AUDIT_NAME_LIMIT).map((item) => item.name);
+  const more = items.length - names.length;
+  return more > 0 ? `${names.join(', ')} and ${more} more` : names.join(', ');
+}
+
+// One value per field that changed, or how many different values there were
+function summarizeChanges(before: Item[], after: Item[]): AuditChanges {
+  const changes: AuditChanges = {};
+
+  for (const field of ['status', 'category_name', 'quantity'] as const) {
+    const from = new Set<unknown>();
+    const to = new Set<unknown>();
+
+    before.forEach((item, i) => {
+      if (item[field] !== after[i][field]) {
+        from.add(item[field] ?? null);
+        to.add(after[i][field] ?? null);
+      }
+    });
+
+    if (from.size > 0) {
+      changes[field] = {
+        from: from.size === 1 ? [...from][0] : `${from.size} values`,
+        to: to.size === 1 ? [...to][0] : `${to.size} values`,
+      };
+    }
+  }
+
+  return changes;
+}
+
+function toValues(item: Item): ItemValues {
+  return { id: item.id, status: item.status, category_id: item.category_id, quantity: item.quantity };
+}
+
+function withFailures(message: string, failures: BulkFailure[]): string {
+  return failures.length > 0 ? `${message}; ${failures.length} could not be changed` : message;
+}
+
+// ============================================
+// BATCHES
+// ============================================
+
+// Write `values` to each item that still exists. Items already holding the
+// values are left alone so they get no new history version.
+function writeItemValues(values: ItemValues[], failures: BulkFailure[] = []): BatchOutcome {
+  const db = getDatabase();
+  const update = db.prepare(`
+    UPDATE items SET status = ?, category_id = ?, quantity = ?, updated_at = datetime('now')
+    WHERE id = ? AND deleted_at IS NULL
+  `);
+  const getItem = itemLookup();
+  const before: Item[] = [];
+  const after: Item[] = [];
+
+  db.transaction(() => {
+    for (const value of values) {
+      const item = getItem(value.id);
+
+      if (!item) {
+        failures.push({ id: value.id, name: null, message: 'Item not found' });
+        continue;
+      }
+
+      if (
+        item.status === value.status &&
+        item.category_id === value.category_id &&
+        item.quantity === value.quantity
+      ) {
+        continue;
+      }
+
+      update.run(value.status, value.category_id, value.quantity, value.id);
+      before.push(item);
+      after.push(getItem(value.id)!);
+    }
+
+    if (before.length > 0) {
+      logAudit({
+        action: 'item.bulk_update',
+        entityType: 'item',
+        entityLabel: countLabel(before.length),
+        changes: { ...summarizeChanges(before, after), items: { from: null, to: nameList(after) } },
+      });
+    }
+  })();
+
+  return { before, after, failures };
+}
+
+function trashItems(ids: string[]): BatchOutcome {
+  const db = getDatabase();
+  const trash = db.prepare("UPDATE items SET deleted_at = datetime('now') WHERE id = ? AND deleted_at IS NULL");
+  const getItem = itemLookup();
+  const before: Item[] = [];
+  const failures: BulkFailure[] = [];
+
+  db.transaction(() => {
+    for (const id of ids) {
+      const item = getItem(id);
+
+      if (!item) {
+        failures.push({ id, name: null, message: 'Item not found' });
+        continue;
+      }
+
+      trash.run(id);
+      before.push(item);
+    }
+
+    if (before.length > 0) {
+      logAudit({
+        action: 'item.bulk_delete',
+        entityType: 'item',
+        entityLabel: countLabel(before.length),
+        changes: { items: { from: nameList(before), to: null } },
+      });
+    }
+  })();
+
+  return { before, after: [], failures };
+}
+
+// Bring items back from the trash, along with any trashed category they use
+function restoreItems(ids: string[]): BatchOutcome {
+  const db = getDatabase();
+  const restoreItem = db.prepare('UPDATE items SET deleted_at = NULL WHERE id = ?');
+  const restoreCategory = db.prepare('UPDATE categories SET deleted_at = NULL WHERE id = ?');
+  const getTrashedItem = itemLookup(true);
+  const after: Item[] = [];
+  const failures: BulkFailure[] = [];
+
+  db.transaction(() => {
+    for (const id of ids) {
+      const item = getTrashedItem(id);
+
+      if (!item) {
+        failures.push({ id, name: null, message: 'Item not found in trash' });
+        continue;
+      }
+
+      restoreItem.run(id);
+      if (item.category_id) {
+        restoreCategory.run(item.category_id);
+      }
+      after.push(item);
+    }
+
+    if (after.length > 0) {
+      logAudit({
+        action: 'item.bulk_restore',
+        entityType: 'item',
+        entityLabel: countLabel(after.length),
+        changes: { items: { from: null, to: nameList(after) } },
+      });
+    }
+  })();
+
+  return { before: [], after, failures };
+}
+
+// ============================================
+// BULK ACTIONS
+// ============================================
+
+export function bulkUpdateItems(selection: ItemSelection, data: BulkUpdateData): BulkResult {
+  try {
+    const db = getDatabase();
+    const delta = data.quantityDelta ?? 0;
+
+    if (data.status === undefined && data.category_id === undefined && !delta) {
+      return { success: false, message: 'No changes to apply', changed: 0, failures: [] };
+    }
+
+    if (!Number.isInteger(delta)) {
+      return { success: false, message: 'Quantity change must be a whole number', changed: 0, failures: [] };
+    }
+
+    // The new values are worked out from rows read in the same transaction that
+    // writes them, so a concurrent change cannot slip in between
+    const outcome = db.transaction((): BatchOutcome | null => {
+      if (data.category_id) {
+        const category = db
+          .prepare('SELECT id FROM categories WHERE id = ? AND deleted_at IS NULL')
+          .get(data.category_id);
+
+        if (!category) {
+          return null;
+        }
+      }
+
+      const getItem = itemLookup();
+      const failures: BulkFailure[] = [];
+      const values: ItemValues[] = [];
+
+      for (const id of resolveSelection(selection)) {
+        const item = getItem(id);
+
+        if (!item) {
+          failures.push({ id, name: null, message: 'Item not found' });
+          continue;
+        }
+
+        if (item.quantity + delta < 0) {
+          failures.push({ id, name: item.name, message: `Quantity would drop below 0 (now ${item.quantity})` });
+          continue;
+        }
+
+        values.push({
+          id,
+          status: data.status ?? item.status,
+          category_id: data.category_id === undefined ? item.category_id : data.category_id || null,
+          quantity: item.quantity + delta,
+        });
+      }
+
+      return writeItemValues(values, failures);
+    })();
+
+    if (!outcome) {
+      return { success: false, message: 'Category not found', changed: 0, failures: [] };
+    }
+
+    const { before, after, failures } = outcome;
+
+    const undoId =
+      before.length > 0
+        ? recordUndo(
+            `Edit ${countLabel(before.length)}`,
+            { type: 'setItemValues', values: before.map(toValues) },
+            { type: 'setItemValues', values: after.map(toValues) }
+          )
+        : undefined;
+
+    return {
+      success: before.length > 0 || failures.length === 0,
+      message: withFailures(`Updated ${countLabel(before.length)}`, failures),
+      changed: before.length,
+      failures,
+      undoId,
+    };
+  } catch (error) {
+    console.error('Error updating items:', error);
+    return {
+      success: false,
+      message: `Failed to update items: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      changed: 0,
+      failures: [],
+    };
+  }
+}
+
+export function bulkDeleteItems(selection: ItemSelection): BulkResult {
+  try {
+    const db = getDatabase();
+    const { before, failures } = db.transaction(() => trashItems(resolveSelection(selection)))();
+    const ids = before.map((item) => item.id);
+
+    const undoId =
+      ids.length > 0
+        ? recordUndo(
+            `Delete ${countLabel(ids.length)}`,
+            { type: 'restoreItems', ids },
+            { type: 'deleteItems', ids }
+          )
+        : undefined;
+
+    return {
+      success: ids.length > 0 || failures.length === 0,
+      message: withFailures(`Moved ${countLabel(ids.length)} to trash`, failures),
+      changed: ids.length,
+      failures,
+      undoId,
+    };
+  } catch (error) {
+    console.error('Error deleting items:', error);
+    return {
+      success: false,
+      message: `Failed to delete items: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      changed: 0,
+      failures: [],
+    };
+  }
+}
+
+// Save the selected items to a CSV file
+export async function exportItemsCsv(
+  selection: ItemSelection
+): Promise<{ success: boolean; message: string; filePath?: string }> {
+  try {
+    const result = await dialog.showSaveDialog({
+      title: 'Export Items',
+      defaultPath: `items-${new Date().toISOString().slice(0, 10)}.csv`,
+      filters: [
+        { name: 'CSV Files', extensions: ['csv'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || !result.filePath) {
+      return { success: false, message: 'Export cancelled' };
+    }
+
+    const getItem = itemLookup();
+    const items = resolveSelection(selection)
+      .map((id) => getItem(id))
+      .filter((item): item is Item => !!item);
+    const header = ['ID', 'Name', 'Description', 'Category', 'Quantity', 'Status', 'Created (UTC)', 'Updated (UTC)'];
+    const lines = items.map((item) =>
+      [
+        item.id,
+        item.name,
+        item.description,
+        item.category_name,
+        item.quantity,
+        item.status,
+        item.created_at,
+        item.updated_at,
+      ]
+        .map(csvField)
+        .join(',')
+    );
+
+    fs.writeFileSync(result.filePath, [header.join(','), ...lines].join('\r\n') + '\r\n', 'utf-8');
+
+    logAudit({
+      action: 'item.export',
+      entityType: 'item',
+      entityLabel: countLabel(items.length),
+      changes: { file: { from: null, to: result.filePath } },
+    });
+
+    return {
+      success: true,
+      message: `Exported ${countLabel(items.length)} to ${result.filePath}`,
+      filePath: result.filePath,
+    };
+  } catch (error) {
+    console.error('Item export failed:', error);
+    return {
+      success: false,
+      message: `Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// ============================================
+// UNDO / REDO
+// ============================================
+
+// Replays for undo.ts; they record nothing on the undo stack themselves
+
+function replayResult(outcome: BatchOutcome, verb: string): { success: boolean; message: string } {
+  const count = Math.max(outcome.before.length, outcome.after.length);
+  return {
+    success: count > 0,
+    message:
+      count > 0
+        ? withFailures(`${verb} ${countLabel(count)}`, outcome.failures)
+        : outcome.failures.length > 0
+          ? 'The items no longer exist'
+          : 'Nothing to change',
+  };
+}
+
+export function applyItemValues(values: ItemValues[]): { success: boolean; message: string } {
+  return replayResult(writeItemValues(values), 'Updated');
+}
+
+export function deleteItems(ids: string[]): { success: boolean; message: string } {
+  return replayResult(trashItems(ids), 'Deleted');
+}
+
+export function restoreDeletedItems(ids: string[]): { success: boolean; message: string } {
+  return replayResult(restoreItems(ids), 'Restored');
+}
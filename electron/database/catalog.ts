@@ -0,0 +1,81 @@
+import fs from 'fs';
+import path from 'path';
+import { AppConfig } from '../../app.config';
+import { readManifest, getManifestPath, getBackupHealth, type BackupManifest, type BackupHealth } from './manifest';
+import { classifyBackups, type RetentionPolicy, type RetentionRule } from './retention';
+
+const BACKUP_PREFIX = AppConfig.database.backupPrefix;
+
+export interface BackupFile {
+  name: string;
+  path: string;
+  size: number;
+  createdAt: number;
+  health: BackupHealth;
+  manifest: BackupManifest | null;
+  // Retention rules keeping this backup (empty means it will be pruned)
+  retention: RetentionRule[];
+}
+
+// File names carry the UTC creation time: prefix_YYYY-MM-DD_HH-mm-ss.db
+export function getBackupFileName(): string {
+  const [date, time] = new Date().toISOString().split('.')[0].split('T');
+  return `${BACKUP_PREFIX}_${date}_${time.replace(/:/g, '-')}.db`;
+}
+
+// Read the creation time from a backup file name. Older builds only wrote the
+// hour (prefix_YYYY-MM-DD_HH.db); fall back to the file time if neither matches.
+function getBackupTimestamp(fileName: string, fallback: number): number {
+  const match = fileName.match(/_(\d{4})-(\d{2})-(\d{2})_(\d{2})(?:-(\d{2})-(\d{2}))?\.db$/);
+
+  if (!match) {
+    return fallback;
+  }
+
+  const [, year, month, day, hour, minute = '0', second = '0'] = match;
+  return Date.UTC(+year, +month - 1, +day, +hour, +minute, +second);
+}
+
+// List the backups in a folder, newest first, classified by the retention policy
+export function listBackupFiles(directory: string, policy: RetentionPolicy): BackupFile[] {
+  const files = fs
+    .readdirSync(directory)
+    .filter((file) => file.startsWith(BACKUP_PREFIX) && file.endsWith('.db'))
+    .map((file) => {
+      const filePath = path.join(directory, file);
+      const stats = fs.statSync(filePath);
+      const manifest = readManifest(filePath);
+
+      return {
+        name: file,
+        path: filePath,
+        size: stats.size,
+        createdAt: getBackupTimestamp(file, stats.mtime.getTime()),
+        health: getBackupHealth(manifest, stats.size),
+        manifest,
+        retention: [] as RetentionRule[],
+      };
+    })
+    .sort((a, b) => b.createdAt - a.createdAt);
+
+  const retention = classifyBackups(
+    files.map((file) => ({ path: file.path, createdAt: file.createdAt, healthy: file.health === 'ok' })),
+    policy
+  );
+
+  return files.map((file) => ({ ...file, retention: retention.get(file.path) || [] }));
+}
+
+// Delete backups in a folder that no retention rule keeps
+export function pruneBackups(directory: string, policy: RetentionPolicy): void {
+  listBackupFiles(directory, policy)
+    .filter((file) => file.retention.length === 0)
+    .forEach((file) => {
+      fs.unlinkSync(file.path);
+
+      const manifestPath = getManifestPath(file.path);
+      if (fs.existsSync(manifestPath)) {
+        fs.unlinkSync(manifestPath);
+      }
+    });
+}
@@ -0,0 +1,18 @@
+// Passwords that top public breach lists, lowercase. Checked case-insensitively,
+// so "Password1" is refused along with "password1".
+export const COMMON_PASSWORDS: readonly string[] = [
+  '000000', '00000000', '1111', '111111', '11111111', '112233', '121212', '123123',
+  '123321', '1234', '12345', '123456', '1234567', '12345678', '123456789', '1234567890',
+  '123456a', '123abc', '123qwe', '1q2w3e', '1q2w3e4r', '1q2w3e4r5t', '1qaz2wsx', '222222',
+  '654321', '666666', '696969', '7777777', '87654321', '888888', '987654321', 'aa123456',
+  'abc123', 'abc12345', 'abcd1234', 'access', 'admin', 'admin123', 'admin1234', 'administrator',
+  'asdf1234', 'asdfgh', 'asdfghjkl', 'azerty', 'baseball', 'batman', 'changeme', 'charlie',
+  'chocolate', 'computer', 'dragon', 'football', 'freedom', 'hello', 'hello123', 'iloveyou',
+  'iloveyou1', 'jennifer', 'jordan23', 'letmein', 'letmein1', 'login', 'lovely', 'master',
+  'michael', 'monkey', 'mustang', 'p@ssw0rd', 'p@ssword', 'pass', 'pass1234', 'passw0rd',
+  'password', 'password!', 'password1', 'password12', 'password123', 'password1234', 'princess',
+  'qazwsx', 'qwerty', 'qwerty1', 'qwerty12', 'qwerty123', 'qwerty1234', 'qwertyuiop', 'secret',
+  'shadow', 'starwars', 'summer', 'summer2024', 'summer2025', 'sunshine', 'superman', 'test',
+  'test123', 'test1234', 'trustno1', 'welcome', 'welcome1', 'welcome123', 'whatever', 'winter',
+  'winter2024', 'winter2025', 'zaq12wsx', 'zxcvbnm',
+];
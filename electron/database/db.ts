@@ -5,6 +5,13 @@ import { AppConfig } from '../../app.config';
 
 let db: Database.Database | null = null;
 
+// Backs the current_user_id() SQL function used by history triggers; set by auth.ts
+let currentUserIdProvider: () => number | null = () => null;
+
+export function setCurrentUserIdProvider(provider: () => number | null): void {
+  currentUserIdProvider = provider;
+}
+
 export function getDatabase(): Database.Database {
   if (!db) {
     const userDataPath = app.getPath('userData');
@@ -15,6 +22,8 @@ export function getDatabase(): Database.Database {
     db = new Database(dbPath);
     db.pragma('foreign_keys = ON');
     db.pragma('journal_mode = WAL');
+    // Triggers run inside SQLite, so they ask the app who is signed in through this
+    db.function('current_user_id', () => currentUserIdProvider());
   }
 
   return db;
@@ -0,0 +1,226 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import { app, dialog } from 'electron';
+import { AppConfig } from '../../app.config';
+import { getManifestPath } from './manifest';
+import { listBackupFiles, pruneBackups } from './catalog';
+import type { RetentionPolicy } from './retention';
+import { logAudit, diffRecords } from './audit';
+
+// Extra folders (NAS, external drive) that every automatic backup is copied to.
+// Paths are machine specific, so they live in userData rather than app.config.ts.
+const DESTINATIONS_FILE = path.join(app.getPath('userData'), 'backup-destinations.json');
+
+export interface BackupDestination {
+  id: string;
+  path: string;
+  retention: RetentionPolicy;
+  lastAttemptAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+}
+
+export interface BackupDestinationStatus extends BackupDestination {
+  reachable: boolean;
+  // Unreachable now, or the last copy attempt failed
+  failing: boolean;
+  backupCount: number;
+}
+
+function loadDestinations(): BackupDestination[] {
+  try {
+    if (!fs.existsSync(DESTINATIONS_FILE)) {
+      return [];
+    }
+
+    return JSON.parse(fs.readFileSync(DESTINATIONS_FILE, 'utf-8')) as BackupDestination[];
+  } catch (error) {
+    console.error('Error reading backup destinations:', error);
+    return [];
+  }
+}
+
+function saveDestinations(destinations: BackupDestination[]): void {
+  fs.writeFileSync(DESTINATIONS_FILE, JSON.stringify(destinations, null, 2));
+}
+
+function isReachable(directory: string): boolean {
+  try {
+    return fs.statSync(directory).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+// Destinations with their current status for BackupInfo
+export function getDestinationStatuses(): BackupDestinationStatus[] {
+  return loadDestinations().map((destination) => {
+    const reachable = isReachable(destination.path);
+    let backupCount = 0;
+
+    if (reachable) {
+      try {
+        backupCount = listBackupFiles(destination.path, destination.retention).length;
+      } catch (error) {
+        console.error('Error listing destination backups:', error);
+      }
+    }
+
+    return {
+      ...destination,
+      reachable,
+      failing: !reachable || destination.lastError !== null,
+      backupCount,
+    };
+  });
+}
+
+// Copy a finished backup (and its manifest) to every destination, then prune each
+// one with its own retention. Failures are recorded per destination, never thrown.
+export async function mirrorBackup(backupPath: string): Promise<void> {
+  const destinations = loadDestinations();
+
+  if (destinations.length === 0) {
+    return;
+  }
+
+  const fileName = path.basename(backupPath);
+  const manifestPath = getManifestPath(backupPath);
+
+  for (const destination of destinations) {
+    destination.lastAttemptAt = Date.now();
+
+    try {
+      if (!isReachable(destination.path)) {
+        throw new Error('Folder is not reachable');
+      }
+
+      // Copy under a temporary name so a half-written file never looks like a backup
+      const target = path.join(destination.path, fileName);
+      await fs.promises.copyFile(backupPath, `${target}.partial`);
+      await fs.promises.rename(`${target}.partial`, target);
+
+      if (fs.existsSync(manifestPath)) {
+        await fs.promises.copyFile(manifestPath, getManifestPath(target));
+      }
+
+      pruneBackups(destination.path, destination.retention);
+
+      destination.lastSuccessAt = Date.now();
+      destination.lastError = null;
+    } catch (error) {
+      destination.lastError = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`Mirroring backup to ${destination.path} failed:`, error);
+    }
+  }
+
+  saveDestinations(destinations);
+}
+
+// Pick a folder and add it as a destination with the default retention
+export async function addDestination(): Promise<{ success: boolean; message: string }> {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Select Backup Destination',
+      properties: ['openDirectory', 'createDirectory'],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, message: 'Cancelled' };
+    }
+
+    const folder = result.filePaths[0];
+    const destinations = loadDestinations();
+
+    if (path.resolve(folder) === path.resolve(app.getPath('userData'), 'backups')) {
+      return { success: false, message: 'This folder is already the primary backup folder' };
+    }
+
+    if (destinations.some((destination) => path.resolve(destination.path) === path.resolve(folder))) {
+      return { success: false, message: 'This folder is already a backup destination' };
+    }
+
+    const destination: BackupDestination = {
+      id: crypto.randomUUID(),
+      path: folder,
+      retention: { ...AppConfig.backup.retention },
+      lastAttemptAt: null,
+      lastSuccessAt: null,
+      lastError: null,
+    };
+    destinations.push(destination);
+    saveDestinations(destinations);
+    logAudit({
+      action: 'destination.add',
+      entityType: 'destination',
+      entityId: destination.id,
+      entityLabel: folder,
+      changes: diffRecords(null, { path: folder, ...destination.retention }),
+    });
+
+    return { success: true, message: 'Backup destination added' };
+  } catch (error) {
+    console.error('Add backup destination error:', error);
+    return { success: false, message: 'Failed to add backup destination' };
+  }
+}
+
+export function removeDestination(id: string): { success: boolean; message: string } {
+  try {
+    const destinations = loadDestinations();
+    const removed = destinations.find((destination) => destination.id === id);
+
+    if (!removed) {
+      return { success: false, message: 'Backup destination not found' };
+    }
+
+    // Backups already copied there are left in place
+    saveDestinations(destinations.filter((destination) => destination.id !== id));
+    logAudit({
+      action: 'destination.remove',
+      entityType: 'destination',
+      entityId: id,
+      entityLabel: removed.path,
+      changes: diffRecords({ path: removed.path }, null),
+    });
+    return { success: true, message: 'Backup destination removed' };
+  } catch (error) {
+    console.error('Remove backup destination error:', error);
+    return { success: false, message: 'Failed to remove backup destination' };
+  }
+}
+
+export function updateDestinationRetention(
+  id: string,
+  retention: RetentionPolicy
+): { success: boolean; message: string } {
+  try {
+    const destinations = loadDestinations();
+    const destination = destinations.find((item) => item.id === id);
+
+    if (!destination) {
+      return { success: false, message: 'Backup destination not found' };
+    }
+
+    const values = Object.values(retention);
+    if (values.length !== 4 || values.some((value) => !Number.isInteger(value) || value < 0)) {
+      return { success: false, message: 'Retention counts must be whole numbers of zero or more' };
+    }
+
+    const before = destination.retention;
+    destination.retention = retention;
+    saveDestinations(destinations);
+    logAudit({
+      action: 'destination.update',
+      entityType: 'destination',
+      entityId: id,
+      entityLabel: destination.path,
+      changes: diffRecords(before, retention),
+    });
+    return { success: true, message: 'Retention updated' };
+  } catch (error) {
+    console.error('Update backup destination error:', error);
+    return { success: false, message: 'Failed to update retention' };
+  }
+}
@@ -0,0 +1,110 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getDatabase } from './db';
+import { importItems, type ImportRow } from './import';
+import { getAuditLog } from './audit';
+import { resetDatabase } from '../test/database';
+
+function itemNames(): string[] {
+  return getDatabase().prepare('SELECT name FROM items ORDER BY name').pluck().all() as string[];
+}
+
+function categoryNames(): string[] {
+  return getDatabase().prepare('SELECT name FROM categories ORDER BY name').pluck().all() as string[];
+}
+
+describe('importItems', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  it('imports valid rows and reports the invalid ones', () => {
+    const rows = [
+      { row: 2, name: 'Stapler', quantity: 3 },
+      { row: 3, name: '', quantity: 1 },
+      { row: 4, name: 'Hammer', quantity: -1 },
+      { row: 5, name: 'Tape', quantity: 'lots' as unknown as number },
+    ];
+
+    const result = importItems({ rows, matchBy: 'none', dryRun: false });
+
+    expect(result).toMatchObject({ success: true, created: 1, failed: 3 });
+    expect(result.rows).toEqual([
+      { row: 2, action: 'create' },
+      { row: 3, action: 'error', message: 'Name is required' },
+      { row: 4, action: 'error', message: 'Quantity must be 0 or more' },
+      { row: 5, action: 'error', message: 'Quantity must be a number' },
+    ]);
+    expect(itemNames()).toEqual(['Stapler']);
+  });
+
+  it('previews a dry run without changing anything', () => {
+    const rows = [{ row: 2, name: 'Stapler', category: 'Desk' }];
+
+    const preview = importItems({ rows, matchBy: 'none', dryRun: true });
+
+    expect(preview).toMatchObject({ dryRun: true, created: 1, categoriesAdded: ['Desk'] });
+    expect(itemNames()).toEqual([]);
+    expect(categoryNames()).not.toContain('Desk');
+    expect(getAuditLog({ action: 'item.import' })).toHaveLength(0);
+  });
+
+  it('updates items matched by name and leaves identical ones alone', () => {
+    importItems({ rows: [{ row: 2, name: 'Stapler', quantity: 3 }], matchBy: 'none', dryRun: false });
+
+    const result = importItems({
+      rows: [
+        { row: 2, name: 'Stapler', quantity: 3 },
+        { row: 3, name: 'Stapler', quantity: 7 },
+      ],
+      matchBy: 'name',
+      dryRun: false,
+    });
+
+    expect(result.rows.map((row) => row.action)).toEqual(['unchanged', 'update']);
+    expect(getDatabase().prepare('SELECT quantity FROM items').pluck().all()).toEqual([7]);
+  });
+
+  it('rolls back the categories of a row that fails part way', () => {
+    // Fails the item insert, which happens after the row's category was created
+    getDatabase().exec(`
+      CREATE TEMP TRIGGER fail_import BEFORE INSERT ON items WHEN NEW.name = 'Broken'
+      BEGIN SELECT RAISE(ABORT, 'Insert refused'); END;
+    `);
+    const rows: ImportRow[] = [
+      { row: 2, name: 'Hammer', category: 'Tools' },
+      { row: 3, name: 'Broken', category: 'Garden' },
+      { row: 4, name: 'Rake', category: 'garden' },
+    ];
+
+    const result = importItems({ rows, matchBy: 'none', dryRun: false });
+
+    expect(result.rows[1]).toEqual({ row: 3, action: 'error', message: 'Insert refused' });
+    expect(result).toMatchObject({ created: 2, failed: 1, categoriesAdded: ['Tools', 'garden'] });
+    // Row 4 created the category again rather than reusing the rolled-back one
+    expect(categoryNames().filter((name) => name.toLowerCase() === 'garden')).toEqual(['garden']);
+    expect(itemNames()).toEqual(['Hammer', 'Rake']);
+  });
+
+  it('writes one audit entry for the whole import', () => {
+    importItems({
+      rows: [
+        { row: 2, name: 'Stapler' },
+        { row: 3, name: 'Hammer', category: 'Tools' },
+      ],
+      matchBy: 'none',
+      dryRun: false,
+      fileName: 'items.csv',
+    });
+
+    expect(getAuditLog({ action: 'item.import' })).toMatchObject([
+      {
+        entity_label: 'items.csv',
+        changes: {
+          created: { from: null, to: 2 },
+          updated: { from: null, to: 0 },
+          categories: { from: null, to: 'Tools' },
+        },
+      },
+    ]);
+  });
+});
@@ -0,0 +1,460 @@
+import fs from 'fs';
+import path from 'path';
+import ExcelJS from 'exceljs';
+import { v4 as uuidv4 } from 'uuid';
+import { dialog } from 'electron';
+import { getDatabase } from './db';
+import { logAudit } from './audit';
+import { createItemSchema } from '../schemas';
+
+// Importing items from a CSV or XLSX file. The main process reads the file and
+// writes the rows; the renderer maps columns to item fields, and both sides
+// validate each row with the same schema as the create dialog. An import runs in
+// one transaction with a savepoint per row, so a failed row leaves nothing behind,
+// and a dry run does the same work and then rolls it back, so the preview shows
+// exactly what the import would do.
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface ImportSheetRow {
+  // Row number in the file (the header is usually row 1)
+  row: number;
+  cells: string[];
+}
+
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: ImportSheetRow[];
+}
+
+export interface ImportFileResult {
+  success: boolean;
+  message: string;
+  sheet?: ImportSheet;
+}
+
+// How imported rows find the item they update; 'none' always creates
+export type ImportMatchKey = 'none' | 'id' | 'name';
+
+// A mapped and validated row. Fields left out keep their current value when
+// the row updates an item.
+export interface ImportRow {
+  row: number;
+  id?: string;
+  name: string;
+  description?: string;
+  // Matched by name, ignoring case; created if missing
+  category?: string;
+  quantity?: number;
+  status?: 'active' | 'inactive';
+}
+
+export interface ImportRequest {
+  rows: ImportRow[];
+  matchBy: ImportMatchKey;
+  dryRun: boolean;
+  // Shown in the audit log
+  fileName?: string;
+}
+
+export interface ImportRowOutcome {
+  row: number;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  message?: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  // Categories created, or restored from the trash, for the rows
+  categoriesAdded: string[];
+  rows: ImportRowOutcome[];
+}
+
+interface ExistingItem {
+  id: string;
+  name: string;
+  description: string | null;
+  category_id: string | null;
+  quantity: number;
+  status: 'active' | 'inactive';
+  deleted_at: string | null;
+}
+
+// Thrown at the end of a dry run to roll the transaction back
+class DryRunRollback extends Error {}
+
+// Larger files should be split; the whole sheet is sent to the renderer
+const MAX_IMPORT_ROWS = 20000;
+
+// ============================================
+// READING FILES
+// ============================================
+
+// Excel in some locales saves CSV with semicolons, and tab-separated files are common
+function detectDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+
+  return counts.reduce((best, next) => (next.count > best.count ? next : best)).delimiter;
+}
+
+// RFC 4180: quoted fields may hold delimiters, line breaks and doubled quotes
+function parseCsv(text: string): string[][] {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+// The first worksheet, as displayed text (formulas give their result)
+async function readXlsx(filePath: string): Promise<string[][]> {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const sheet = workbook.worksheets[0];
+  const rows: string[][] = [];
+
+  sheet?.eachRow({ includeEmpty: true }, (row, rowNumber) => {
+    const cells: string[] = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      cells.push(row.getCell(col).text);
+    }
+    rows[rowNumber - 1] = cells;
+  });
+
+  return Array.from(rows, (cells) => cells ?? []);
+}
+
+// The first non-blank row holds the column names; blank rows are dropped
+function toSheet(fileName: string, table: string[][]): ImportSheet {
+  const trimmed = table.map((cells) => cells.map((cell) => cell.trim()));
+  const headerIndex = trimmed.findIndex((cells) => cells.some(Boolean));
+
+  if (headerIndex === -1) {
+    return { fileName, headers: [], rows: [] };
+  }
+
+  const rows = trimmed
+    .map((cells, index) => ({ row: index + 1, cells }))
+    .slice(headerIndex + 1)
+    .filter(({ cells }) => cells.some(Boolean));
+  const width = rows.reduce((max, { cells }) => Math.max(max, cells.length), trimmed[headerIndex].length);
+  const headers = Array.from(
+    { length: width },
+    (_, i) => trimmed[headerIndex][i] || `Column ${i + 1}`
+  );
+
+  return { fileName, headers, rows };
+}
+
+// Ask for a CSV or XLSX file and read it for the import wizard
+export async function pickImportFile(): Promise<ImportFileResult> {
+  try {
+    const result = await dialog.showOpenDialog({
+      title: 'Import Items',
+      properties: ['openFile'],
+      filters: [
+        { name: 'Spreadsheets', extensions: ['csv', 'xlsx', 'txt'] },
+        { name: 'All Files', extensions: ['*'] },
+      ],
+    });
+
+    if (result.canceled || result.filePaths.length === 0) {
+      return { success: false, message: 'Import cancelled' };
+    }
+
+    const filePath = result.filePaths[0];
+    const fileName = path.basename(filePath);
+    const table =
+      path.extname(filePath).toLowerCase() === '.xlsx'
+        ? await readXlsx(filePath)
+        : parseCsv(fs.readFileSync(filePath, 'utf-8').replace(/^\uFEFF/, ''));
+    const sheet = toSheet(fileName, table);
+
+    if (sheet.rows.length === 0) {
+      return { success: false, message: `${fileName} has no rows to import` };
+    }
+
+    if (sheet.rows.length > MAX_IMPORT_ROWS) {
+      return {
+        success: false,
+        message: `${fileName} has ${sheet.rows.length} rows; split it into files of at most ${MAX_IMPORT_ROWS}`,
+      };
+    }
+
+    return { success: true, message: `Read ${sheet.rows.length} rows from ${fileName}`, sheet };
+  } catch (error) {
+    console.error('Failed to read import file:', error);
+    return {
+      success: false,
+      message: `Could not read the file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// ============================================
+// IMPORTING
+// ============================================
+
+function summaryMessage(result: Omit<ImportResult, 'success' | 'message'>): string {
+  const counts = `${result.created} new and ${result.updated} updated items`;
+  const categories =
+    result.categoriesAdded.length === 1
+      ? ' and 1 category'
+      : result.categoriesAdded.length > 1
+        ? ` and ${result.categoriesAdded.length} categories`
+        : '';
+  const message = `${result.dryRun ? 'Ready to import' : 'Imported'} ${counts}${categories}`;
+
+  if (result.failed === 0) {
+    return message;
+  }
+
+  const rows = result.failed === 1 ? '1 row' : `${result.failed} rows`;
+  const skipped = result.dryRun ? 'will be skipped' : result.failed === 1 ? 'was skipped' : 'were skipped';
+  return `${message}; ${rows} with errors ${skipped}`;
+}
+
+export function importItems(request: ImportRequest): ImportResult {
+  const dryRun = request.dryRun !== false;
+  const outcomes: ImportRowOutcome[] = [];
+  const categoriesAdded: string[] = [];
+  let created = 0;
+  let updated = 0;
+
+  try {
+    const db = getDatabase();
+    const findById = db.prepare('SELECT * FROM items WHERE id = ?');
+    const findByName = db.prepare(
+      'SELECT * FROM items WHERE name = ? COLLATE NOCASE AND deleted_at IS NULL LIMIT 2'
+    );
+    // An exact match wins over one that differs only in case
+    const findCategory = db.prepare(
+      'SELECT id, name, deleted_at FROM categories WHERE name = ? COLLATE NOCASE ORDER BY name = ? DESC LIMIT 1'
+    );
+    const insertCategory = db.prepare(
+      "INSERT INTO categories (id, name, created_at) VALUES (?, ?, datetime('now'))"
+    );
+    const restoreCategory = db.prepare('UPDATE categories SET deleted_at = NULL WHERE id = ?');
+    const insertItem = db.prepare(`
+      INSERT INTO items (id, name, description, category_id, quantity, status, created_at, updated_at)
+      VALUES (?, ?, ?, ?, ?, ?, datetime('now'), datetime('now'))
+    `);
+    const updateItem = db.prepare(`
+      UPDATE items SET name = ?, description = ?, category_id = ?, quantity = ?, status = ?,
+        updated_at = datetime('now')
+      WHERE id = ?
+    `);
+    const categoryIds = new Map<string, string>();
+
+    const resolveCategory = (name: string): string => {
+      const key = name.toLowerCase();
+      const known = categoryIds.get(key);
+      if (known) return known;
+
+      const category = findCategory.get(name, name) as
+        | { id: string; name: string; deleted_at: string | null }
+        | undefined;
+      let id = category?.id;
+
+      if (!category) {
+        id = uuidv4();
+        insertCategory.run(id, name);
+        categoriesAdded.push(name);
+      } else if (category.deleted_at) {
+        restoreCategory.run(category.id);
+        categoriesAdded.push(category.name);
+      }
+
+      categoryIds.set(key, id!);
+      return id!;
+    };
+
+    const findExisting = (row: ImportRow): ExistingItem | undefined => {
+      if (request.matchBy === 'id' && row.id) {
+        const item = findById.get(row.id) as ExistingItem | undefined;
+        if (item?.deleted_at) {
+          throw new Error('This item is in the trash; restore it first');
+        }
+        return item;
+      }
+
+      if (request.matchBy === 'name') {
+        const matches = findByName.all(row.name) as ExistingItem[];
+        if (matches.length > 1) {
+          throw new Error(`More than one item is named "${row.name}"`);
+        }
+        return matches[0];
+      }
+
+      return undefined;
+    };
+
+    // Each row runs in a savepoint (a nested transaction), so a row that fails
+    // part way also undoes any category it created or restored
+    const importRow = db.transaction((row: ImportRow): 'create' | 'update' | 'unchanged' => {
+      const parsed = createItemSchema.safeParse({
+        name: typeof row.name === 'string' ? row.name.trim() : row.name,
+        description: row.description,
+        quantity: row.quantity ?? 0,
+        status: row.status ?? 'active',
+      });
+
+      if (!parsed.success) {
+        throw new Error(parsed.error.issues.map((issue) => issue.message).join('; '));
+      }
+
+      const { name, quantity, status } = parsed.data;
+      const existing = findExisting({ ...row, name });
+      const categoryId = row.category ? resolveCategory(row.category.trim()) : undefined;
+
+      if (!existing) {
+        insertItem.run(
+          request.matchBy === 'id' && row.id ? row.id : uuidv4(),
+          name,
+          parsed.data.description || null,
+          categoryId ?? null,
+          quantity,
+          status
+        );
+        return 'create';
+      }
+
+      const next = {
+        name,
+        description: row.description !== undefined ? parsed.data.description || null : existing.description,
+        category_id: categoryId !== undefined ? categoryId : existing.category_id,
+        quantity: row.quantity !== undefined ? quantity : existing.quantity,
+        status: row.status !== undefined ? status : existing.status,
+      };
+
+      // Rows that match the item as it is add no history version
+      if (
+        next.name === existing.name &&
+        next.description === existing.description &&
+        next.category_id === existing.category_id &&
+        next.quantity === existing.quantity &&
+        next.status === existing.status
+      ) {
+        return 'unchanged';
+      }
+
+      updateItem.run(next.name, next.description, next.category_id, next.quantity, next.status, existing.id);
+      return 'update';
+    });
+
+    const run = db.transaction(() => {
+      for (const row of request.rows) {
+        const categoriesBefore = categoriesAdded.length;
+        const cachedBefore = categoryIds.size;
+
+        try {
+          const action = importRow(row);
+          if (action === 'create') created++;
+          if (action === 'update') updated++;
+          outcomes.push({ row: row.row, action });
+        } catch (error) {
+          // The savepoint rolled the row's categories back, so forget them here too
+          categoriesAdded.length = categoriesBefore;
+          [...categoryIds.keys()].slice(cachedBefore).forEach((key) => categoryIds.delete(key));
+          outcomes.push({
+            row: row.row,
+            action: 'error',
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+
+      if (dryRun) {
+        throw new DryRunRollback();
+      }
+    });
+
+    try {
+      run();
+    } catch (error) {
+      if (!(error instanceof DryRunRollback)) throw error;
+    }
+
+    const failed = outcomes.filter((outcome) => outcome.action === 'error').length;
+    const summary = { dryRun, created, updated, failed, categoriesAdded, rows: outcomes };
+
+    if (!dryRun && created + updated + categoriesAdded.length > 0) {
+      logAudit({
+        action: 'item.import',
+        entityType: 'item',
+        entityLabel: request.fileName || 'Import',
+        changes: {
+          created: { from: null, to: created },
+          updated: { from: null, to: updated },
+          ...(categoriesAdded.length > 0
+            ? { categories: { from: null, to: categoriesAdded.join(', ') } }
+            : {}),
+        },
+      });
+    }
+
+    return { success: true, message: summaryMessage(summary), ...summary };
+  } catch (error) {
+    console.error('Error importing items:', error);
+    return {
+      success: false,
+      message: `Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      dryRun,
+      created: 0,
+      updated: 0,
+      failed: 0,
+      categoriesAdded: [],
+      rows: [],
+    };
+  }
+}
@@ -1,5 +1,7 @@
 import { v4 as uuidv4 } from 'uuid';
 import { getDatabase } from './db';
+import { logAudit, diffRecords, type AuditChanges } from './audit';
+import { recordUndo } from './undo';
 
 // ============================================
 // TYPES
@@ -15,18 +17,48 @@ export interface Item {
   status: 'active' | 'inactive';
   created_at: string;
   updated_at: string;
+  // Set while the item is in the trash
+  deleted_at: string | null;
+  // Search results only: the name with matches wrapped in SEARCH_HIGHLIGHT
+  // markers, and the matching part of the description (null if it did not match)
+  name_highlight?: string;
+  description_snippet?: string | null;
 }
 
 export interface Category {
   id: string;
   name: string;
   created_at: string;
+  deleted_at: string | null;
 }
 
+// 'relevance' only applies while searching (best match first)
+export type ItemSortField =
+  | 'name'
+  | 'quantity'
+  | 'category'
+  | 'status'
+  | 'created_at'
+  | 'updated_at'
+  | 'relevance';
+
+export type SortDirection = 'asc' | 'desc';
+
 export interface ItemFilters {
   search?: string;
   category_id?: string;
   status?: 'active' | 'inactive' | 'all';
+  // 1-based
+  page?: number;
+  pageSize?: number;
+  sortBy?: ItemSortField;
+  sortDir?: SortDirection;
+}
+
+// One page of items, with the number of items matching the filters
+export interface ItemPage {
+  rows: Item[];
+  total: number;
 }
 
 export interface CreateItemData {
@@ -46,6 +78,25 @@ export interface UpdateItemData {
   status?: 'active' | 'inactive';
 }
 
+// A saved version of an item, written by the item_history triggers
+export interface ItemVersion {
+  id: number;
+  item_id: string;
+  version: number;
+  operation: 'create' | 'update' | 'trash' | 'restore' | 'delete';
+  name: string;
+  description: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  quantity: number;
+  status: 'active' | 'inactive';
+  changed_at: string;
+  changed_by: number | null;
+  changed_by_name: string | null;
+  // Compared with the previous version
+  changes: AuditChanges;
+}
+
 export interface DashboardStats {
   totalItems: number;
   activeItems: number;
@@ -53,40 +104,147 @@ export interface DashboardStats {
   totalCategories: number;
 }
 
+// Update data that sets the editable `fields` back to their values in `item`
+// (updateItem treats '' as "clear")
+function updateDataFor(item: Item, fields: string[]): UpdateItemData {
+  const data: UpdateItemData = { id: item.id };
+
+  if (fields.includes('name')) data.name = item.name;
+  if (fields.includes('description')) data.description = item.description ?? '';
+  if (fields.includes('category_id')) data.category_id = item.category_id ?? '';
+  if (fields.includes('quantity')) data.quantity = item.quantity;
+  if (fields.includes('status')) data.status = item.status;
+
+  return data;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Whitelisted so sortBy can never inject SQL
+const SORT_COLUMNS: Record<Exclude<ItemSortField, 'relevance'>, string> = {
+  name: 'i.name COLLATE NOCASE',
+  quantity: 'i.quantity',
+  category: 'c.name COLLATE NOCASE',
+  status: 'i.status',
+  created_at: 'i.created_at',
+  updated_at: 'i.updated_at',
+};
+
+// Wrap matched terms in search results. Control characters rather than HTML so
+// the renderer never has to inject markup from item data; src/components/items/
+// HighlightedText.tsx splits on them.
+export const SEARCH_HIGHLIGHT = { start: '\u0002', end: '\u0003' };
+
+// Name matches count more than description matches when ranking
+const NAME_WEIGHT = 10.0;
+const DESCRIPTION_WEIGHT = 1.0;
+
+// Turn what the user typed into an FTS5 query: "quoted text" is matched as a
+// phrase, every other word as a prefix, and all of them must match. Each term is
+// quoted so FTS5 operators and punctuation in the input are taken literally.
+// Returns null when there is nothing searchable (e.g. only punctuation).
+export function toFtsQuery(search: string): string | null {
+  const terms: string[] = [];
+  const pattern = /"([^"]*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(search)) !== null) {
+    const [, phrase, word] = match;
+    const text = (phrase ?? word).replace(/"/g, '');
+
+    if (!/[\p{L}\p{N}]/u.test(text)) continue;
+
+    terms.push(phrase !== undefined ? `"${text}"` : `"${text}"*`);
+  }
+
+  return terms.length > 0 ? terms.join(' ') : null;
+}
+
 // ============================================
 // ITEM HANDLERS
 // ============================================
 
-export function getAllItems(filters?: ItemFilters): Item[] {
-  const db = getDatabase();
-
-  let query = `
-    SELECT i.*, c.name as category_name
-    FROM items i
-    LEFT JOIN categories c ON i.category_id = c.id
-    WHERE 1=1
-  `;
+// FROM/WHERE for the items matching the filters, shared by the list and bulk selections
+function itemFilterClause(filters?: ItemFilters) {
+  let join = '';
+  let where = 'WHERE i.deleted_at IS NULL';
   const params: any[] = [];
-
-  if (filters?.search) {
-    query += ' AND (i.name LIKE ? OR i.description LIKE ?)';
-    params.push(`%${filters.search}%`, `%${filters.search}%`);
+  const ftsQuery = filters?.search?.trim() ? toFtsQuery(filters.search) : null;
+
+  if (ftsQuery) {
+    join = 'JOIN items_fts ON items_fts.rowid = i.search_id';
+    where += ' AND items_fts MATCH ?';
+    params.push(ftsQuery);
+  } else if (filters?.search?.trim()) {
+    // Nothing searchable in the input, so nothing can match
+    where += ' AND 0';
   }
 
   if (filters?.category_id) {
-    query += ' AND i.category_id = ?';
+    where += ' AND i.category_id = ?';
     params.push(filters.category_id);
   }
 
   if (filters?.status && filters.status !== 'all') {
-    query += ' AND i.status = ?';
+    where += ' AND i.status = ?';
     params.push(filters.status);
   }
 
-  query += ' ORDER BY i.created_at DESC';
+  const from = `
+    FROM items i
+    ${join}
+    LEFT JOIN categories c ON i.category_id = c.id
+    ${where}
+  `;
+
+  return { from, params, ftsQuery };
+}
+
+export function getAllItems(filters?: ItemFilters): ItemPage {
+  const db = getDatabase();
+  const { from, params, ftsQuery } = itemFilterClause(filters);
+
+  const { total } = db.prepare(`SELECT COUNT(*) as total ${from}`).get(...params) as { total: number };
+
+  const sortDir = filters?.sortDir === 'asc' ? 'ASC' : 'DESC';
+  const pageSize = Math.min(Math.max(Math.floor(filters?.pageSize ?? DEFAULT_PAGE_SIZE), 1), MAX_PAGE_SIZE);
+  const page = Math.max(Math.floor(filters?.page ?? 1), 1);
+
+  // bm25() is lower for better matches. The id tiebreak keeps rows with equal
+  // sort values from moving between pages.
+  const orderBy =
+    ftsQuery && filters?.sortBy === 'relevance'
+      ? `bm25(items_fts, ${NAME_WEIGHT}, ${DESCRIPTION_WEIGHT}), i.id`
+      : `${SORT_COLUMNS[filters?.sortBy as keyof typeof SORT_COLUMNS] ?? SORT_COLUMNS.created_at} ${sortDir}, i.id ${sortDir}`;
+
+  const { start, end } = SEARCH_HIGHLIGHT;
+  const searchColumns = ftsQuery
+    ? `,
+      highlight(items_fts, 0, '${start}', '${end}') as name_highlight,
+      CASE WHEN instr(highlight(items_fts, 1, '${start}', '${end}'), '${start}') > 0
+        THEN snippet(items_fts, 1, '${start}', '${end}', '…', 16)
+      END as description_snippet`
+    : '';
+
+  const rows = db.prepare(`
+    SELECT i.*, c.name as category_name${searchColumns}
+    ${from}
+    ORDER BY ${orderBy}
+    LIMIT ? OFFSET ?
+  `).all(...params, pageSize, (page - 1) * pageSize) as Item[];
+
+  return { rows, total };
+}
+
+// Ids of every item matching the filters (no paging), for "select all" bulk actions
+export function getMatchingItemIds(filters?: ItemFilters): string[] {
+  const { from, params } = itemFilterClause(filters);
 
-  const stmt = db.prepare(query);
-  return stmt.all(...params) as Item[];
+  return getDatabase()
+    .prepare(`SELECT i.id ${from}`)
+    .pluck()
+    .all(...params) as string[];
 }
 
 export function getItemById(id: string): Item | null {
@@ -96,13 +254,18 @@ export function getItemById(id: string): Item | null {
     SELECT i.*, c.name as category_name
     FROM items i
     LEFT JOIN categories c ON i.category_id = c.id
-    WHERE i.id = ?
+    WHERE i.id = ? AND i.deleted_at IS NULL
   `).get(id) as Item | undefined;
 
   return item || null;
 }
 
-export function createItem(data: CreateItemData): { success: boolean; message: string; item?: Item } {
+export function createItem(data: CreateItemData): {
+  success: boolean;
+  message: string;
+  item?: Item;
+  undoId?: number;
+} {
   try {
     const db = getDatabase();
     const id = uuidv4();
@@ -123,10 +286,25 @@ export function createItem(data: CreateItemData): { success: boolean; message: s
 
     const item = getItemById(id);
 
+    logAudit({
+      action: 'item.create',
+      entityType: 'item',
+      entityId: id,
+      entityLabel: data.name,
+      changes: diffRecords(null, item),
+    });
+
+    const undoId = recordUndo(
+      `Add "${data.name}"`,
+      { type: 'deleteItem', id },
+      { type: 'restoreItem', id }
+    );
+
     return {
       success: true,
       message: 'Item created successfully',
       item: item || undefined,
+      undoId,
     };
   } catch (error) {
     console.error('Error creating item:', error);
@@ -137,7 +315,12 @@ export function createItem(data: CreateItemData): { success: boolean; message: s
   }
 }
 
-export function updateItem(data: UpdateItemData): { success: boolean; message: string; item?: Item } {
+export function updateItem(data: UpdateItemData): {
+  success: boolean;
+  message: string;
+  item?: Item;
+  undoId?: number;
+} {
   try {
     const db = getDatabase();
 
@@ -152,7 +335,7 @@ export function updateItem(data: UpdateItemData): { success: boolean; message: s
 
     if (data.description !== undefined) {
       updates.push('description = ?');
-      params.push(data.description);
+      params.push(data.description || null);
     }
 
     if (data.category_id !== undefined) {
@@ -177,8 +360,10 @@ export function updateItem(data: UpdateItemData): { success: boolean; message: s
     updates.push("updated_at = datetime('now')");
     params.push(data.id);
 
+    const before = getItemById(data.id);
+
     const stmt = db.prepare(`
-      UPDATE items SET ${updates.join(', ')} WHERE id = ?
+      UPDATE items SET ${updates.join(', ')} WHERE id = ? AND deleted_at IS NULL
     `);
 
     const result = stmt.run(...params);
@@ -188,11 +373,32 @@ export function updateItem(data: UpdateItemData): { success: boolean; message: s
     }
 
     const item = getItemById(data.id);
+    const changes = diffRecords(before, item);
+
+    logAudit({
+      action: 'item.update',
+      entityType: 'item',
+      entityId: data.id,
+      entityLabel: item?.name,
+      changes,
+    });
+
+    const changedFields = Object.keys(changes);
+    const undoData = before ? updateDataFor(before, changedFields) : null;
+    const undoId =
+      undoData && item && Object.keys(undoData).length > 1
+        ? recordUndo(
+            `Edit "${item.name}"`,
+            { type: 'updateItem', data: undoData },
+            { type: 'updateItem', data: updateDataFor(item, changedFields) }
+          )
+        : undefined;
 
     return {
       success: true,
       message: 'Item updated successfully',
       item: item || undefined,
+      undoId,
     };
   } catch (error) {
     console.error('Error updating item:', error);
@@ -203,17 +409,35 @@ export function updateItem(data: UpdateItemData): { success: boolean; message: s
   }
 }
 
-export function deleteItem(id: string): { success: boolean; message: string } {
+// Move an item to the trash; see trash.ts for restoring and purging
+export function deleteItem(id: string): { success: boolean; message: string; undoId?: number } {
   try {
     const db = getDatabase();
+    const before = getItemById(id);
 
-    const result = db.prepare('DELETE FROM items WHERE id = ?').run(id);
+    const result = db
+      .prepare("UPDATE items SET deleted_at = datetime('now') WHERE id = ? AND deleted_at IS NULL")
+      .run(id);
 
     if (result.changes === 0) {
       return { success: false, message: 'Item not found' };
     }
 
-    return { success: true, message: 'Item deleted successfully' };
+    logAudit({
+      action: 'item.delete',
+      entityType: 'item',
+      entityId: id,
+      entityLabel: before?.name,
+      changes: diffRecords(before, null),
+    });
+
+    const undoId = recordUndo(
+      `Delete "${before?.name ?? 'item'}"`,
+      { type: 'restoreItem', id },
+      { type: 'deleteItem', id }
+    );
+
+    return { success: true, message: 'Item moved to trash', undoId };
   } catch (error) {
     console.error('Error deleting item:', error);
     return {
@@ -223,13 +447,86 @@ export function deleteItem(id: string): { success: boolean; message: string } {
   }
 }
 
+// ============================================
+// ITEM HISTORY
+// ============================================
+
+// Fields a version can differ in; category_name is shown in place of category_id
+const VERSION_FIELDS = ['name', 'description', 'category_name', 'quantity', 'status'] as const;
+
+// Every version of an item, newest first
+export function getItemHistory(itemId: string): ItemVersion[] {
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT h.*, c.name as category_name, u.username as changed_by_name
+    FROM item_history h
+    LEFT JOIN categories c ON h.category_id = c.id
+    LEFT JOIN auth_user u ON h.changed_by = u.id
+    WHERE h.item_id = ?
+    ORDER BY h.version
+  `).all(itemId) as Omit<ItemVersion, 'changes'>[];
+
+  const pick = (row: Omit<ItemVersion, 'changes'>) =>
+    Object.fromEntries(VERSION_FIELDS.map((field) => [field, row[field]]));
+
+  return rows
+    .map((row, index) => ({
+      ...row,
+      changes: diffRecords(index > 0 ? pick(rows[index - 1]) : null, pick(row)),
+    }))
+    .reverse();
+}
+
+// Put an item back the way it was at an earlier version. Goes through updateItem,
+// so the restore is itself recorded as a new version.
+export function restoreItemVersion(
+  itemId: string,
+  version: number
+): { success: boolean; message: string; item?: Item; undoId?: number } {
+  try {
+    const db = getDatabase();
+    const row = db.prepare('SELECT * FROM item_history WHERE item_id = ? AND version = ?').get(
+      itemId,
+      version
+    ) as ItemVersion | undefined;
+
+    if (!row) {
+      return { success: false, message: 'Version not found' };
+    }
+
+    // The category may have been deleted or trashed since
+    const category = row.category_id
+      ? db.prepare('SELECT id FROM categories WHERE id = ? AND deleted_at IS NULL').get(row.category_id)
+      : null;
+
+    const result = updateItem({
+      id: itemId,
+      name: row.name,
+      description: row.description || '',
+      category_id: category ? row.category_id! : '',
+      quantity: row.quantity,
+      status: row.status,
+    });
+
+    return result.success
+      ? { ...result, message: `Restored version ${version}` }
+      : result;
+  } catch (error) {
+    console.error('Error restoring item version:', error);
+    return {
+      success: false,
+      message: `Failed to restore version: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
 // ============================================
 // CATEGORY HANDLERS
 // ============================================
 
 export function getAllCategories(): Category[] {
   const db = getDatabase();
-  return db.prepare('SELECT * FROM categories ORDER BY name').all() as Category[];
+  return db.prepare('SELECT * FROM categories WHERE deleted_at IS NULL ORDER BY name').all() as Category[];
 }
 
 export function createCategory(name: string): { success: boolean; message: string; category?: Category } {
@@ -246,6 +543,14 @@ export function createCategory(name: string): { success: boolean; message: strin
 
     const category = db.prepare('SELECT * FROM categories WHERE id = ?').get(id) as Category;
 
+    logAudit({
+      action: 'category.create',
+      entityType: 'category',
+      entityId: id,
+      entityLabel: category.name,
+      changes: diffRecords(null, { name: category.name }),
+    });
+
     return {
       success: true,
       message: 'Category created successfully',
@@ -256,7 +561,16 @@ export function createCategory(name: string): { success: boolean; message: strin
 
     // Check for unique constraint violation
     if (error instanceof Error && error.message.includes('UNIQUE')) {
-      return { success: false, message: 'Category already exists' };
+      const trashed = getDatabase()
+        .prepare('SELECT id FROM categories WHERE name = ? AND deleted_at IS NOT NULL')
+        .get(name.trim());
+
+      return {
+        success: false,
+        message: trashed
+          ? 'A category with this name is in the trash. Restore it from the Trash page.'
+          : 'Category already exists',
+      };
     }
 
     return {
@@ -270,10 +584,10 @@ export function deleteCategory(id: string): { success: boolean; message: string
   try {
     const db = getDatabase();
 
-    // Check if category has items
-    const itemCount = db.prepare('SELECT COUNT(*) as count FROM items WHERE category_id = ?').get(id) as {
-      count: number;
-    };
+    // Check if category has items (items in the trash may keep it)
+    const itemCount = db
+      .prepare('SELECT COUNT(*) as count FROM items WHERE category_id = ? AND deleted_at IS NULL')
+      .get(id) as { count: number };
 
     if (itemCount.count > 0) {
       return {
@@ -282,13 +596,27 @@ export function deleteCategory(id: string): { success: boolean; message: string
       };
     }
 
-    const result = db.prepare('DELETE FROM categories WHERE id = ?').run(id);
+    const category = db.prepare('SELECT name FROM categories WHERE id = ?').get(id) as
+      | { name: string }
+      | undefined;
+
+    const result = db
+      .prepare("UPDATE categories SET deleted_at = datetime('now') WHERE id = ? AND deleted_at IS NULL")
+      .run(id);
 
     if (result.changes === 0) {
       return { success: false, message: 'Category not found' };
     }
 
-    return { success: true, message: 'Category deleted successfully' };
+    logAudit({
+      action: 'category.delete',
+      entityType: 'category',
+      entityId: id,
+      entityLabel: category?.name,
+      changes: diffRecords({ name: category?.name }, null),
+    });
+
+    return { success: true, message: 'Category moved to trash' };
   } catch (error) {
     console.error('Error deleting category:', error);
     return {
@@ -305,14 +633,18 @@ export function deleteCategory(id: string): { success: boolean; message: string
 export function getDashboardStats(): DashboardStats {
   const db = getDatabase();
 
-  const totalItems = db.prepare('SELECT COUNT(*) as count FROM items').get() as { count: number };
-  const activeItems = db.prepare("SELECT COUNT(*) as count FROM items WHERE status = 'active'").get() as {
-    count: number;
-  };
-  const inactiveItems = db.prepare("SELECT COUNT(*) as count FROM items WHERE status = 'inactive'").get() as {
+  const totalItems = db.prepare('SELECT COUNT(*) as count FROM items WHERE deleted_at IS NULL').get() as {
     count: number;
   };
-  const totalCategories = db.prepare('SELECT COUNT(*) as count FROM categories').get() as { count: number };
+  const activeItems = db
+    .prepare("SELECT COUNT(*) as count FROM items WHERE status = 'active' AND deleted_at IS NULL")
+    .get() as { count: number };
+  const inactiveItems = db
+    .prepare("SELECT COUNT(*) as count FROM items WHERE status = 'inactive' AND deleted_at IS NULL")
+    .get() as { count: number };
+  const totalCategories = db
+    .prepare('SELECT COUNT(*) as count FROM categories WHERE deleted_at IS NULL')
+    .get() as { count: number };
 
   return {
     totalItems: totalItems.count,
@@ -329,6 +661,7 @@ export function getRecentItems(limit: number = 5): Item[] {
     SELECT i.*, c.name as category_name
     FROM items i
     LEFT JOIN categories c ON i.category_id = c.id
+    WHERE i.deleted_at IS NULL
     ORDER BY i.created_at DESC
     LIMIT ?
   `).all(limit) as Item[];
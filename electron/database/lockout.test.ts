@@ -0,0 +1,93 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppConfig } from '../../app.config';
+import { getLoginThrottle, recordFailedLogin, clearFailedLogins, getLockoutEvents, unlockUsername } from './lockout';
+import { resetDatabase } from '../test/database';
+
+const { maxAttempts, lockoutMinutes, backoffBaseSeconds, backoffMaxSeconds } = AppConfig.auth.lockout;
+
+function advance(ms: number): void {
+  vi.setSystemTime(Date.now() + ms);
+}
+
+describe('login lockout', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-01-05T09:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a username with no failed attempts', () => {
+    expect(getLoginThrottle('alice')).toBeNull();
+  });
+
+  it('makes each failure wait twice as long as the last, up to the cap', () => {
+    for (let failures = 1; failures < maxAttempts; failures++) {
+      const throttle = recordFailedLogin('alice');
+      const expectedMs = Math.min(backoffBaseSeconds * 2 ** (failures - 1), backoffMaxSeconds) * 1000;
+
+      expect(throttle).toEqual({ retryAt: Date.now() + expectedMs, locked: false });
+      expect(getLoginThrottle('alice')).toEqual(throttle);
+
+      advance(expectedMs - 1);
+      expect(getLoginThrottle('alice')).not.toBeNull();
+      advance(1);
+      expect(getLoginThrottle('alice')).toBeNull();
+    }
+  });
+
+  it('locks the username once maxAttempts is reached, and records the lockout', () => {
+    for (let failures = 1; failures < maxAttempts; failures++) {
+      recordFailedLogin('alice');
+    }
+
+    const throttle = recordFailedLogin('alice');
+    const lockedUntil = Date.now() + lockoutMinutes * 60 * 1000;
+
+    expect(throttle).toEqual({ retryAt: lockedUntil, locked: true });
+    expect(getLockoutEvents()).toMatchObject([
+      { username: 'alice', failed_count: maxAttempts, locked_until: new Date(lockedUntil).toISOString() },
+    ]);
+
+    advance(lockoutMinutes * 60 * 1000 - 1);
+    expect(getLoginThrottle('alice')?.locked).toBe(true);
+    advance(1);
+    expect(getLoginThrottle('alice')).toBeNull();
+  });
+
+  it('starts counting again after a lockout expires', () => {
+    for (let failures = 1; failures <= maxAttempts; failures++) {
+      recordFailedLogin('alice');
+    }
+    advance(lockoutMinutes * 60 * 1000);
+
+    expect(recordFailedLogin('alice')).toEqual({ retryAt: Date.now() + backoffBaseSeconds * 1000, locked: false });
+  });
+
+  it('treats usernames case- and whitespace-insensitively', () => {
+    recordFailedLogin('  Alice ');
+
+    expect(getLoginThrottle('ALICE')).not.toBeNull();
+    expect(getLoginThrottle('bob')).toBeNull();
+  });
+
+  it('forgets failures after a successful login', () => {
+    recordFailedLogin('alice');
+    clearFailedLogins('Alice');
+
+    expect(getLoginThrottle('alice')).toBeNull();
+  });
+
+  it('lets an admin lift a lockout early', () => {
+    for (let failures = 1; failures <= maxAttempts; failures++) {
+      recordFailedLogin('alice');
+    }
+
+    expect(unlockUsername('Alice', 'admin').success).toBe(true);
+    expect(getLoginThrottle('alice')).toBeNull();
+    expect(getLockoutEvents()[0].unlocked_by).toBe('admin');
+  });
+});
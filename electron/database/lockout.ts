@@ -0,0 +1,142 @@
+import { getDatabase } from './db';
+import { AppConfig } from '../../app.config';
+
+const LOCKOUT = AppConfig.auth.lockout;
+
+export interface LoginThrottle {
+  // Time (ms) before which login attempts for this username are refused
+  retryAt: number;
+  // true for a full lockout, false for the short delay between attempts
+  locked: boolean;
+}
+
+export interface LockoutEvent {
+  id: number;
+  username: string;
+  failed_count: number;
+  locked_at: string;
+  locked_until: string;
+  unlocked_by: string | null;
+}
+
+interface FailedLoginRow {
+  username: string;
+  failed_count: number;
+  last_failed_at: string;
+  locked_until: string | null;
+}
+
+function normalizeUsername(username: string): string {
+  return (username || '').toLowerCase().trim();
+}
+
+// Delay after the nth consecutive failure: base, 2x base, 4x base... capped
+function getBackoffMs(failedCount: number): number {
+  if (failedCount === 0) {
+    return 0;
+  }
+
+  const seconds = LOCKOUT.backoffBaseSeconds * 2 ** (failedCount - 1);
+  return Math.min(seconds, LOCKOUT.backoffMaxSeconds) * 1000;
+}
+
+// Check whether a login attempt for this username must wait. Returns null if allowed.
+export function getLoginThrottle(username: string): LoginThrottle | null {
+  const db = getDatabase();
+  const row = db.prepare('SELECT * FROM auth_failed_logins WHERE username = ?').get(
+    normalizeUsername(username)
+  ) as FailedLoginRow | undefined;
+
+  if (!row) {
+    return null;
+  }
+
+  const now = Date.now();
+
+  if (row.locked_until && new Date(row.locked_until).getTime() > now) {
+    return { retryAt: new Date(row.locked_until).getTime(), locked: true };
+  }
+
+  const retryAt = new Date(row.last_failed_at).getTime() + getBackoffMs(row.failed_count);
+  return retryAt > now ? { retryAt, locked: false } : null;
+}
+
+// Count a failed attempt, locking the username once maxAttempts is reached
+export function recordFailedLogin(username: string): LoginThrottle | null {
+  const db = getDatabase();
+  const key = normalizeUsername(username);
+  const now = new Date();
+
+  return db.transaction(() => {
+    const row = db.prepare('SELECT * FROM auth_failed_logins WHERE username = ?').get(key) as
+      | FailedLoginRow
+      | undefined;
+
+    // Attempts made after a lockout expired start counting again from zero
+    const failedCount = (row && !row.locked_until ? row.failed_count : 0) + 1;
+
+    if (failedCount >= LOCKOUT.maxAttempts) {
+      const lockedUntil = new Date(now.getTime() + LOCKOUT.lockoutMinutes * 60 * 1000);
+
+      db.prepare(`
+        INSERT OR REPLACE INTO auth_failed_logins (username, failed_count, last_failed_at, locked_until)
+        VALUES (?, ?, ?, ?)
+      `).run(key, failedCount, now.toISOString(), lockedUntil.toISOString());
+
+      db.prepare(`
+        INSERT INTO auth_lockout_events (username, failed_count, locked_at, locked_until)
+        VALUES (?, ?, ?, ?)
+      `).run(key, failedCount, now.toISOString(), lockedUntil.toISOString());
+
+      console.warn(`Login locked for "${key}" until ${lockedUntil.toISOString()}`);
+      return { retryAt: lockedUntil.getTime(), locked: true };
+    }
+
+    db.prepare(`
+      INSERT OR REPLACE INTO auth_failed_logins (username, failed_count, last_failed_at, locked_until)
+      VALUES (?, ?, ?, NULL)
+    `).run(key, failedCount, now.toISOString());
+
+    const backoff = getBackoffMs(failedCount);
+    return backoff > 0 ? { retryAt: now.getTime() + backoff, locked: false } : null;
+  })();
+}
+
+// Forget failed attempts after a successful login
+export function clearFailedLogins(username: string): void {
+  const db = getDatabase();
+  db.prepare('DELETE FROM auth_failed_logins WHERE username = ?').run(normalizeUsername(username));
+}
+
+// Lockouts, newest first, for admins to review
+export function getLockoutEvents(limit = 100): LockoutEvent[] {
+  const db = getDatabase();
+  return db.prepare(`
+    SELECT id, username, failed_count, locked_at, locked_until, unlocked_by
+    FROM auth_lockout_events
+    ORDER BY locked_at DESC
+    LIMIT ?
+  `).all(limit) as LockoutEvent[];
+}
+
+// Lift an active lockout early
+export function unlockUsername(username: string, unlockedBy: string): { success: boolean; message: string } {
+  try {
+    const db = getDatabase();
+    const key = normalizeUsername(username);
+    const now = new Date().toISOString();
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM auth_failed_logins WHERE username = ?').run(key);
+      db.prepare(`
+        UPDATE auth_lockout_events SET unlocked_by = ?
+        WHERE username = ? AND locked_until > ? AND unlocked_by IS NULL
+      `).run(unlockedBy, key, now);
+    })();
+
+    return { success: true, message: `Unlocked ${key}` };
+  } catch (error) {
+    console.error('Unlock error:', error);
+    return { success: false, message: 'Failed to unlock account' };
+  }
+}
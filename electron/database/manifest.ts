@@ -0,0 +1,110 @@
+import fs from 'fs';
+import crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { AppConfig } from '../../app.config';
+
+export interface BackupManifest {
+  file: string;
+  createdAt: string;
+  appVersion: string;
+  schemaVersion: number;
+  sizeBytes: number;
+  sha256: string;
+  // 'ok', or the problems reported by PRAGMA integrity_check
+  integrity: string;
+  // Row count per table at the time of the backup
+  tables: Record<string, number>;
+}
+
+export type BackupHealth = 'ok' | 'failed' | 'unverified';
+
+// Manifest lives next to the backup: app-backup_x.db -> app-backup_x.manifest.json
+export function getManifestPath(backupPath: string): string {
+  return backupPath.replace(/\.db$/, '') + '.manifest.json';
+}
+
+// Compute the SHA-256 checksum of a file without loading it into memory
+export function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+// Open a backup read-only and record its integrity, row counts and checksum
+export async function verifyBackupFile(backupPath: string): Promise<BackupManifest> {
+  const backupDb = new Database(backupPath, { readonly: true, fileMustExist: true });
+
+  let integrity: string;
+  const tables: Record<string, number> = {};
+  let schemaVersion = 0;
+
+  try {
+    const problems = (backupDb.pragma('integrity_check') as { integrity_check: string }[]).map(
+      (row) => row.integrity_check
+    );
+    integrity = problems.join('; ');
+
+    const tableNames = (
+      backupDb
+        .prepare("SELECT name FROM sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%' ORDER BY name")
+        .all() as { name: string }[]
+    ).map((row) => row.name);
+
+    for (const name of tableNames) {
+      const row = backupDb.prepare(`SELECT COUNT(*) as count FROM "${name}"`).get() as { count: number };
+      tables[name] = row.count;
+    }
+
+    if (tableNames.includes('schema_version')) {
+      const row = backupDb.prepare('SELECT MAX(version) as version FROM schema_version').get() as {
+        version: number | null;
+      };
+      schemaVersion = row.version ?? 0;
+    }
+  } finally {
+    backupDb.close();
+  }
+
+  return {
+    file: backupPath.split(/[\\/]/).pop() || backupPath,
+    createdAt: new Date().toISOString(),
+    appVersion: AppConfig.version,
+    schemaVersion,
+    sizeBytes: fs.statSync(backupPath).size,
+    sha256: await hashFile(backupPath),
+    integrity,
+    tables,
+  };
+}
+
+export function writeManifest(backupPath: string, manifest: BackupManifest): void {
+  fs.writeFileSync(getManifestPath(backupPath), JSON.stringify(manifest, null, 2));
+}
+
+export function readManifest(backupPath: string): BackupManifest | null {
+  try {
+    const manifestPath = getManifestPath(backupPath);
+
+    if (!fs.existsSync(manifestPath)) {
+      return null;
+    }
+
+    return JSON.parse(fs.readFileSync(manifestPath, 'utf-8')) as BackupManifest;
+  } catch (error) {
+    console.error('Error reading backup manifest:', error);
+    return null;
+  }
+}
+
+// A backup is healthy when it passed verification and has not changed size since
+export function getBackupHealth(manifest: BackupManifest | null, sizeBytes: number): BackupHealth {
+  if (!manifest) {
+    return 'unverified';
+  }
+
+  return manifest.integrity === 'ok' && manifest.sizeBytes === sizeBytes ? 'ok' : 'failed';
+}
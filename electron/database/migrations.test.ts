@@ -0,0 +1,100 @@
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { getDatabase, closeDatabase } from './db';
+import { initDatabase, getSchemaVersion, SCHEMA_VERSION } from './migrations';
+import { createItem, deleteItem, getAllItems } from './items';
+import { restoreItem, purgeItem } from './trash';
+import { resetDatabase } from '../test/database';
+
+function appliedVersions(): number[] {
+  const rows = getDatabase().prepare('SELECT version FROM schema_version ORDER BY version').all() as {
+    version: number;
+  }[];
+  return rows.map((row) => row.version);
+}
+
+describe('migrations', () => {
+  beforeEach(async () => {
+    await resetDatabase();
+  });
+
+  it('migrates a new database to the current schema version, one version at a time', () => {
+    expect(getSchemaVersion()).toBe(SCHEMA_VERSION);
+    expect(appliedVersions()).toEqual(Array.from({ length: SCHEMA_VERSION }, (_, i) => i + 1));
+  });
+
+  it('does nothing when the database is already current', async () => {
+    closeDatabase();
+    await initDatabase();
+
+    expect(appliedVersions()).toHaveLength(SCHEMA_VERSION);
+    const { count } = getDatabase().prepare('SELECT COUNT(*) as count FROM categories').get() as {
+      count: number;
+    };
+    expect(count).toBe(3);
+  });
+
+  it('refuses a database from a newer version of the app', async () => {
+    getDatabase()
+      .prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)')
+      .run(SCHEMA_VERSION + 1, 'from_the_future');
+    closeDatabase();
+
+    await expect(initDatabase()).rejects.toThrow(/newer than this app supports/);
+  });
+
+  it('backs up existing data and rolls back a migration that fails', async () => {
+    // Re-running the last migration fails because its column already exists
+    const db = getDatabase();
+    db.prepare('DELETE FROM schema_version WHERE version = ?').run(SCHEMA_VERSION);
+    closeDatabase();
+
+    await expect(initDatabase()).rejects.toThrow();
+
+    expect(getSchemaVersion()).toBe(SCHEMA_VERSION - 1);
+    // The tables the migration dropped before failing are still there
+    const fts = getDatabase().prepare("SELECT name FROM sqlite_master WHERE name = 'items_fts'").get();
+    expect(fts).toBeDefined();
+
+    const backups = fs.readdirSync(path.join(app.getPath('userData'), 'backups'));
+    expect(backups.some((file) => file.endsWith('.db'))).toBe(true);
+  });
+
+  it('records moving an item to the trash and back in its history (015)', () => {
+    const { item } = createItem({ name: 'Stapler', quantity: 2 });
+
+    deleteItem(item!.id);
+    restoreItem(item!.id);
+
+    const operations = getDatabase()
+      .prepare('SELECT operation FROM item_history WHERE item_id = ? ORDER BY version')
+      .all(item!.id) as { operation: string }[];
+    expect(operations.map((row) => row.operation)).toEqual(['create', 'trash', 'restore']);
+  });
+
+  it('keeps search results correct after VACUUM renumbers rowids (016)', () => {
+    const names = ['Blue pen', 'Red stapler', 'Green folder', 'Black marker'];
+    const ids = names.map((name) => createItem({ name }).item!.id);
+
+    // Leave a gap so VACUUM has rowids to compact
+    deleteItem(ids[0]);
+    purgeItem(ids[0]);
+    getDatabase().exec('VACUUM');
+
+    expect(getAllItems({ search: 'stapler' }).rows.map((item) => item.name)).toEqual(['Red stapler']);
+    expect(getAllItems({ search: 'marker' }).rows.map((item) => item.name)).toEqual(['Black marker']);
+    expect(getAllItems({ search: 'pen' }).total).toBe(0);
+  });
+
+  it('gives every new item its own search id (016)', () => {
+    createItem({ name: 'First' });
+    createItem({ name: 'Second' });
+
+    const rows = getDatabase().prepare('SELECT search_id FROM items').all() as { search_id: number | null }[];
+    const searchIds = rows.map((row) => row.search_id);
+    expect(searchIds).not.toContain(null);
+    expect(new Set(searchIds).size).toBe(searchIds.length);
+  });
+});
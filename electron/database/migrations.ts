@@ -1,85 +1,128 @@
+import type Database from 'better-sqlite3';
 import { getDatabase } from './db';
+import { createBackup } from './backup';
+import type { Migration } from './migrations/types';
 
-export function initDatabase(): void {
-  const db = getDatabase();
+// Migration modules - append new ones here, never edit or reorder applied ones
+import { migration as initialSchema } from './migrations/001_initial_schema';
+import { migration as multiUser } from './migrations/002_multi_user';
+import { migration as loginLockout } from './migrations/003_login_lockout';
+import { migration as quickUnlockPin } from './migrations/004_quick_unlock_pin';
+import { migration as recoveryCodes } from './migrations/005_recovery_codes';
+import { migration as twoFactor } from './migrations/006_two_factor';
+import { migration as passwordHistory } from './migrations/007_password_history';
+import { migration as sessionDetails } from './migrations/008_session_details';
+import { migration as auditLog } from './migrations/009_audit_log';
+import { migration as itemHistory } from './migrations/010_item_history';
+import { migration as softDelete } from './migrations/011_soft_delete';
+import { migration as itemSortIndexes } from './migrations/012_item_sort_indexes';
+import { migration as itemSearch } from './migrations/013_item_search';
+import { migration as recentRecords } from './migrations/014_recent_records';
+import { migration as itemHistoryTrash } from './migrations/015_item_history_trash';
+import { migration as itemSearchId } from './migrations/016_item_search_id';
 
-  // ============================================
-  // AUTH TABLES
-  // ============================================
+const MIGRATIONS: Migration[] = [
+  initialSchema,
+  multiUser,
+  loginLockout,
+  quickUnlockPin,
+  recoveryCodes,
+  twoFactor,
+  passwordHistory,
+  sessionDetails,
+  auditLog,
+  itemHistory,
+  softDelete,
+  itemSortIndexes,
+  itemSearch,
+  recentRecords,
+  itemHistoryTrash,
+  itemSearchId,
+];
 
-  // User table (single user enforced via CHECK constraint)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS auth_user (
-      id INTEGER PRIMARY KEY CHECK (id = 1),
-      username TEXT NOT NULL UNIQUE,
-      password_hash TEXT NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      last_login TEXT
-    );
-  `);
+// Schema version this build of the app expects
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
 
-  // Sessions table (for "remember me" functionality)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS auth_sessions (
-      id TEXT PRIMARY KEY,
-      user_id INTEGER NOT NULL,
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      expires_at TEXT NOT NULL,
-      FOREIGN KEY (user_id) REFERENCES auth_user(id) ON DELETE CASCADE
-    );
-  `);
+// Read the current schema version (0 for a database that was never migrated)
+export function getSchemaVersion(db: Database.Database = getDatabase()): number {
+  const row = db.prepare('SELECT MAX(version) as version FROM schema_version').get() as {
+    version: number | null;
+  };
+  return row.version ?? 0;
+}
 
-  // ============================================
-  // EXAMPLE DATA TABLES
-  // ============================================
+// Check whether the database holds any tables besides schema_version
+function hasExistingData(db: Database.Database): boolean {
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%' AND name != 'schema_version'
+  `).get() as { count: number };
+  return row.count > 0;
+}
 
-  // Categories table
+// Apply every pending migration in order, each in its own transaction
+async function runMigrations(db: Database.Database): Promise<void> {
   db.exec(`
-    CREATE TABLE IF NOT EXISTS categories (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL UNIQUE,
-      created_at TEXT NOT NULL DEFAULT (datetime('now'))
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL DEFAULT (datetime('now'))
     );
   `);
 
-  // Items table (example CRUD model)
-  db.exec(`
-    CREATE TABLE IF NOT EXISTS items (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      description TEXT,
-      category_id TEXT,
-      quantity INTEGER NOT NULL DEFAULT 0,
-      status TEXT NOT NULL DEFAULT 'active' CHECK(status IN ('active', 'inactive')),
-      created_at TEXT NOT NULL DEFAULT (datetime('now')),
-      updated_at TEXT NOT NULL DEFAULT (datetime('now')),
-      FOREIGN KEY (category_id) REFERENCES categories(id) ON DELETE SET NULL
+  const currentVersion = getSchemaVersion(db);
+
+  if (currentVersion > SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this app supports (${SCHEMA_VERSION}). ` +
+        'Please update the application.'
     );
-  `);
+  }
 
-  // ============================================
-  // INDEXES
-  // ============================================
+  const pending = MIGRATIONS.filter((migration) => migration.version > currentVersion);
 
-  db.exec(`
-    CREATE INDEX IF NOT EXISTS idx_items_category ON items(category_id);
-    CREATE INDEX IF NOT EXISTS idx_items_status ON items(status);
-    CREATE INDEX IF NOT EXISTS idx_items_name ON items(name);
-    CREATE INDEX IF NOT EXISTS idx_auth_sessions_expires ON auth_sessions(expires_at);
-  `);
+  if (pending.length === 0) {
+    return;
+  }
 
-  // ============================================
-  // TRIGGERS
-  // ============================================
+  // Back up existing data before touching the schema
+  if (hasExistingData(db)) {
+    const backup = await createBackup();
 
-  // Update timestamp trigger for items
-  db.exec(`
-    CREATE TRIGGER IF NOT EXISTS update_items_timestamp
-    AFTER UPDATE ON items
-    BEGIN
-      UPDATE items SET updated_at = datetime('now') WHERE id = NEW.id;
-    END;
-  `);
+    if (!backup.success) {
+      throw new Error(`Pre-migration backup failed, aborting migration: ${backup.message}`);
+    }
+  }
+
+  // Foreign keys cannot be toggled inside a transaction, so disable them for the
+  // whole run and verify integrity before each migration commits
+  db.pragma('foreign_keys = OFF');
+
+  try {
+    for (const migration of pending) {
+      db.transaction(() => {
+        migration.up(db);
+
+        const violations = db.pragma('foreign_key_check') as unknown[];
+        if (violations.length > 0) {
+          throw new Error(`Migration ${migration.version} left ${violations.length} foreign key violations`);
+        }
+
+        db.prepare('INSERT INTO schema_version (version, name) VALUES (?, ?)').run(
+          migration.version,
+          migration.name
+        );
+      })();
+    }
+  } finally {
+    db.pragma('foreign_keys = ON');
+  }
+}
+
+export async function initDatabase(): Promise<void> {
+  const db = getDatabase();
+
+  await runMigrations(db);
 
   // Insert default categories if table is empty
   const categoryCount = db.prepare('SELECT COUNT(*) as count FROM categories').get() as { count: number };
@@ -0,0 +1,31 @@
+import type { Migration } from './types';
+
+// Lift the single-user CHECK (id = 1) on auth_user and add roles. SQLite cannot
+// drop a CHECK constraint, so the table is rebuilt and the existing user becomes
+// the first admin. Foreign keys are off while migrations run, so auth_sessions
+// keeps pointing at auth_user once the new table takes its name.
+export const migration: Migration = {
+  version: 2,
+  name: 'multi_user',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE auth_user_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL UNIQUE,
+        password_hash TEXT NOT NULL,
+        role TEXT NOT NULL DEFAULT 'viewer' CHECK (role IN ('admin', 'editor', 'viewer')),
+        disabled INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        last_login TEXT
+      );
+
+      INSERT INTO auth_user_new (id, username, password_hash, role, created_at, last_login)
+      SELECT id, username, password_hash, 'admin', created_at, last_login FROM auth_user;
+
+      DROP TABLE auth_user;
+      ALTER TABLE auth_user_new RENAME TO auth_user;
+
+      CREATE INDEX IF NOT EXISTS idx_auth_sessions_user ON auth_sessions(user_id);
+    `);
+  },
+};
@@ -0,0 +1,29 @@
+import type { Migration } from './types';
+
+// Failed login tracking. Keyed by the username that was typed, not the user id,
+// so attempts against names that do not exist are throttled the same way.
+export const migration: Migration = {
+  version: 3,
+  name: 'login_lockout',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE auth_failed_logins (
+        username TEXT PRIMARY KEY,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        last_failed_at TEXT NOT NULL,
+        locked_until TEXT
+      );
+
+      CREATE TABLE auth_lockout_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        username TEXT NOT NULL,
+        failed_count INTEGER NOT NULL,
+        locked_at TEXT NOT NULL DEFAULT (datetime('now')),
+        locked_until TEXT NOT NULL,
+        unlocked_by TEXT
+      );
+
+      CREATE INDEX idx_auth_lockout_events_locked_at ON auth_lockout_events(locked_at);
+    `);
+  },
+};
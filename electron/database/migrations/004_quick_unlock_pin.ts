@@ -0,0 +1,10 @@
+import type { Migration } from './types';
+
+// Optional numeric PIN for unlocking the idle lock screen, hashed like passwords
+export const migration: Migration = {
+  version: 4,
+  name: 'quick_unlock_pin',
+  up: (db) => {
+    db.exec(`ALTER TABLE auth_user ADD COLUMN pin_hash TEXT;`);
+  },
+};
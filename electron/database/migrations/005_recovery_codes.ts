@@ -0,0 +1,21 @@
+import type { Migration } from './types';
+
+// One-time account recovery codes. Only a SHA-256 hash of each code is stored.
+export const migration: Migration = {
+  version: 5,
+  name: 'recovery_codes',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE auth_recovery_codes (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        code_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        used_at TEXT,
+        FOREIGN KEY (user_id) REFERENCES auth_user(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_auth_recovery_codes_user ON auth_recovery_codes(user_id);
+    `);
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+
+// TOTP second factor: the secret is encrypted (see electron/secrets.ts) and the
+// last accepted time step is kept so a code cannot be used twice
+export const migration: Migration = {
+  version: 6,
+  name: 'two_factor',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE auth_user ADD COLUMN totp_secret TEXT;
+      ALTER TABLE auth_user ADD COLUMN totp_last_step INTEGER;
+    `);
+  },
+};
@@ -0,0 +1,24 @@
+import type { Migration } from './types';
+
+// Hashes of each user's recent passwords, so the policy can refuse reuse.
+// Current passwords are seeded so changing back to them is refused too.
+export const migration: Migration = {
+  version: 7,
+  name: 'password_history',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE auth_password_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        password_hash TEXT NOT NULL,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        FOREIGN KEY (user_id) REFERENCES auth_user(id) ON DELETE CASCADE
+      );
+
+      CREATE INDEX idx_auth_password_history_user ON auth_password_history(user_id);
+
+      INSERT INTO auth_password_history (user_id, password_hash, created_at)
+      SELECT id, password_hash, created_at FROM auth_user;
+    `);
+  },
+};
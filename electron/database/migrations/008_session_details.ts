@@ -0,0 +1,18 @@
+import type { Migration } from './types';
+
+// Every sign-in now gets a session row. Sessions carry a device label and a
+// last-seen time; `persistent` marks "remember me" sessions, the others only
+// live as long as the app is running.
+export const migration: Migration = {
+  version: 8,
+  name: 'session_details',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE auth_sessions ADD COLUMN label TEXT;
+      ALTER TABLE auth_sessions ADD COLUMN last_seen_at TEXT;
+      ALTER TABLE auth_sessions ADD COLUMN persistent INTEGER NOT NULL DEFAULT 1;
+
+      UPDATE auth_sessions SET last_seen_at = created_at;
+    `);
+  },
+};
@@ -0,0 +1,38 @@
+import type { Migration } from './types';
+
+// Append-only record of data, account and backup changes. Actor and entity
+// names are copied in so entries stay readable after renames and deletes.
+export const migration: Migration = {
+  version: 9,
+  name: 'audit_log',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE audit_log (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        created_at TEXT NOT NULL DEFAULT (datetime('now')),
+        actor_id INTEGER,
+        actor TEXT NOT NULL,
+        action TEXT NOT NULL,
+        entity_type TEXT NOT NULL,
+        entity_id TEXT,
+        entity_label TEXT,
+        changes TEXT
+      );
+
+      CREATE INDEX idx_audit_log_created ON audit_log(created_at);
+      CREATE INDEX idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+      CREATE TRIGGER audit_log_no_update
+      BEFORE UPDATE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+
+      CREATE TRIGGER audit_log_no_delete
+      BEFORE DELETE ON audit_log
+      BEGIN
+        SELECT RAISE(ABORT, 'audit_log is append-only');
+      END;
+    `);
+  },
+};
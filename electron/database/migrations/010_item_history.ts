@@ -0,0 +1,69 @@
+import type { Migration } from './types';
+
+// Every version of every item, written by triggers so imports and bulk edits are
+// captured as well as single edits. changed_by comes from the current_user_id()
+// function registered on each connection in db.ts (NULL for system changes).
+// Existing items get their current row as version 1.
+export const migration: Migration = {
+  version: 10,
+  name: 'item_history',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE item_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'delete')),
+        name TEXT NOT NULL,
+        description TEXT,
+        category_id TEXT,
+        quantity INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        changed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        changed_by INTEGER,
+        UNIQUE (item_id, version)
+      );
+
+      INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_at)
+      SELECT id, 1, 'create', name, description, category_id, quantity, status, updated_at FROM items;
+
+      CREATE TRIGGER items_history_insert
+      AFTER INSERT ON items
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          NEW.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = NEW.id),
+          'create', NEW.name, NEW.description, NEW.category_id, NEW.quantity, NEW.status, current_user_id()
+        );
+      END;
+
+      CREATE TRIGGER items_history_update
+      AFTER UPDATE ON items
+      WHEN OLD.name IS NOT NEW.name
+        OR OLD.description IS NOT NEW.description
+        OR OLD.category_id IS NOT NEW.category_id
+        OR OLD.quantity IS NOT NEW.quantity
+        OR OLD.status IS NOT NEW.status
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          NEW.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = NEW.id),
+          'update', NEW.name, NEW.description, NEW.category_id, NEW.quantity, NEW.status, current_user_id()
+        );
+      END;
+
+      CREATE TRIGGER items_history_delete
+      AFTER DELETE ON items
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          OLD.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = OLD.id),
+          'delete', OLD.name, OLD.description, OLD.category_id, OLD.quantity, OLD.status, current_user_id()
+        );
+      END;
+    `);
+  },
+};
@@ -0,0 +1,17 @@
+import type { Migration } from './types';
+
+// Deleting an item or category moves it to the trash by setting deleted_at;
+// rows are only removed when the trash is emptied or purged.
+export const migration: Migration = {
+  version: 11,
+  name: 'soft_delete',
+  up: (db) => {
+    db.exec(`
+      ALTER TABLE items ADD COLUMN deleted_at TEXT;
+      ALTER TABLE categories ADD COLUMN deleted_at TEXT;
+
+      CREATE INDEX idx_items_deleted ON items(deleted_at);
+      CREATE INDEX idx_categories_deleted ON categories(deleted_at);
+    `);
+  },
+};
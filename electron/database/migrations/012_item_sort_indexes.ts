@@ -0,0 +1,15 @@
+import type { Migration } from './types';
+
+// Indexes for the sortable columns of the paged item list that 001 did not cover
+export const migration: Migration = {
+  version: 12,
+  name: 'item_sort_indexes',
+  up: (db) => {
+    db.exec(`
+      CREATE INDEX idx_items_created ON items(created_at);
+      CREATE INDEX idx_items_updated ON items(updated_at);
+      CREATE INDEX idx_items_quantity ON items(quantity);
+      CREATE INDEX idx_items_name_nocase ON items(name COLLATE NOCASE);
+    `);
+  },
+};
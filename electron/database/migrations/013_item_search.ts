@@ -0,0 +1,46 @@
+import type { Migration } from './types';
+
+// Full-text index over item names and descriptions for search. It reads its
+// content from `items` by rowid and is kept in sync by triggers; soft-deleted
+// items stay indexed and are filtered out by the queries. Migration 16 rebuilds
+// the index on a stable search_id, since VACUUM may renumber these rowids.
+export const migration: Migration = {
+  version: 13,
+  name: 'item_search',
+  up: (db) => {
+    db.exec(`
+      CREATE VIRTUAL TABLE items_fts USING fts5(
+        name,
+        description,
+        content = 'items',
+        content_rowid = 'rowid',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      INSERT INTO items_fts(items_fts) VALUES ('rebuild');
+
+      CREATE TRIGGER items_fts_insert
+      AFTER INSERT ON items
+      BEGIN
+        INSERT INTO items_fts (rowid, name, description)
+        VALUES (NEW.rowid, NEW.name, NEW.description);
+      END;
+
+      CREATE TRIGGER items_fts_delete
+      AFTER DELETE ON items
+      BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', OLD.rowid, OLD.name, OLD.description);
+      END;
+
+      CREATE TRIGGER items_fts_update
+      AFTER UPDATE OF name, description ON items
+      BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', OLD.rowid, OLD.name, OLD.description);
+        INSERT INTO items_fts (rowid, name, description)
+        VALUES (NEW.rowid, NEW.name, NEW.description);
+      END;
+    `);
+  },
+};
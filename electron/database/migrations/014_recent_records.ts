@@ -0,0 +1,20 @@
+import type { Migration } from './types';
+
+// Records each user opened most recently, so the command palette can list them
+// first. opened_at keeps milliseconds to order records opened in the same second.
+export const migration: Migration = {
+  version: 14,
+  name: 'recent_records',
+  up: (db) => {
+    db.exec(`
+      CREATE TABLE recent_records (
+        user_id INTEGER NOT NULL,
+        entity_type TEXT NOT NULL CHECK (entity_type IN ('item', 'category')),
+        entity_id TEXT NOT NULL,
+        opened_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%d %H:%M:%f', 'now')),
+        PRIMARY KEY (user_id, entity_type, entity_id),
+        FOREIGN KEY (user_id) REFERENCES auth_user(id) ON DELETE CASCADE
+      );
+    `);
+  },
+};
@@ -0,0 +1,88 @@
+import type { Migration } from './types';
+
+// Moving an item to the trash or restoring it only changes deleted_at, which the
+// update trigger from migration 10 ignored. Record both as their own operations.
+// SQLite cannot change a CHECK constraint in place, so item_history is rebuilt
+// with the wider operation list and the triggers are recreated against it.
+//
+// IMPORTANT: the triggers call current_user_id(), which exists only on connections
+// opened by db.ts. Any other tool that writes to `items` (the sqlite3 shell, a
+// script, a data migration) must register that function first, returning the
+// user id or NULL, or its INSERT/UPDATE/DELETE fails with "no such function".
+export const migration: Migration = {
+  version: 15,
+  name: 'item_history_trash',
+  up: (db) => {
+    db.exec(`
+      DROP TRIGGER items_history_insert;
+      DROP TRIGGER items_history_update;
+      DROP TRIGGER items_history_delete;
+
+      CREATE TABLE item_history_new (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        item_id TEXT NOT NULL,
+        version INTEGER NOT NULL,
+        operation TEXT NOT NULL CHECK (operation IN ('create', 'update', 'trash', 'restore', 'delete')),
+        name TEXT NOT NULL,
+        description TEXT,
+        category_id TEXT,
+        quantity INTEGER NOT NULL,
+        status TEXT NOT NULL,
+        changed_at TEXT NOT NULL DEFAULT (datetime('now')),
+        changed_by INTEGER,
+        UNIQUE (item_id, version)
+      );
+
+      INSERT INTO item_history_new (id, item_id, version, operation, name, description, category_id, quantity, status, changed_at, changed_by)
+      SELECT id, item_id, version, operation, name, description, category_id, quantity, status, changed_at, changed_by
+      FROM item_history;
+
+      DROP TABLE item_history;
+      ALTER TABLE item_history_new RENAME TO item_history;
+
+      CREATE TRIGGER items_history_insert
+      AFTER INSERT ON items
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          NEW.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = NEW.id),
+          'create', NEW.name, NEW.description, NEW.category_id, NEW.quantity, NEW.status, current_user_id()
+        );
+      END;
+
+      CREATE TRIGGER items_history_update
+      AFTER UPDATE ON items
+      WHEN OLD.name IS NOT NEW.name
+        OR OLD.description IS NOT NEW.description
+        OR OLD.category_id IS NOT NEW.category_id
+        OR OLD.quantity IS NOT NEW.quantity
+        OR OLD.status IS NOT NEW.status
+        OR OLD.deleted_at IS NOT NEW.deleted_at
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          NEW.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = NEW.id),
+          CASE
+            WHEN OLD.deleted_at IS NULL AND NEW.deleted_at IS NOT NULL THEN 'trash'
+            WHEN OLD.deleted_at IS NOT NULL AND NEW.deleted_at IS NULL THEN 'restore'
+            ELSE 'update'
+          END,
+          NEW.name, NEW.description, NEW.category_id, NEW.quantity, NEW.status, current_user_id()
+        );
+      END;
+
+      CREATE TRIGGER items_history_delete
+      AFTER DELETE ON items
+      BEGIN
+        INSERT INTO item_history (item_id, version, operation, name, description, category_id, quantity, status, changed_by)
+        VALUES (
+          OLD.id,
+          (SELECT COALESCE(MAX(version), 0) + 1 FROM item_history WHERE item_id = OLD.id),
+          'delete', OLD.name, OLD.description, OLD.category_id, OLD.quantity, OLD.status, current_user_id()
+        );
+      END;
+    `);
+  },
+};
@@ -0,0 +1,58 @@
+import type { Migration } from './types';
+
+// The search index from migration 13 pointed at the implicit rowid of `items`,
+// which VACUUM may renumber because the primary key is TEXT. Give each item a
+// stable INTEGER search_id, assigned on insert, and key the index on that.
+export const migration: Migration = {
+  version: 16,
+  name: 'item_search_id',
+  up: (db) => {
+    db.exec(`
+      DROP TRIGGER items_fts_insert;
+      DROP TRIGGER items_fts_delete;
+      DROP TRIGGER items_fts_update;
+      DROP TABLE items_fts;
+
+      ALTER TABLE items ADD COLUMN search_id INTEGER;
+      UPDATE items SET search_id = rowid;
+      CREATE UNIQUE INDEX idx_items_search_id ON items(search_id);
+
+      CREATE VIRTUAL TABLE items_fts USING fts5(
+        name,
+        description,
+        content = 'items',
+        content_rowid = 'search_id',
+        tokenize = 'unicode61 remove_diacritics 2'
+      );
+
+      INSERT INTO items_fts(items_fts) VALUES ('rebuild');
+
+      -- Inserts never set search_id, so it is assigned here before the row is indexed
+      CREATE TRIGGER items_fts_insert
+      AFTER INSERT ON items
+      BEGIN
+        UPDATE items SET search_id = (SELECT COALESCE(MAX(search_id), 0) + 1 FROM items)
+        WHERE id = NEW.id AND search_id IS NULL;
+
+        INSERT INTO items_fts (rowid, name, description)
+        SELECT search_id, name, description FROM items WHERE id = NEW.id;
+      END;
+
+      CREATE TRIGGER items_fts_delete
+      AFTER DELETE ON items
+      BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', OLD.search_id, OLD.name, OLD.description);
+      END;
+
+      CREATE TRIGGER items_fts_update
+      AFTER UPDATE OF name, description ON items
+      BEGIN
+        INSERT INTO items_fts (items_fts, rowid, name, description)
+        VALUES ('delete', OLD.search_id, OLD.name, OLD.description);
+        INSERT INTO items_fts (rowid, name, description)
+        VALUES (NEW.search_id, NEW.name, NEW.description);
+      END;
+    `);
+  },
+};
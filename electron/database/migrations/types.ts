@@ -0,0 +1,10 @@
+import type Database from 'better-sqlite3';
+
+export interface Migration {
+  // Sequential schema version this migration upgrades the database to
+  version: number;
+  // Short description, stored in schema_version for reference
+  name: string;
+  // Apply the schema change (runs inside a transaction)
+  up: (db: Database.Database) => void;
+}
@@ -0,0 +1,64 @@
+import bcrypt from 'bcryptjs';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { AppConfig } from '../../app.config';
+import { getDatabase } from './db';
+import { checkPassword, validateNewPassword, recordPasswordHistory, needsRehash } from './passwordPolicy';
+import { resetDatabase } from '../test/database';
+
+const { historyCount } = AppConfig.auth.passwordPolicy;
+
+describe('password policy', () => {
+  it('scores passwords against the configured rules', () => {
+    expect(checkPassword('Sh0rt')).toMatchObject({ valid: false, score: 1 });
+    expect(checkPassword('Password1')).toMatchObject({ valid: false, score: 0 });
+    expect(checkPassword('Quiet-Harbor-Lamp-42')).toMatchObject({ valid: true, score: 4 });
+  });
+
+  it('lists the rules a new password is missing', async () => {
+    expect(await validateNewPassword('lowercaseonly')).toBe(
+      'Password does not meet the policy: an uppercase letter, a number'
+    );
+    expect(await validateNewPassword('Quiet-Harbor-Lamp-42')).toBeNull();
+  });
+
+  describe('history', () => {
+    let userId: number;
+
+    // Low-cost hashes keep the test fast; the comparison does not depend on the cost
+    async function usePasswords(count: number): Promise<void> {
+      for (let n = 1; n <= count; n++) {
+        recordPasswordHistory(userId, await bcrypt.hash(`Old-Password-${n}`, 4));
+      }
+    }
+
+    beforeEach(async () => {
+      await resetDatabase();
+      const result = getDatabase()
+        .prepare("INSERT INTO auth_user (username, password_hash, role) VALUES ('alice', 'x', 'editor')")
+        .run();
+      userId = Number(result.lastInsertRowid);
+    });
+
+    it('refuses the last historyCount passwords and allows older ones', async () => {
+      await usePasswords(historyCount + 1);
+
+      expect(await validateNewPassword('Old-Password-1', userId)).toBeNull();
+      expect(await validateNewPassword('Old-Password-2', userId)).toMatch(/was used recently/);
+      expect(await validateNewPassword(`Old-Password-${historyCount + 1}`, userId)).toMatch(/was used recently/);
+    });
+
+    it('keeps only as many hashes as it checks', async () => {
+      await usePasswords(historyCount + 2);
+
+      const { count } = getDatabase()
+        .prepare('SELECT COUNT(*) as count FROM auth_password_history WHERE user_id = ?')
+        .get(userId) as { count: number };
+      expect(count).toBe(historyCount);
+    });
+  });
+
+  it('flags hashes made with a different cost for rehashing', async () => {
+    expect(needsRehash(await bcrypt.hash('x', 4))).toBe(true);
+    expect(needsRehash(bcrypt.hashSync('x', AppConfig.auth.bcryptCost))).toBe(false);
+  });
+});
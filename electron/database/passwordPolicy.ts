@@ -0,0 +1,108 @@
+import bcrypt from 'bcryptjs';
+import { getDatabase } from './db';
+import { AppConfig } from '../../app.config';
+import { COMMON_PASSWORDS } from './common-passwords';
+
+const commonPasswords = new Set(COMMON_PASSWORDS);
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+export interface PasswordCheck {
+  // Every requirement of the configured policy is met
+  valid: boolean;
+  // 0 (very weak) to 4 (strong), for the strength meter
+  score: number;
+  requirements: PasswordRequirement[];
+}
+
+// Check a password against the policy. Reuse is checked separately (it needs the user).
+export function checkPassword(password: string): PasswordCheck {
+  const policy = AppConfig.auth.passwordPolicy;
+  const value = password || '';
+  const classes = {
+    uppercase: /[A-Z]/.test(value),
+    lowercase: /[a-z]/.test(value),
+    number: /\d/.test(value),
+    symbol: /[^A-Za-z0-9]/.test(value),
+  };
+
+  const requirements: PasswordRequirement[] = [
+    { label: `At least ${policy.minLength} characters`, met: value.length >= policy.minLength },
+  ];
+
+  if (policy.requireUppercase) requirements.push({ label: 'An uppercase letter', met: classes.uppercase });
+  if (policy.requireLowercase) requirements.push({ label: 'A lowercase letter', met: classes.lowercase });
+  if (policy.requireNumber) requirements.push({ label: 'A number', met: classes.number });
+  if (policy.requireSymbol) requirements.push({ label: 'A symbol', met: classes.symbol });
+
+  const isCommon = commonPasswords.has(value.toLowerCase());
+  if (policy.blockCommon) {
+    requirements.push({ label: 'Not a commonly used password', met: !isCommon });
+  }
+
+  const valid = requirements.every((requirement) => requirement.met);
+
+  // Length counts for most; variety of character classes adds the rest
+  const classCount = Object.values(classes).filter(Boolean).length;
+  let score = 0;
+  if (value.length >= policy.minLength) score++;
+  if (value.length >= 12) score++;
+  if (classCount >= 3) score++;
+  if (value.length >= 16 || classCount === 4) score++;
+  if (isCommon || !value) score = 0;
+  else if (!valid) score = Math.min(score, 1);
+
+  return { valid, score, requirements };
+}
+
+// Error message for a password that cannot be used, or null if it is fine.
+// Pass the user id when changing an existing user's password to refuse reuse.
+export async function validateNewPassword(password: string, userId?: number): Promise<string | null> {
+  const check = checkPassword(password);
+
+  if (!check.valid) {
+    const missing = check.requirements.filter((requirement) => !requirement.met);
+    return `Password does not meet the policy: ${missing.map((r) => r.label.toLowerCase()).join(', ')}`;
+  }
+
+  const historyCount = AppConfig.auth.passwordPolicy.historyCount;
+  if (userId !== undefined && historyCount > 0) {
+    const db = getDatabase();
+    const recent = db.prepare(`
+      SELECT password_hash FROM auth_password_history
+      WHERE user_id = ? ORDER BY id DESC LIMIT ?
+    `).all(userId, historyCount) as { password_hash: string }[];
+
+    for (const row of recent) {
+      if (await bcrypt.compare(password, row.password_hash)) {
+        return `This password was used recently. Choose one that is not among your last ${historyCount}.`;
+      }
+    }
+  }
+
+  return null;
+}
+
+// Remember a newly set password hash, keeping only as many as the policy checks
+export function recordPasswordHistory(userId: number, passwordHash: string): void {
+  const db = getDatabase();
+
+  db.prepare('INSERT INTO auth_password_history (user_id, password_hash) VALUES (?, ?)').run(
+    userId,
+    passwordHash
+  );
+  db.prepare(`
+    DELETE FROM auth_password_history
+    WHERE user_id = ? AND id NOT IN (
+      SELECT id FROM auth_password_history WHERE user_id = ? ORDER BY id DESC LIMIT ?
+    )
+  `).run(userId, userId, AppConfig.auth.passwordPolicy.historyCount);
+}
+
+// Hash made with a different cost than configured (raised or lowered since)
+export function needsRehash(passwordHash: string): boolean {
+  return bcrypt.getRounds(passwordHash) !== AppConfig.auth.bcryptCost;
+}
@@ -0,0 +1,204 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { getDatabase } from './db';
+import { SALT_ROUNDS, getCurrentUser } from './auth';
+import { getLoginThrottle, recordFailedLogin, clearFailedLogins } from './lockout';
+import { validateNewPassword, recordPasswordHistory } from './passwordPolicy';
+import { logAudit, ANONYMOUS_ACTOR } from './audit';
+
+const CODE_COUNT = 10;
+// No 0/O, 1/I/L so codes survive being written down by hand
+const CODE_ALPHABET = 'ABCDEFGHJKMNPQRSTUVWXYZ23456789';
+
+export interface RecoveryCodeStatus {
+  remaining: number;
+  total: number;
+}
+
+export interface RecoverAccountData {
+  username: string;
+  code: string;
+  newPassword: string;
+}
+
+// XXXXX-XXXXX, about 49 bits of entropy each
+function createCode(): string {
+  const chars = Array.from({ length: 10 }, () => CODE_ALPHABET[crypto.randomInt(CODE_ALPHABET.length)]);
+  return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`;
+}
+
+// Codes are random enough that a fast hash is safe; normalise what the user typed
+function hashCode(code: string): string {
+  const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+// Replace a user's codes with a new set and return them (shown once, never stored)
+export function generateRecoveryCodes(userId: number): string[] {
+  const db = getDatabase();
+  const codes = Array.from({ length: CODE_COUNT }, createCode);
+
+  db.transaction(() => {
+    db.prepare('DELETE FROM auth_recovery_codes WHERE user_id = ?').run(userId);
+
+    const insert = db.prepare('INSERT INTO auth_recovery_codes (user_id, code_hash) VALUES (?, ?)');
+    codes.forEach((code) => insert.run(userId, hashCode(code)));
+  })();
+
+  return codes;
+}
+
+// Id of the user's unused code matching what they typed, if any
+function findUnusedCode(userId: number, code: string): number | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT id FROM auth_recovery_codes WHERE user_id = ? AND code_hash = ? AND used_at IS NULL
+  `).get(userId, hashCode(code)) as { id: number } | undefined;
+
+  return row ? row.id : null;
+}
+
+function markCodeUsed(codeId: number): void {
+  const db = getDatabase();
+  db.prepare(`UPDATE auth_recovery_codes SET used_at = datetime('now') WHERE id = ?`).run(codeId);
+}
+
+// Check a code for a user and mark it used. Returns false if it is wrong or already used.
+export function consumeRecoveryCode(userId: number, code: string): boolean {
+  const codeId = findUnusedCode(userId, code);
+
+  if (codeId === null) {
+    return false;
+  }
+
+  markCodeUsed(codeId);
+  return true;
+}
+
+export function getRecoveryCodeStatus(): RecoveryCodeStatus {
+  const user = getCurrentUser();
+
+  if (!user) {
+    return { remaining: 0, total: 0 };
+  }
+
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) as total, SUM(CASE WHEN used_at IS NULL THEN 1 ELSE 0 END) as remaining
+    FROM auth_recovery_codes WHERE user_id = ?
+  `).get(user.id) as { total: number; remaining: number | null };
+
+  return { remaining: row.remaining ?? 0, total: row.total };
+}
+
+// New codes for the signed-in user; needs the current password
+export async function regenerateRecoveryCodes(
+  currentPassword: string
+): Promise<{ success: boolean; message: string; codes?: string[] }> {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const db = getDatabase();
+    const row = db.prepare('SELECT password_hash FROM auth_user WHERE id = ?').get(user.id) as {
+      password_hash: string;
+    };
+
+    if (!(await bcrypt.compare(currentPassword, row.password_hash))) {
+      return { success: false, message: 'Current password is incorrect' };
+    }
+
+    const codes = generateRecoveryCodes(user.id);
+    logAudit({
+      action: 'auth.recovery_codes_regenerate',
+      entityType: 'user',
+      entityId: user.id,
+      entityLabel: user.username,
+    });
+
+    return { success: true, message: 'New recovery codes generated', codes };
+  } catch (error) {
+    console.error('Regenerate recovery codes error:', error);
+    return { success: false, message: 'Failed to generate recovery codes' };
+  }
+}
+
+// "Forgot password": trade an unused recovery code for a new password.
+// Attempts count towards the login lockout for that username.
+export async function recoverAccount(
+  data: RecoverAccountData
+): Promise<{ success: boolean; message: string; retryAt?: number }> {
+  try {
+    const throttle = getLoginThrottle(data.username);
+    if (throttle) {
+      return {
+        success: false,
+        message: throttle.locked
+          ? 'Too many failed attempts. This account is temporarily locked.'
+          : 'Please wait before trying again.',
+        retryAt: throttle.retryAt,
+      };
+    }
+
+    // Policy only for now; no user id, so no reuse check yet
+    const policyError = await validateNewPassword(data.newPassword);
+    if (policyError) {
+      return { success: false, message: policyError };
+    }
+
+    const db = getDatabase();
+    const username = (data.username || '').toLowerCase().trim();
+    const user = db.prepare('SELECT id FROM auth_user WHERE username = ? AND disabled = 0').get(username) as
+      | { id: number }
+      | undefined;
+    const codeId = user ? findUnusedCode(user.id, data.code || '') : null;
+
+    if (!user || codeId === null) {
+      logAudit({
+        action: 'auth.recovery_failed',
+        entityType: 'user',
+        entityId: user?.id,
+        entityLabel: username,
+        actor: ANONYMOUS_ACTOR,
+      });
+      const next = recordFailedLogin(data.username);
+      return { success: false, message: 'Invalid username or recovery code', retryAt: next?.retryAt };
+    }
+
+    // Reuse is only checked once the code is proven, and the code is kept if the password is refused
+    const passwordError = await validateNewPassword(data.newPassword, user.id);
+    if (passwordError) {
+      return { success: false, message: passwordError };
+    }
+
+    const passwordHash = await bcrypt.hash(data.newPassword, SALT_ROUNDS);
+
+    // Same as an admin reset: the old PIN and every session go with the old password
+    db.transaction(() => {
+      markCodeUsed(codeId);
+      db.prepare('UPDATE auth_user SET password_hash = ?, pin_hash = NULL WHERE id = ?').run(
+        passwordHash,
+        user.id
+      );
+      recordPasswordHistory(user.id, passwordHash);
+      db.prepare('DELETE FROM auth_sessions WHERE user_id = ?').run(user.id);
+    })();
+
+    clearFailedLogins(data.username);
+    logAudit({
+      action: 'auth.password_recover',
+      entityType: 'user',
+      entityId: user.id,
+      entityLabel: username,
+      actor: { id: user.id, username },
+    });
+
+    return { success: true, message: 'Password reset. You can now sign in with your new password.' };
+  } catch (error) {
+    console.error('Account recovery error:', error);
+    return { success: false, message: 'Account recovery failed' };
+  }
+}
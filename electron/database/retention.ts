@@ -0,0 +1,71 @@
+// Grandfather-father-son retention: keep the newest backup in each of the last
+// N hours, days, weeks and months. A backup can be kept by several rules.
+
+export type RetentionRule = 'latest' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'last-known-good';
+
+export interface RetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+interface RetentionCandidate {
+  path: string;
+  createdAt: number;
+  healthy: boolean;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Bucket keys use local time so "daily" follows the user's calendar days
+const bucketKeys: Record<keyof RetentionPolicy, (date: Date) => string> = {
+  hourly: (date) =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}`,
+  daily: (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`,
+  weekly: (date) => {
+    // Weeks start on Monday; key by that Monday's date
+    const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate() - ((date.getDay() + 6) % 7));
+    return `${monday.getFullYear()}-${pad(monday.getMonth() + 1)}-${pad(monday.getDate())}`;
+  },
+  monthly: (date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}`,
+};
+
+// Work out which rules keep each backup. Backups mapped to an empty list can be deleted.
+export function classifyBackups(
+  candidates: RetentionCandidate[],
+  policy: RetentionPolicy
+): Map<string, RetentionRule[]> {
+  const newestFirst = [...candidates].sort((a, b) => b.createdAt - a.createdAt);
+  const rules = new Map<string, RetentionRule[]>(newestFirst.map((backup) => [backup.path, []]));
+
+  if (newestFirst.length === 0) {
+    return rules;
+  }
+
+  // Always keep the most recent backup
+  rules.get(newestFirst[0].path)!.push('latest');
+
+  for (const rule of Object.keys(bucketKeys) as (keyof RetentionPolicy)[]) {
+    const limit = policy[rule];
+    const seenBuckets = new Set<string>();
+
+    for (const backup of newestFirst) {
+      if (seenBuckets.size >= limit) break;
+
+      const key = bucketKeys[rule](new Date(backup.createdAt));
+      if (!seenBuckets.has(key)) {
+        seenBuckets.add(key);
+        rules.get(backup.path)!.push(rule);
+      }
+    }
+  }
+
+  // Never prune the newest backup that passed verification
+  const lastKnownGood = newestFirst.find((backup) => backup.healthy);
+  if (lastKnownGood) {
+    rules.get(lastKnownGood.path)!.push('last-known-good');
+  }
+
+  return rules;
+}
@@ -0,0 +1,131 @@
+import { getDatabase } from './db';
+import { getCurrentUser } from './auth';
+import { toFtsQuery } from './items';
+
+// Search across items and categories for the command palette. Records the
+// signed-in user opened recently are listed first; with an empty query only
+// those are returned.
+
+export type SearchEntityType = 'item' | 'category';
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  label: string;
+  // Category of an item, or the number of items in a category
+  detail: string | null;
+  // When the signed-in user last opened the record (null if not recently)
+  opened_at: string | null;
+}
+
+const RESULT_LIMIT = 8;
+const RECENT_LIMIT = 20;
+
+type ResultRow = Omit<SearchResult, 'type'>;
+
+function toResults(type: SearchEntityType, rows: ResultRow[]): SearchResult[] {
+  return rows.map((row) => ({ type, ...row }));
+}
+
+type CategoryRow = Omit<ResultRow, 'detail'> & { item_count: number };
+
+function withItemCount({ item_count, ...row }: CategoryRow): ResultRow {
+  return { ...row, detail: item_count === 1 ? '1 item' : `${item_count} items` };
+}
+
+export function globalSearch(query: string): SearchResult[] {
+  const db = getDatabase();
+  const userId = getCurrentUser()?.id ?? null;
+  const search = query.trim();
+
+  if (!search) {
+    const recentItems = db.prepare(`
+      SELECT i.id, i.name as label, c.name as detail, r.opened_at
+      FROM recent_records r
+      JOIN items i ON i.id = r.entity_id AND i.deleted_at IS NULL
+      LEFT JOIN categories c ON i.category_id = c.id
+      WHERE r.user_id = ? AND r.entity_type = 'item'
+      ORDER BY r.opened_at DESC
+      LIMIT ?
+    `).all(userId, RESULT_LIMIT) as ResultRow[];
+
+    const recentCategories = db.prepare(`
+      SELECT c.id, c.name as label, r.opened_at,
+        (SELECT COUNT(*) FROM items WHERE category_id = c.id AND deleted_at IS NULL) as item_count
+      FROM recent_records r
+      JOIN categories c ON c.id = r.entity_id AND c.deleted_at IS NULL
+      WHERE r.user_id = ? AND r.entity_type = 'category'
+      ORDER BY r.opened_at DESC
+      LIMIT ?
+    `).all(userId, RESULT_LIMIT) as CategoryRow[];
+
+    // Most recently opened first, whatever the type
+    return [
+      ...toResults('item', recentItems),
+      ...toResults('category', recentCategories.map(withItemCount)),
+    ]
+      .sort((a, b) => (b.opened_at ?? '').localeCompare(a.opened_at ?? ''))
+      .slice(0, RESULT_LIMIT);
+  }
+
+  const ftsQuery = toFtsQuery(search);
+
+  const items = ftsQuery
+    ? (db.prepare(`
+        SELECT i.id, i.name as label, c.name as detail, r.opened_at
+        FROM items i
+        JOIN items_fts ON items_fts.rowid = i.search_id
+        LEFT JOIN categories c ON i.category_id = c.id
+        LEFT JOIN recent_records r
+          ON r.user_id = ? AND r.entity_type = 'item' AND r.entity_id = i.id
+        WHERE i.deleted_at IS NULL AND items_fts MATCH ?
+        ORDER BY r.opened_at IS NULL, r.opened_at DESC, bm25(items_fts, 10.0, 1.0)
+        LIMIT ?
+      `).all(userId, ftsQuery, RESULT_LIMIT) as ResultRow[])
+    : [];
+
+  // Few enough categories that a LIKE scan is fine
+  const categories = db.prepare(`
+    SELECT c.id, c.name as label, r.opened_at,
+      (SELECT COUNT(*) FROM items WHERE category_id = c.id AND deleted_at IS NULL) as item_count
+    FROM categories c
+    LEFT JOIN recent_records r
+      ON r.user_id = ? AND r.entity_type = 'category' AND r.entity_id = c.id
+    WHERE c.deleted_at IS NULL AND c.name LIKE ?
+    ORDER BY r.opened_at IS NULL, r.opened_at DESC, c.name COLLATE NOCASE
+    LIMIT ?
+  `).all(userId, `%${search}%`, RESULT_LIMIT) as CategoryRow[];
+
+  const results = [...toResults('item', items), ...toResults('category', categories.map(withItemCount))];
+
+  // Recent records first; the sort is stable, so each type keeps its ranking
+  return results.sort((a, b) => Number(b.opened_at !== null) - Number(a.opened_at !== null));
+}
+
+// Note that the signed-in user opened a record. Only the latest RECENT_LIMIT
+// are kept per user.
+export function recordRecentOpen(type: SearchEntityType, id: string): void {
+  const user = getCurrentUser();
+
+  if (!user || (type !== 'item' && type !== 'category')) {
+    return;
+  }
+
+  const db = getDatabase();
+
+  db.transaction(() => {
+    db.prepare(`
+      INSERT INTO recent_records (user_id, entity_type, entity_id)
+      VALUES (?, ?, ?)
+      ON CONFLICT (user_id, entity_type, entity_id)
+      DO UPDATE SET opened_at = strftime('%Y-%m-%d %H:%M:%f', 'now')
+    `).run(user.id, type, id);
+
+    db.prepare(`
+      DELETE FROM recent_records
+      WHERE user_id = ? AND rowid NOT IN (
+        SELECT rowid FROM recent_records WHERE user_id = ? ORDER BY opened_at DESC LIMIT ?
+      )
+    `).run(user.id, user.id, RECENT_LIMIT);
+  })();
+}
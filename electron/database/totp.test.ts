@@ -0,0 +1,153 @@
+import crypto from 'crypto';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDatabase } from './db';
+import { encryptSecret } from '../secrets';
+import { login, logout, verifySecondFactor, getCurrentUser, type AuthUser } from './auth';
+import {
+  isTotpEnabled,
+  verifyTotpCode,
+  beginTotpEnrollment,
+  confirmTotpEnrollment,
+  resetUnreadableTotpSecrets,
+} from './totp';
+import { resetDatabase, signInAsAdmin, TEST_USERNAME, TEST_PASSWORD } from '../test/database';
+
+// Secret from the RFC 4226 / RFC 6238 test vectors, "12345678901234567890" in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+// RFC 4226 appendix D: six-digit codes for counters (time steps) 0-9
+const RFC_CODES = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+function setStep(step: number): void {
+  vi.setSystemTime(step * 30 * 1000);
+}
+
+// Independent TOTP implementation, for codes from the secret shown at enrollment
+function codeFor(base32Secret: string, step: number): string {
+  const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+  const bits = [...base32Secret].map((char) => alphabet.indexOf(char).toString(2).padStart(5, '0')).join('');
+  const secret = Buffer.from(bits.match(/.{8}/g)!.map((byte) => parseInt(byte, 2)));
+
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  return String((hmac.readUInt32BE(offset) & 0x7fffffff) % 1_000_000).padStart(6, '0');
+}
+
+describe('TOTP', () => {
+  let user: AuthUser;
+
+  beforeAll(async () => {
+    await resetDatabase();
+    user = await signInAsAdmin();
+  });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    getDatabase()
+      .prepare('UPDATE auth_user SET totp_secret = ?, totp_last_step = NULL WHERE id = ?')
+      .run(encryptSecret(RFC_SECRET), user.id);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('accepts the RFC 6238 test vectors', () => {
+    // RFC 6238 appendix B, last six digits of the SHA-1 codes
+    const vectors: [number, string][] = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ];
+
+    for (const [seconds, code] of vectors) {
+      vi.setSystemTime(seconds * 1000);
+      expect(verifyTotpCode(user.id, code)).toBe(true);
+    }
+  });
+
+  it('allows one step of clock drift either way, and no more', () => {
+    setStep(5);
+
+    expect(verifyTotpCode(user.id, RFC_CODES[3])).toBe(false);
+    expect(verifyTotpCode(user.id, RFC_CODES[7])).toBe(false);
+    expect(verifyTotpCode(user.id, RFC_CODES[4])).toBe(true);
+    expect(verifyTotpCode(user.id, RFC_CODES[6])).toBe(true);
+  });
+
+  it('accepts each time step only once', () => {
+    setStep(5);
+
+    expect(verifyTotpCode(user.id, RFC_CODES[5])).toBe(true);
+    expect(verifyTotpCode(user.id, RFC_CODES[5])).toBe(false);
+    // An earlier step is refused once a later one has been used
+    expect(verifyTotpCode(user.id, RFC_CODES[4])).toBe(false);
+    expect(verifyTotpCode(user.id, RFC_CODES[6])).toBe(true);
+  });
+
+  it('ignores spaces but rejects codes of the wrong shape', () => {
+    setStep(1);
+
+    expect(verifyTotpCode(user.id, '28708')).toBe(false);
+    expect(verifyTotpCode(user.id, '2870820')).toBe(false);
+    expect(verifyTotpCode(user.id, '28708a')).toBe(false);
+    expect(verifyTotpCode(user.id, '287 082')).toBe(true);
+  });
+
+  it('rejects every code for a user without two-factor', () => {
+    getDatabase().prepare('UPDATE auth_user SET totp_secret = NULL WHERE id = ?').run(user.id);
+    setStep(1);
+
+    expect(isTotpEnabled(user.id)).toBe(false);
+    expect(verifyTotpCode(user.id, RFC_CODES[1])).toBe(false);
+  });
+
+  it('turns two-factor on only after a code from the new secret', async () => {
+    getDatabase().prepare('UPDATE auth_user SET totp_secret = NULL WHERE id = ?').run(user.id);
+    setStep(1000);
+
+    const { enrollment } = await beginTotpEnrollment();
+    expect(enrollment?.qrCode).toMatch(/^data:image\/png;base64,/);
+
+    const wrongCode = codeFor(enrollment!.secret, 900);
+    expect(confirmTotpEnrollment(wrongCode).success).toBe(false);
+    expect(isTotpEnabled(user.id)).toBe(false);
+
+    const code = codeFor(enrollment!.secret, 1000);
+    expect(confirmTotpEnrollment(code).success).toBe(true);
+    expect(isTotpEnabled(user.id)).toBe(true);
+    // The code that confirmed enrollment cannot be used again to sign in
+    expect(verifyTotpCode(user.id, code)).toBe(false);
+    expect(verifyTotpCode(user.id, codeFor(enrollment!.secret, 1001))).toBe(true);
+  });
+
+  it('asks for a code after the password, and counts wrong codes as failed logins', async () => {
+    logout();
+    setStep(1);
+
+    const first = await login({ username: TEST_USERNAME, password: TEST_PASSWORD });
+    expect(first).toMatchObject({ success: false, requiresSecondFactor: true });
+    expect(getCurrentUser()).toBeNull();
+
+    const wrong = verifySecondFactor('123456');
+    expect(wrong).toMatchObject({ success: false, requiresSecondFactor: true });
+    expect(wrong.retryAt).toBeGreaterThan(Date.now());
+
+    vi.setSystemTime(wrong.retryAt!);
+    expect(verifySecondFactor(RFC_CODES[2]).success).toBe(true);
+    expect(getCurrentUser()?.id).toBe(user.id);
+  });
+
+  it('turns two-factor off for seeds that can no longer be decrypted', () => {
+    getDatabase()
+      .prepare('UPDATE auth_user SET totp_secret = ? WHERE id = ?')
+      .run(crypto.randomBytes(48).toString('base64'), user.id);
+
+    expect(resetUnreadableTotpSecrets()).toEqual([TEST_USERNAME]);
+    expect(isTotpEnabled(user.id)).toBe(false);
+  });
+});
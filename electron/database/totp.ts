@@ -0,0 +1,266 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import QRCode from 'qrcode';
+import { getDatabase } from './db';
+import { getCurrentUser } from './auth';
+import { AppConfig } from '../../app.config';
+import { encryptSecret, decryptSecret } from '../secrets';
+import { logAudit, SYSTEM_ACTOR } from './audit';
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept one step either side for clock drift
+const DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export interface TotpStatus {
+  enabled: boolean;
+}
+
+export interface TotpEnrollment {
+  // Base32 secret for typing in by hand
+  secret: string;
+  // QR code of the otpauth:// URL as a data: URL
+  qrCode: string;
+}
+
+// Secret waiting for its first code; nothing is stored until enrollment is confirmed
+let pendingEnrollment: { userId: number; secret: Buffer } | null = null;
+
+function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+function base32Decode(text: string): Buffer {
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of text.toUpperCase().replace(/=+$/, '')) {
+    value = (value << 5) | BASE32_ALPHABET.indexOf(char);
+    bits += 5;
+
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// HOTP (RFC 4226) for one time step
+function generateCode(secret: Buffer, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0');
+}
+
+// Find the time step a code belongs to, or null if it matches none in the drift window
+function matchStep(secret: Buffer, code: string): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) {
+    return null;
+  }
+
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    const expected = generateCode(secret, step);
+    if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+export function isTotpEnabled(userId: number): boolean {
+  const db = getDatabase();
+  const row = db.prepare('SELECT totp_secret FROM auth_user WHERE id = ?').get(userId) as
+    | { totp_secret: string | null }
+    | undefined;
+
+  return !!row?.totp_secret;
+}
+
+// Check a login code. Each time step is accepted once, so an observed code cannot be replayed.
+export function verifyTotpCode(userId: number, code: string): boolean {
+  const db = getDatabase();
+  const row = db.prepare('SELECT totp_secret, totp_last_step FROM auth_user WHERE id = ?').get(userId) as
+    | { totp_secret: string | null; totp_last_step: number | null }
+    | undefined;
+
+  if (!row?.totp_secret) {
+    return false;
+  }
+
+  let secret: Buffer;
+  try {
+    secret = base32Decode(decryptSecret(row.totp_secret));
+  } catch (error) {
+    console.error('Failed to decrypt TOTP secret:', error);
+    return false;
+  }
+
+  const step = matchStep(secret, code);
+  if (step === null || (row.totp_last_step !== null && step <= row.totp_last_step)) {
+    return false;
+  }
+
+  db.prepare('UPDATE auth_user SET totp_last_step = ? WHERE id = ?').run(step, userId);
+  return true;
+}
+
+export function getTotpStatus(): TotpStatus {
+  const user = getCurrentUser();
+  return { enabled: !!user && isTotpEnabled(user.id) };
+}
+
+// Start enrollment: a new secret and its QR code, generated locally
+export async function beginTotpEnrollment(): Promise<{
+  success: boolean;
+  message: string;
+  enrollment?: TotpEnrollment;
+}> {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const secret = crypto.randomBytes(SECRET_BYTES);
+    const encodedSecret = base32Encode(secret);
+    const label = encodeURIComponent(`${AppConfig.name}:${user.username}`);
+    const params = new URLSearchParams({
+      secret: encodedSecret,
+      issuer: AppConfig.name,
+      algorithm: 'SHA1',
+      digits: String(DIGITS),
+      period: String(STEP_SECONDS),
+    });
+
+    const qrCode = await QRCode.toDataURL(`otpauth://totp/${label}?${params.toString()}`);
+    pendingEnrollment = { userId: user.id, secret };
+
+    return { success: true, message: 'Scan the QR code', enrollment: { secret: encodedSecret, qrCode } };
+  } catch (error) {
+    console.error('Begin TOTP enrollment error:', error);
+    return { success: false, message: 'Failed to start two-factor setup' };
+  }
+}
+
+// Finish enrollment once the authenticator app produces a matching code
+export function confirmTotpEnrollment(code: string): { success: boolean; message: string } {
+  try {
+    const user = getCurrentUser();
+
+    if (!user || !pendingEnrollment || pendingEnrollment.userId !== user.id) {
+      return { success: false, message: 'Two-factor setup has not been started' };
+    }
+
+    const step = matchStep(pendingEnrollment.secret, code || '');
+    if (step === null) {
+      return { success: false, message: 'Code is incorrect. Check the time on this computer and your phone.' };
+    }
+
+    const db = getDatabase();
+    db.prepare('UPDATE auth_user SET totp_secret = ?, totp_last_step = ? WHERE id = ?').run(
+      encryptSecret(base32Encode(pendingEnrollment.secret)),
+      step,
+      user.id
+    );
+    pendingEnrollment = null;
+    logAudit({ action: 'auth.totp_enable', entityType: 'user', entityId: user.id, entityLabel: user.username });
+
+    return { success: true, message: 'Two-factor authentication turned on' };
+  } catch (error) {
+    console.error('Confirm TOTP enrollment error:', error);
+    return { success: false, message: 'Failed to turn on two-factor authentication' };
+  }
+}
+
+export async function disableTotp(currentPassword: string): Promise<{ success: boolean; message: string }> {
+  try {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return { success: false, message: 'You are not signed in' };
+    }
+
+    const db = getDatabase();
+    const row = db.prepare('SELECT password_hash FROM auth_user WHERE id = ?').get(user.id) as {
+      password_hash: string;
+    };
+
+    if (!(await bcrypt.compare(currentPassword, row.password_hash))) {
+      return { success: false, message: 'Current password is incorrect' };
+    }
+
+    db.prepare('UPDATE auth_user SET totp_secret = NULL, totp_last_step = NULL WHERE id = ?').run(user.id);
+    logAudit({ action: 'auth.totp_disable', entityType: 'user', entityId: user.id, entityLabel: user.username });
+
+    return { success: true, message: 'Two-factor authentication turned off' };
+  } catch (error) {
+    console.error('Disable TOTP error:', error);
+    return { success: false, message: 'Failed to turn off two-factor authentication' };
+  }
+}
+
+// TOTP seeds are encrypted with the key in userData, which backups do not carry. A
+// database restored from another installation (or after the key file was lost) has
+// seeds nobody can read, and those users could never pass the second step. Turn
+// two-factor off for them so they can sign in and enroll again; returns their usernames.
+export function resetUnreadableTotpSecrets(): string[] {
+  const db = getDatabase();
+  const rows = db.prepare('SELECT id, username, totp_secret FROM auth_user WHERE totp_secret IS NOT NULL').all() as {
+    id: number;
+    username: string;
+    totp_secret: string;
+  }[];
+  const reset: string[] = [];
+
+  for (const row of rows) {
+    try {
+      decryptSecret(row.totp_secret);
+    } catch {
+      db.prepare('UPDATE auth_user SET totp_secret = NULL, totp_last_step = NULL WHERE id = ?').run(row.id);
+      logAudit({
+        action: 'auth.totp_reset',
+        entityType: 'user',
+        entityId: row.id,
+        entityLabel: row.username,
+        actor: SYSTEM_ACTOR,
+      });
+      reset.push(row.username);
+    }
+  }
+
+  return reset;
+}
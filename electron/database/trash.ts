@@ -0,0 +1,226 @@
+import { getDatabase } from './db';
+import { AppConfig } from '../../app.config';
+import { logAudit, diffRecords, SYSTEM_ACTOR, type AuditActor } from './audit';
+import type { Item, Category } from './items';
+
+// Deleted items and categories stay here until they are restored, removed by
+// hand, or purged after AppConfig.trash.retentionDays.
+
+export interface TrashContents {
+  items: Item[];
+  categories: Category[];
+  // Days before entries are purged (0 = never)
+  retentionDays: number;
+}
+
+const RETENTION_DAYS = AppConfig.trash.retentionDays;
+
+type Result = { success: boolean; message: string };
+
+export function getTrash(): TrashContents {
+  const db = getDatabase();
+
+  const items = db.prepare(`
+    SELECT i.*, c.name as category_name
+    FROM items i
+    LEFT JOIN categories c ON i.category_id = c.id
+    WHERE i.deleted_at IS NOT NULL
+    ORDER BY i.deleted_at DESC
+  `).all() as Item[];
+
+  const categories = db
+    .prepare('SELECT * FROM categories WHERE deleted_at IS NOT NULL ORDER BY deleted_at DESC')
+    .all() as Category[];
+
+  return { items, categories, retentionDays: RETENTION_DAYS };
+}
+
+// ============================================
+// RESTORE
+// ============================================
+
+export function restoreItem(id: string): Result {
+  try {
+    const db = getDatabase();
+    const item = db.prepare('SELECT * FROM items WHERE id = ? AND deleted_at IS NOT NULL').get(id) as
+      | Item
+      | undefined;
+
+    if (!item) {
+      return { success: false, message: 'Item not found in trash' };
+    }
+
+    // An item cannot come back into a category that is still in the trash
+    const category = item.category_id
+      ? (db.prepare('SELECT * FROM categories WHERE id = ? AND deleted_at IS NOT NULL').get(
+          item.category_id
+        ) as Category | undefined)
+      : undefined;
+
+    db.transaction(() => {
+      db.prepare('UPDATE items SET deleted_at = NULL WHERE id = ?').run(id);
+
+      if (category) {
+        db.prepare('UPDATE categories SET deleted_at = NULL WHERE id = ?').run(category.id);
+      }
+    })();
+
+    logAudit({ action: 'item.restore', entityType: 'item', entityId: id, entityLabel: item.name });
+    if (category) {
+      logAudit({
+        action: 'category.restore',
+        entityType: 'category',
+        entityId: category.id,
+        entityLabel: category.name,
+      });
+    }
+
+    return {
+      success: true,
+      message: category ? `Item restored along with category "${category.name}"` : 'Item restored',
+    };
+  } catch (error) {
+    console.error('Error restoring item:', error);
+    return { success: false, message: 'Failed to restore item' };
+  }
+}
+
+export function restoreCategory(id: string): Result {
+  try {
+    const db = getDatabase();
+    const category = db.prepare('SELECT * FROM categories WHERE id = ? AND deleted_at IS NOT NULL').get(id) as
+      | Category
+      | undefined;
+
+    if (!category) {
+      return { success: false, message: 'Category not found in trash' };
+    }
+
+    db.prepare('UPDATE categories SET deleted_at = NULL WHERE id = ?').run(id);
+    logAudit({ action: 'category.restore', entityType: 'category', entityId: id, entityLabel: category.name });
+
+    return { success: true, message: 'Category restored' };
+  } catch (error) {
+    console.error('Error restoring category:', error);
+    return { success: false, message: 'Failed to restore category' };
+  }
+}
+
+// ============================================
+// PERMANENT DELETE
+// ============================================
+
+function removeItems(items: Item[], actor?: AuditActor): void {
+  const db = getDatabase();
+  const remove = db.prepare('DELETE FROM items WHERE id = ? AND deleted_at IS NOT NULL');
+
+  db.transaction(() => {
+    for (const item of items) {
+      remove.run(item.id);
+    }
+  })();
+
+  for (const item of items) {
+    logAudit({
+      action: 'item.purge',
+      entityType: 'item',
+      entityId: item.id,
+      entityLabel: item.name,
+      changes: diffRecords(item, null),
+      actor,
+    });
+  }
+}
+
+// Items still in the trash that use a removed category lose the category (ON DELETE SET NULL)
+function removeCategories(categories: Category[], actor?: AuditActor): void {
+  const db = getDatabase();
+  const remove = db.prepare('DELETE FROM categories WHERE id = ? AND deleted_at IS NOT NULL');
+
+  db.transaction(() => {
+    for (const category of categories) {
+      remove.run(category.id);
+    }
+  })();
+
+  for (const category of categories) {
+    logAudit({
+      action: 'category.purge',
+      entityType: 'category',
+      entityId: category.id,
+      entityLabel: category.name,
+      changes: diffRecords({ name: category.name }, null),
+      actor,
+    });
+  }
+}
+
+export function purgeItem(id: string): Result {
+  try {
+    const item = getTrash().items.find((trashed) => trashed.id === id);
+
+    if (!item) {
+      return { success: false, message: 'Item not found in trash' };
+    }
+
+    removeItems([item]);
+    return { success: true, message: 'Item permanently deleted' };
+  } catch (error) {
+    console.error('Error purging item:', error);
+    return { success: false, message: 'Failed to delete item' };
+  }
+}
+
+export function purgeCategory(id: string): Result {
+  try {
+    const category = getTrash().categories.find((trashed) => trashed.id === id);
+
+    if (!category) {
+      return { success: false, message: 'Category not found in trash' };
+    }
+
+    removeCategories([category]);
+    return { success: true, message: 'Category permanently deleted' };
+  } catch (error) {
+    console.error('Error purging category:', error);
+    return { success: false, message: 'Failed to delete category' };
+  }
+}
+
+export function emptyTrash(): Result {
+  try {
+    const { items, categories } = getTrash();
+    removeItems(items);
+    removeCategories(categories);
+
+    return { success: true, message: `Permanently deleted ${items.length + categories.length} records` };
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    return { success: false, message: 'Failed to empty trash' };
+  }
+}
+
+// Remove anything that has been in the trash longer than the retention period.
+// Runs at startup and hourly.
+export function purgeExpiredTrash(): void {
+  if (RETENTION_DAYS <= 0) {
+    return;
+  }
+
+  try {
+    const db = getDatabase();
+    const cutoff = `-${RETENTION_DAYS} days`;
+
+    const items = db
+      .prepare("SELECT * FROM items WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)")
+      .all(cutoff) as Item[];
+    const categories = db
+      .prepare("SELECT * FROM categories WHERE deleted_at IS NOT NULL AND deleted_at < datetime('now', ?)")
+      .all(cutoff) as Category[];
+
+    removeItems(items, SYSTEM_ACTOR);
+    removeCategories(categories, SYSTEM_ACTOR);
+  } catch (error) {
+    console.error('Trash purge failed:', error);
+  }
+}
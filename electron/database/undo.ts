@@ -0,0 +1,180 @@
+import { getCurrentUser } from './auth';
+import { updateItem, deleteItem, type UpdateItemData } from './items';
+import { restoreItem } from './trash';
+import { applyItemValues, deleteItems, restoreDeletedItems, type ItemValues } from './bulk';
+
+// App-wide undo/redo for item changes. Each change records how to reverse it,
+// worked out from the database at the time, so undo does not depend on what the
+// renderer has cached. The stacks belong to the signed-in user and are cleared on
+// sign-out (which also covers restoring a backup).
+
+// ============================================
+// TYPES
+// ============================================
+
+export type UndoOperation =
+  | { type: 'updateItem'; data: UpdateItemData }
+  | { type: 'deleteItem'; id: string }
+  | { type: 'restoreItem'; id: string }
+  | { type: 'setItemValues'; values: ItemValues[] }
+  | { type: 'deleteItems'; ids: string[] }
+  | { type: 'restoreItems'; ids: string[] };
+
+interface UndoEntry {
+  id: number;
+  // Shown in toasts, e.g. 'Edit "Hammer"'
+  label: string;
+  undo: UndoOperation;
+  redo: UndoOperation;
+}
+
+export interface UndoStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+export interface UndoResult {
+  success: boolean;
+  message: string;
+  status: UndoStatus;
+}
+
+const MAX_ENTRIES = 50;
+
+let undoStack: UndoEntry[] = [];
+let redoStack: UndoEntry[] = [];
+let stackOwnerId: number | null = null;
+let nextEntryId = 1;
+// Set while an undo or redo runs, so the changes it makes are not recorded again
+let isReplaying = false;
+
+// ============================================
+// RECORDING
+// ============================================
+
+// Drop the stacks if someone else is signed in now
+function ensureOwner(): boolean {
+  const user = getCurrentUser();
+
+  if (!user) {
+    return false;
+  }
+
+  if (user.id !== stackOwnerId) {
+    clearUndoHistory();
+    stackOwnerId = user.id;
+  }
+
+  return true;
+}
+
+// Record a change that just succeeded. Returns the entry id, which the renderer
+// passes back to undo exactly this change.
+export function recordUndo(label: string, undo: UndoOperation, redo: UndoOperation): number | undefined {
+  if (isReplaying || !ensureOwner()) {
+    return undefined;
+  }
+
+  const entry: UndoEntry = { id: nextEntryId++, label, undo, redo };
+  undoStack.push(entry);
+  if (undoStack.length > MAX_ENTRIES) {
+    undoStack.shift();
+  }
+  redoStack = [];
+
+  return entry.id;
+}
+
+export function clearUndoHistory(): void {
+  undoStack = [];
+  redoStack = [];
+  stackOwnerId = null;
+}
+
+// ============================================
+// UNDO / REDO
+// ============================================
+
+function applyOperation(operation: UndoOperation): { success: boolean; message: string } {
+  isReplaying = true;
+
+  try {
+    switch (operation.type) {
+      case 'updateItem':
+        return updateItem(operation.data);
+      case 'deleteItem':
+        return deleteItem(operation.id);
+      case 'restoreItem':
+        return restoreItem(operation.id);
+      case 'setItemValues':
+        return applyItemValues(operation.values);
+      case 'deleteItems':
+        return deleteItems(operation.ids);
+      case 'restoreItems':
+        return restoreDeletedItems(operation.ids);
+    }
+  } finally {
+    isReplaying = false;
+  }
+}
+
+export function getUndoStatus(): UndoStatus {
+  ensureOwner();
+
+  const nextUndo = undoStack[undoStack.length - 1];
+  const nextRedo = redoStack[redoStack.length - 1];
+
+  return {
+    canUndo: !!nextUndo,
+    canRedo: !!nextRedo,
+    undoLabel: nextUndo?.label ?? null,
+    redoLabel: nextRedo?.label ?? null,
+  };
+}
+
+// Undo the most recent change. With `entryId`, only if that change is still the most recent.
+export function undo(entryId?: number): UndoResult {
+  if (!ensureOwner() || undoStack.length === 0) {
+    return { success: false, message: 'Nothing to undo', status: getUndoStatus() };
+  }
+
+  const entry = undoStack[undoStack.length - 1];
+
+  if (entryId !== undefined && entry.id !== entryId) {
+    return {
+      success: false,
+      message: 'Only the most recent change can be undone',
+      status: getUndoStatus(),
+    };
+  }
+
+  undoStack.pop();
+  const result = applyOperation(entry.undo);
+
+  // The record changed in a way that cannot be reversed (e.g. purged from the
+  // trash), so the entry is dropped either way
+  if (!result.success) {
+    return { success: false, message: `Cannot undo: ${result.message}`, status: getUndoStatus() };
+  }
+
+  redoStack.push(entry);
+  return { success: true, message: `Undid: ${entry.label}`, status: getUndoStatus() };
+}
+
+export function redo(): UndoResult {
+  if (!ensureOwner() || redoStack.length === 0) {
+    return { success: false, message: 'Nothing to redo', status: getUndoStatus() };
+  }
+
+  const entry = redoStack.pop()!;
+  const result = applyOperation(entry.redo);
+
+  if (!result.success) {
+    return { success: false, message: `Cannot redo: ${result.message}`, status: getUndoStatus() };
+  }
+
+  undoStack.push(entry);
+  return { success: true, message: `Redid: ${entry.label}`, status: getUndoStatus() };
+}
@@ -0,0 +1,300 @@
+import bcrypt from 'bcryptjs';
+import { getDatabase } from './db';
+import { SALT_ROUNDS, getCurrentUser, type AuthUser, type UserRole } from './auth';
+import { validateNewPassword, recordPasswordHistory } from './passwordPolicy';
+import { getLockoutEvents, unlockUsername, type LockoutEvent } from './lockout';
+import { logAudit, diffRecords } from './audit';
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface UserAccount extends AuthUser {
+  disabled: boolean;
+}
+
+export interface CreateUserData {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserData {
+  id: number;
+  username?: string;
+  role?: UserRole;
+}
+
+const ROLES: UserRole[] = ['admin', 'editor', 'viewer'];
+
+// ============================================
+// HELPERS
+// ============================================
+
+// User management is limited to admins
+function requireAdmin(): AuthUser | null {
+  const user = getCurrentUser();
+  return user && user.role === 'admin' ? user : null;
+}
+
+// Count admins that can still sign in, optionally ignoring one user
+function countActiveAdmins(excludeId?: number): number {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT COUNT(*) as count FROM auth_user
+    WHERE role = 'admin' AND disabled = 0 AND id != ?
+  `).get(excludeId ?? -1) as { count: number };
+  return row.count;
+}
+
+function getUserAccount(id: number): UserAccount | null {
+  const db = getDatabase();
+  const row = db.prepare(`
+    SELECT id, username, role, disabled, created_at, last_login
+    FROM auth_user WHERE id = ?
+  `).get(id) as (AuthUser & { disabled: number }) | undefined;
+
+  return row ? { ...row, disabled: !!row.disabled } : null;
+}
+
+// ============================================
+// USER HANDLERS
+// ============================================
+
+export function listUsers(): UserAccount[] {
+  if (!requireAdmin()) {
+    return [];
+  }
+
+  const db = getDatabase();
+  const rows = db.prepare(`
+    SELECT id, username, role, disabled, created_at, last_login
+    FROM auth_user ORDER BY username
+  `).all() as (AuthUser & { disabled: number })[];
+
+  return rows.map((row) => ({ ...row, disabled: !!row.disabled }));
+}
+
+export async function createUser(
+  data: CreateUserData
+): Promise<{ success: boolean; message: string; user?: UserAccount }> {
+  try {
+    if (!requireAdmin()) {
+      return { success: false, message: 'Only administrators can manage users' };
+    }
+
+    const db = getDatabase();
+    const username = (data.username || '').toLowerCase().trim();
+
+    if (username.length < 3) {
+      return { success: false, message: 'Username must be at least 3 characters' };
+    }
+
+    const passwordError = await validateNewPassword(data.password);
+    if (passwordError) {
+      return { success: false, message: passwordError };
+    }
+
+    if (!ROLES.includes(data.role)) {
+      return { success: false, message: 'Invalid role' };
+    }
+
+    const existing = db.prepare('SELECT id FROM auth_user WHERE username = ?').get(username);
+    if (existing) {
+      return { success: false, message: 'A user with this name already exists' };
+    }
+
+    const passwordHash = await bcrypt.hash(data.password, SALT_ROUNDS);
+
+    const result = db.prepare(`
+      INSERT INTO auth_user (username, password_hash, role, created_at)
+      VALUES (?, ?, ?, datetime('now'))
+    `).run(username, passwordHash, data.role);
+    recordPasswordHistory(Number(result.lastInsertRowid), passwordHash);
+
+    const user = getUserAccount(Number(result.lastInsertRowid));
+    logAudit({
+      action: 'user.create',
+      entityType: 'user',
+      entityId: user?.id,
+      entityLabel: username,
+      changes: { username: { from: null, to: username }, role: { from: null, to: data.role } },
+    });
+
+    return { success: true, message: 'User created successfully', user: user || undefined };
+  } catch (error) {
+    console.error('Error creating user:', error);
+    return {
+      success: false,
+      message: `Failed to create user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+export function updateUser(data: UpdateUserData): { success: boolean; message: string; user?: UserAccount } {
+  try {
+    if (!requireAdmin()) {
+      return { success: false, message: 'Only administrators can manage users' };
+    }
+
+    const db = getDatabase();
+    const existing = getUserAccount(data.id);
+
+    if (!existing) {
+      return { success: false, message: 'User not found' };
+    }
+
+    const username = data.username !== undefined ? data.username.toLowerCase().trim() : existing.username;
+    const role = data.role ?? existing.role;
+
+    if (username.length < 3) {
+      return { success: false, message: 'Username must be at least 3 characters' };
+    }
+
+    if (!ROLES.includes(role)) {
+      return { success: false, message: 'Invalid role' };
+    }
+
+    const duplicate = db.prepare('SELECT id FROM auth_user WHERE username = ? AND id != ?').get(username, data.id);
+    if (duplicate) {
+      return { success: false, message: 'A user with this name already exists' };
+    }
+
+    // Keep at least one admin who can sign in
+    if (existing.role === 'admin' && role !== 'admin' && !existing.disabled && countActiveAdmins(data.id) === 0) {
+      return { success: false, message: 'At least one active administrator is required' };
+    }
+
+    db.prepare('UPDATE auth_user SET username = ?, role = ? WHERE id = ?').run(username, role, data.id);
+    logAudit({
+      action: 'user.update',
+      entityType: 'user',
+      entityId: data.id,
+      entityLabel: username,
+      changes: diffRecords({ username: existing.username, role: existing.role }, { username, role }),
+    });
+
+    return { success: true, message: 'User updated successfully', user: getUserAccount(data.id) || undefined };
+  } catch (error) {
+    console.error('Error updating user:', error);
+    return {
+      success: false,
+      message: `Failed to update user: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// Disable (or re-enable) an account. Disabled users cannot sign in and lose their sessions.
+export function setUserDisabled(id: number, disabled: boolean): { success: boolean; message: string } {
+  try {
+    const admin = requireAdmin();
+
+    if (!admin) {
+      return { success: false, message: 'Only administrators can manage users' };
+    }
+
+    const user = getUserAccount(id);
+
+    if (!user) {
+      return { success: false, message: 'User not found' };
+    }
+
+    if (disabled && id === admin.id) {
+      return { success: false, message: 'You cannot disable your own account' };
+    }
+
+    if (disabled && user.role === 'admin' && countActiveAdmins(id) === 0) {
+      return { success: false, message: 'At least one active administrator is required' };
+    }
+
+    const db = getDatabase();
+
+    db.transaction(() => {
+      db.prepare('UPDATE auth_user SET disabled = ? WHERE id = ?').run(disabled ? 1 : 0, id);
+
+      if (disabled) {
+        db.prepare('DELETE FROM auth_sessions WHERE user_id = ?').run(id);
+      }
+    })();
+    logAudit({
+      action: disabled ? 'user.disable' : 'user.enable',
+      entityType: 'user',
+      entityId: id,
+      entityLabel: user.username,
+    });
+
+    return { success: true, message: disabled ? 'User disabled' : 'User enabled' };
+  } catch (error) {
+    console.error('Error disabling user:', error);
+    return { success: false, message: 'Failed to update user' };
+  }
+}
+
+// Set a new password for another user and sign them out everywhere
+export async function resetPassword(id: number, newPassword: string): Promise<{ success: boolean; message: string }> {
+  try {
+    if (!requireAdmin()) {
+      return { success: false, message: 'Only administrators can manage users' };
+    }
+
+    const user = getUserAccount(id);
+
+    if (!user) {
+      return { success: false, message: 'User not found' };
+    }
+
+    const passwordError = await validateNewPassword(newPassword, id);
+    if (passwordError) {
+      return { success: false, message: passwordError };
+    }
+
+    const db = getDatabase();
+    const passwordHash = await bcrypt.hash(newPassword, SALT_ROUNDS);
+
+    db.transaction(() => {
+      // The old PIN and two-factor secret go too, in case the account was compromised
+      // or the user lost their authenticator
+      db.prepare(`
+        UPDATE auth_user SET password_hash = ?, pin_hash = NULL, totp_secret = NULL, totp_last_step = NULL
+        WHERE id = ?
+      `).run(passwordHash, id);
+      recordPasswordHistory(id, passwordHash);
+      db.prepare('DELETE FROM auth_sessions WHERE user_id = ?').run(id);
+    })();
+    logAudit({ action: 'user.reset_password', entityType: 'user', entityId: id, entityLabel: user.username });
+
+    return { success: true, message: 'Password reset successfully' };
+  } catch (error) {
+    console.error('Error resetting password:', error);
+    return {
+      success: false,
+      message: `Failed to reset password: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    };
+  }
+}
+
+// Recent login lockouts for review
+export function listLockoutEvents(): LockoutEvent[] {
+  if (!requireAdmin()) {
+    return [];
+  }
+
+  return getLockoutEvents();
+}
+
+// Clear an active lockout so the user can try again straight away
+export function unlockUser(username: string): { success: boolean; message: string } {
+  const admin = requireAdmin();
+
+  if (!admin) {
+    return { success: false, message: 'Only administrators can manage users' };
+  }
+
+  const result = unlockUsername(username, admin.username);
+
+  if (result.success) {
+    logAudit({ action: 'user.unlock', entityType: 'user', entityLabel: username });
+  }
+
+  return result;
+}
@@ -0,0 +1,42 @@
+import type { IpcMainInvokeEvent } from 'electron';
+import { getCurrentUser, isSessionLocked, touchCurrentSession } from './database/auth';
+import { hasPermission } from './permissions';
+import type { Permission, AuthErrorCode, IpcAuthError } from './types';
+
+const AUTH_ERROR_MESSAGES: Record<AuthErrorCode, string> = {
+  UNAUTHORIZED: 'You are not signed in',
+  FORBIDDEN: 'You do not have permission to do this',
+  LOCKED: 'The app is locked',
+};
+
+function authError(code: AuthErrorCode): IpcAuthError {
+  return { authError: code, message: AUTH_ERROR_MESSAGES[code] };
+}
+
+// Wrap an ipcMain.handle handler so it only runs for a signed-in, unlocked user
+// holding the permission. Denied calls resolve to an IpcAuthError instead of throwing,
+// so the preload can tell them apart from ordinary failures.
+export function guard<Args extends unknown[], Result>(
+  permission: Permission,
+  handler: (event: IpcMainInvokeEvent, ...args: Args) => Result
+): (event: IpcMainInvokeEvent, ...args: Args) => Result | IpcAuthError {
+  return (event, ...args) => {
+    const user = getCurrentUser();
+
+    if (!user) {
+      return authError('UNAUTHORIZED');
+    }
+
+    if (isSessionLocked()) {
+      return authError('LOCKED');
+    }
+
+    if (!hasPermission(user.role, permission)) {
+      console.warn(`Denied ${permission} to ${user.username} (${user.role})`);
+      return authError('FORBIDDEN');
+    }
+
+    touchCurrentSession();
+    return handler(event, ...args);
+  };
+}
@@ -1,6 +1,7 @@
-import { app, BrowserWindow, ipcMain } from 'electron';
+import { app, BrowserWindow, ipcMain, dialog } from 'electron';
 import path from 'path';
 import { AppConfig } from '../app.config';
+import { guard } from './guard';
 
 // Database imports
 import { initDatabase } from './database/migrations';
@@ -8,7 +9,16 @@ import { closeDatabase } from './database/db';
 
 // Handler imports
 import * as authHandlers from './database/auth';
+import * as userHandlers from './database/users';
+import * as recoveryHandlers from './database/recovery';
+import * as totpHandlers from './database/totp';
+import { checkPassword } from './database/passwordPolicy';
 import * as itemHandlers from './database/items';
+import * as trashHandlers from './database/trash';
+import * as undoHandlers from './database/undo';
+import { bulkUpdateItems, bulkDeleteItems, exportItemsCsv } from './database/bulk';
+import { pickImportFile, importItems } from './database/import';
+import { globalSearch, recordRecentOpen } from './database/search';
 import {
   createBackup,
   createManualBackup,
@@ -17,16 +27,33 @@ import {
   stopPeriodicBackup,
   createBackupOnClose,
   getBackupInfo,
+  listBackups,
+  restoreBackup,
+  revertRestore,
 } from './database/backup';
+import { addDestination, removeDestination, updateDestinationRetention } from './database/destinations';
+import { logAudit, getAuditLog, getAuditActions, exportAuditCsv } from './database/audit';
 
 // Types
 import type {
   SetupData,
   LoginData,
   ChangePasswordData,
+  RecoverAccountData,
+  UnlockData,
+  SetPinData,
+  CreateUserData,
+  UpdateUserData,
   ItemFilters,
   CreateItemData,
   UpdateItemData,
+  ItemSelection,
+  BulkUpdateData,
+  ImportRequest,
+  SearchEntityType,
+  ManualBackupOptions,
+  RetentionPolicy,
+  AuditFilters,
 } from './types';
 
 // The built directory structure
@@ -44,6 +71,12 @@ process.env.VITE_PUBLIC = app.isPackaged ? process.env.DIST : path.join(process.
 
 let win: BrowserWindow | null;
 
+// Set once the database has opened and migrated successfully
+let isDatabaseReady = false;
+
+// Shutdown progress: the close backup must finish before the database closes
+let shutdownState: 'running' | 'closing' | 'done' = 'running';
+
 // Vite dev server URL
 const VITE_DEV_SERVER_URL = process.env['VITE_DEV_SERVER_URL'];
 
@@ -72,11 +105,6 @@ function createWindow() {
   } else {
     win.loadFile(path.join(process.env.DIST!, 'index.html'));
   }
-
-  // Handle window close
-  win.on('close', () => {
-    createBackupOnClose();
-  });
 }
 
 // ============================================
@@ -95,6 +123,10 @@ ipcMain.handle('auth:login', async (_, data: LoginData) => {
   return authHandlers.login(data);
 });
 
+ipcMain.handle('auth:verifySecondFactor', (_, code: string) => {
+  return authHandlers.verifySecondFactor(code);
+});
+
 ipcMain.handle('auth:logout', (_, sessionToken?: string) => {
   return authHandlers.logout(sessionToken);
 });
@@ -103,85 +135,560 @@ ipcMain.handle('auth:validateSession', (_, sessionToken: string) => {
   return authHandlers.validateSession(sessionToken);
 });
 
-ipcMain.handle('auth:changePassword', async (_, data: ChangePasswordData) => {
-  return authHandlers.changePassword(data);
+ipcMain.handle('auth:getCurrentUser', () => {
+  return authHandlers.getCurrentUser();
 });
 
-// ============================================
-// IPC HANDLERS - ITEMS
-// ============================================
-
-ipcMain.handle('items:getAll', (_, filters?: ItemFilters) => {
-  return itemHandlers.getAllItems(filters);
+// Live strength meter; also used before sign-in (setup, recovery)
+ipcMain.handle('auth:checkPassword', (_, password: string) => {
+  return checkPassword(password);
 });
 
-ipcMain.handle('items:getById', (_, id: string) => {
-  return itemHandlers.getItemById(id);
+ipcMain.handle(
+  'auth:changePassword',
+  guard('account', async (_, data: ChangePasswordData) => {
+    return authHandlers.changePassword(data);
+  })
+);
+
+ipcMain.handle('auth:recover', async (_, data: RecoverAccountData) => {
+  return recoveryHandlers.recoverAccount(data);
 });
 
-ipcMain.handle('items:create', (_, data: CreateItemData) => {
-  return itemHandlers.createItem(data);
+ipcMain.handle(
+  'auth:recoveryStatus',
+  guard('account', () => {
+    return recoveryHandlers.getRecoveryCodeStatus();
+  })
+);
+
+ipcMain.handle(
+  'auth:regenerateRecoveryCodes',
+  guard('account', async (_, currentPassword: string) => {
+    return recoveryHandlers.regenerateRecoveryCodes(currentPassword);
+  })
+);
+
+ipcMain.handle(
+  'auth:totpStatus',
+  guard('account', () => {
+    return totpHandlers.getTotpStatus();
+  })
+);
+
+ipcMain.handle(
+  'auth:beginTotp',
+  guard('account', async () => {
+    return totpHandlers.beginTotpEnrollment();
+  })
+);
+
+ipcMain.handle(
+  'auth:confirmTotp',
+  guard('account', (_, code: string) => {
+    return totpHandlers.confirmTotpEnrollment(code);
+  })
+);
+
+ipcMain.handle(
+  'auth:disableTotp',
+  guard('account', async (_, currentPassword: string) => {
+    return totpHandlers.disableTotp(currentPassword);
+  })
+);
+
+ipcMain.handle(
+  'auth:listSessions',
+  guard('account', () => {
+    return authHandlers.listSessions();
+  })
+);
+
+ipcMain.handle(
+  'auth:revokeSession',
+  guard('account', (_, id: string) => {
+    return authHandlers.revokeSession(id);
+  })
+);
+
+ipcMain.handle(
+  'auth:signOutEverywhere',
+  guard('account', () => {
+    return authHandlers.signOutEverywhere();
+  })
+);
+
+ipcMain.handle('auth:lockStatus', () => {
+  return authHandlers.getLockStatus();
 });
 
-ipcMain.handle('items:update', (_, data: UpdateItemData) => {
-  return itemHandlers.updateItem(data);
+ipcMain.handle('auth:lock', () => {
+  return authHandlers.lockSession();
 });
 
-ipcMain.handle('items:delete', (_, id: string) => {
-  return itemHandlers.deleteItem(id);
+ipcMain.handle('auth:unlock', async (_, data: UnlockData) => {
+  return authHandlers.unlockSession(data);
 });
 
+ipcMain.handle(
+  'auth:setPin',
+  guard('account', async (_, data: SetPinData) => {
+    return authHandlers.setPin(data);
+  })
+);
+
+ipcMain.handle(
+  'auth:clearPin',
+  guard('account', () => {
+    return authHandlers.clearPin();
+  })
+);
+
+// ============================================
+// IPC HANDLERS - USERS
+// ============================================
+
+ipcMain.handle(
+  'users:list',
+  guard('users:manage', () => {
+    return userHandlers.listUsers();
+  })
+);
+
+ipcMain.handle(
+  'users:create',
+  guard('users:manage', async (_, data: CreateUserData) => {
+    return userHandlers.createUser(data);
+  })
+);
+
+ipcMain.handle(
+  'users:update',
+  guard('users:manage', (_, data: UpdateUserData) => {
+    return userHandlers.updateUser(data);
+  })
+);
+
+ipcMain.handle(
+  'users:disable',
+  guard('users:manage', (_, id: number, disabled: boolean) => {
+    return userHandlers.setUserDisabled(id, disabled);
+  })
+);
+
+ipcMain.handle(
+  'users:resetPassword',
+  guard('users:manage', async (_, id: number, newPassword: string) => {
+    return userHandlers.resetPassword(id, newPassword);
+  })
+);
+
+ipcMain.handle(
+  'users:lockoutEvents',
+  guard('users:manage', () => {
+    return userHandlers.listLockoutEvents();
+  })
+);
+
+ipcMain.handle(
+  'users:unlock',
+  guard('users:manage', (_, username: string) => {
+    return userHandlers.unlockUser(username);
+  })
+);
+
+// ============================================
+// IPC HANDLERS - ITEMS
+// ============================================
+
+ipcMain.handle(
+  'items:getAll',
+  guard('data:read', (_, filters?: ItemFilters) => {
+    return itemHandlers.getAllItems(filters);
+  })
+);
+
+ipcMain.handle(
+  'items:getById',
+  guard('data:read', (_, id: string) => {
+    return itemHandlers.getItemById(id);
+  })
+);
+
+ipcMain.handle(
+  'items:create',
+  guard('data:write', (_, data: CreateItemData) => {
+    return itemHandlers.createItem(data);
+  })
+);
+
+ipcMain.handle(
+  'items:update',
+  guard('data:write', (_, data: UpdateItemData) => {
+    return itemHandlers.updateItem(data);
+  })
+);
+
+ipcMain.handle(
+  'items:delete',
+  guard('data:write', (_, id: string) => {
+    return itemHandlers.deleteItem(id);
+  })
+);
+
+ipcMain.handle(
+  'items:getHistory',
+  guard('data:read', (_, id: string) => {
+    return itemHandlers.getItemHistory(id);
+  })
+);
+
+ipcMain.handle(
+  'items:restoreVersion',
+  guard('data:write', (_, id: string, version: number) => {
+    return itemHandlers.restoreItemVersion(id, version);
+  })
+);
+
+ipcMain.handle(
+  'items:bulkUpdate',
+  guard('data:write', (_, selection: ItemSelection, data: BulkUpdateData) => {
+    return bulkUpdateItems(selection, data);
+  })
+);
+
+ipcMain.handle(
+  'items:bulkDelete',
+  guard('data:write', (_, selection: ItemSelection) => {
+    return bulkDeleteItems(selection);
+  })
+);
+
+ipcMain.handle(
+  'items:exportCsv',
+  guard('data:read', async (_, selection: ItemSelection) => {
+    return exportItemsCsv(selection);
+  })
+);
+
+ipcMain.handle(
+  'items:pickImportFile',
+  guard('data:write', async () => {
+    return pickImportFile();
+  })
+);
+
+ipcMain.handle(
+  'items:import',
+  guard('data:write', (_, request: ImportRequest) => {
+    return importItems(request);
+  })
+);
+
 // ============================================
 // IPC HANDLERS - CATEGORIES
 // ============================================
 
-ipcMain.handle('categories:getAll', () => {
-  return itemHandlers.getAllCategories();
-});
+ipcMain.handle(
+  'categories:getAll',
+  guard('data:read', () => {
+    return itemHandlers.getAllCategories();
+  })
+);
+
+ipcMain.handle(
+  'categories:create',
+  guard('data:write', (_, name: string) => {
+    return itemHandlers.createCategory(name);
+  })
+);
+
+ipcMain.handle(
+  'categories:delete',
+  guard('data:write', (_, id: string) => {
+    return itemHandlers.deleteCategory(id);
+  })
+);
 
-ipcMain.handle('categories:create', (_, name: string) => {
-  return itemHandlers.createCategory(name);
-});
+// ============================================
+// IPC HANDLERS - TRASH
+// ============================================
 
-ipcMain.handle('categories:delete', (_, id: string) => {
-  return itemHandlers.deleteCategory(id);
-});
+ipcMain.handle(
+  'trash:list',
+  guard('data:read', () => {
+    return trashHandlers.getTrash();
+  })
+);
+
+ipcMain.handle(
+  'trash:restoreItem',
+  guard('data:write', (_, id: string) => {
+    return trashHandlers.restoreItem(id);
+  })
+);
+
+ipcMain.handle(
+  'trash:restoreCategory',
+  guard('data:write', (_, id: string) => {
+    return trashHandlers.restoreCategory(id);
+  })
+);
+
+ipcMain.handle(
+  'trash:purgeItem',
+  guard('data:write', (_, id: string) => {
+    return trashHandlers.purgeItem(id);
+  })
+);
+
+ipcMain.handle(
+  'trash:purgeCategory',
+  guard('data:write', (_, id: string) => {
+    return trashHandlers.purgeCategory(id);
+  })
+);
+
+ipcMain.handle(
+  'trash:empty',
+  guard('data:write', () => {
+    return trashHandlers.emptyTrash();
+  })
+);
+
+// ============================================
+// IPC HANDLERS - UNDO
+// ============================================
+
+ipcMain.handle(
+  'undo:status',
+  guard('data:write', () => {
+    return undoHandlers.getUndoStatus();
+  })
+);
+
+ipcMain.handle(
+  'undo:undo',
+  guard('data:write', (_, entryId?: number) => {
+    return undoHandlers.undo(entryId);
+  })
+);
+
+ipcMain.handle(
+  'undo:redo',
+  guard('data:write', () => {
+    return undoHandlers.redo();
+  })
+);
+
+// ============================================
+// IPC HANDLERS - SEARCH
+// ============================================
+
+ipcMain.handle(
+  'search:global',
+  guard('data:read', (_, query: string) => {
+    return globalSearch(query);
+  })
+);
+
+ipcMain.handle(
+  'search:recordOpen',
+  guard('data:read', (_, type: SearchEntityType, id: string) => {
+    recordRecentOpen(type, id);
+    return { success: true, message: 'Recorded' };
+  })
+);
 
 // ============================================
 // IPC HANDLERS - DASHBOARD
 // ============================================
 
-ipcMain.handle('dashboard:getStats', () => {
-  return itemHandlers.getDashboardStats();
-});
+ipcMain.handle(
+  'dashboard:getStats',
+  guard('data:read', () => {
+    return itemHandlers.getDashboardStats();
+  })
+);
 
-ipcMain.handle('dashboard:getRecentItems', (_, limit?: number) => {
-  return itemHandlers.getRecentItems(limit);
-});
+ipcMain.handle(
+  'dashboard:getRecentItems',
+  guard('data:read', (_, limit?: number) => {
+    return itemHandlers.getRecentItems(limit);
+  })
+);
 
 // ============================================
 // IPC HANDLERS - BACKUP
 // ============================================
 
-ipcMain.handle('backup:create', () => {
-  return createBackup();
-});
+ipcMain.handle(
+  'backup:create',
+  guard('backup:manage', (event) => {
+    return createBackup((progress) => event.sender.send('backup:progress', progress), 'manual');
+  })
+);
+
+ipcMain.handle(
+  'backup:createManual',
+  guard('backup:manage', async (event, options?: ManualBackupOptions) => {
+    return createManualBackup(options, (progress) => event.sender.send('backup:progress', progress));
+  })
+);
+
+ipcMain.handle(
+  'backup:getInfo',
+  guard('backup:manage', () => {
+    return getBackupInfo();
+  })
+);
+
+ipcMain.handle(
+  'backup:list',
+  guard('backup:manage', () => {
+    return listBackups();
+  })
+);
+
+ipcMain.handle(
+  'backup:restore',
+  guard('backup:manage', async (event, filePath?: string, passphrase?: string) => {
+    const user = authHandlers.getCurrentUser();
+    const result = await restoreBackup(filePath, passphrase);
+
+    if (result.success) {
+      // The restored database has its own users, so sign out before the UI starts fresh.
+      // The old database is already closed, so only the in-memory session is cleared.
+      authHandlers.clearSession();
+
+      try {
+        await initDatabase();
+      } catch (error) {
+        console.error('Restored database failed to open:', error);
+        const reason = error instanceof Error ? error.message : 'Unknown error';
+
+        if (!result.safetyBackupPath) {
+          return {
+            success: false,
+            message: `Restore failed: ${reason}. No backup of the previous data was found to put back.`,
+          };
+        }
+
+        try {
+          revertRestore(result.safetyBackupPath);
+          await initDatabase();
+        } catch (revertError) {
+          console.error('Putting back the previous data failed:', revertError);
+          return {
+            success: false,
+            message:
+              `Restore failed: ${reason}. The previous data could not be put back either; ` +
+              `restart the app and restore ${result.safetyBackupPath}.`,
+          };
+        }
+
+        setImmediate(() => event.sender.reload());
+        return { success: false, message: `Restore failed: ${reason}. Your previous data was put back.` };
+      }
+
+      // Recorded in the restored database, which is the one that carries on
+      logAudit({
+        action: 'backup.restore',
+        entityType: 'backup',
+        entityLabel: result.filePath ? path.basename(result.filePath) : null,
+        actor: user ? { id: user.id, username: user.username } : undefined,
+      });
+
+      const totpReset = totpHandlers.resetUnreadableTotpSecrets();
+
+      setImmediate(async () => {
+        // Shown natively because the reload below clears any toast in the window
+        if (totpReset.length > 0) {
+          await dialog.showMessageBox({
+            type: 'warning',
+            title: 'Two-factor authentication turned off',
+            message: 'Two-factor authentication was turned off for some users',
+            detail:
+              `The restored backup came from another installation, so its authenticator secrets cannot be read here. ` +
+              `These users can now sign in with their password only and should set up two-factor authentication again: ` +
+              totpReset.join(', '),
+          });
+        }
+        event.sender.reload();
+      });
+    }
 
-ipcMain.handle('backup:createManual', async () => {
-  return createManualBackup();
-});
+    return result;
+  })
+);
+
+ipcMain.handle(
+  'backup:addDestination',
+  guard('backup:manage', () => {
+    return addDestination();
+  })
+);
+
+ipcMain.handle(
+  'backup:removeDestination',
+  guard('backup:manage', (_, id: string) => {
+    return removeDestination(id);
+  })
+);
+
+ipcMain.handle(
+  'backup:updateDestination',
+  guard('backup:manage', (_, id: string, retention: RetentionPolicy) => {
+    return updateDestinationRetention(id, retention);
+  })
+);
 
-ipcMain.handle('backup:getInfo', () => {
-  return getBackupInfo();
-});
+// ============================================
+// IPC HANDLERS - AUDIT LOG
+// ============================================
+
+ipcMain.handle(
+  'audit:list',
+  guard('audit:read', (_, filters?: AuditFilters) => {
+    return getAuditLog(filters);
+  })
+);
+
+ipcMain.handle(
+  'audit:actions',
+  guard('audit:read', () => {
+    return getAuditActions();
+  })
+);
+
+ipcMain.handle(
+  'audit:exportCsv',
+  guard('audit:read', async (_, filters?: AuditFilters) => {
+    return exportAuditCsv(filters);
+  })
+);
 
 // ============================================
 // APP LIFECYCLE
 // ============================================
 
-app.whenReady().then(() => {
-  // Initialize database
-  initDatabase();
+app.whenReady().then(async () => {
+  // Initialize database (runs pending schema migrations)
+  try {
+    await initDatabase();
+    isDatabaseReady = true;
+    authHandlers.clearTransientSessions();
+    trashHandlers.purgeExpiredTrash();
+  } catch (error) {
+    console.error('Database initialization failed:', error);
+    dialog.showErrorBox(
+      'Unable to open database',
+      error instanceof Error ? error.message : 'Unknown error'
+    );
+    closeDatabase();
+    app.quit();
+    return;
+  }
 
   // Create window
   createWindow();
@@ -190,9 +697,10 @@ app.whenReady().then(() => {
   checkAndCreateBackupOnStartup();
   startPeriodicBackup();
 
-  // Clean up expired sessions periodically (every hour)
+  // Clean up expired sessions and trash periodically (every hour)
   setInterval(() => {
     authHandlers.cleanupExpiredSessions();
+    trashHandlers.purgeExpiredTrash();
   }, 60 * 60 * 1000);
 
   app.on('activate', () => {
@@ -203,16 +711,34 @@ app.whenReady().then(() => {
 });
 
 app.on('window-all-closed', () => {
-  stopPeriodicBackup();
-  closeDatabase();
-
   if (process.platform !== 'darwin') {
     app.quit();
+  } else if (isDatabaseReady) {
+    // The app keeps running on macOS, so only take the close backup
+    createBackupOnClose();
   }
 });
 
-app.on('before-quit', () => {
-  createBackupOnClose();
+// Hold the quit until the close backup has finished, then close the database
+app.on('before-quit', (event) => {
+  if (shutdownState === 'done') {
+    return;
+  }
+
+  event.preventDefault();
+
+  if (shutdownState === 'closing') {
+    return;
+  }
+
+  shutdownState = 'closing';
   stopPeriodicBackup();
-  closeDatabase();
+
+  const closeBackup = isDatabaseReady ? createBackupOnClose() : Promise.resolve();
+
+  closeBackup.finally(() => {
+    closeDatabase();
+    shutdownState = 'done';
+    app.quit();
+  });
 });
@@ -0,0 +1,14 @@
+import type { UserRole, Permission } from './types';
+
+// What each role may do. The main process enforces these in guard(); the renderer
+// imports this module too (through src/lib/permissions.ts) to hide actions the user
+// cannot take, so it must stay free of Node and Electron imports.
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: ['account', 'data:read', 'data:write', 'backup:manage', 'users:manage', 'audit:read'],
+  editor: ['account', 'data:read', 'data:write'],
+  viewer: ['account', 'data:read'],
+};
+
+export function hasPermission(role: UserRole | undefined, permission: Permission): boolean {
+  return !!role && ROLE_PERMISSIONS[role].includes(permission);
+}
@@ -4,95 +4,339 @@ import type {
   LoginData,
   LoginResult,
   ChangePasswordData,
+  PasswordCheck,
+  SetupResult,
+  RecoverAccountData,
+  RecoveryCodeStatus,
+  TotpStatus,
+  TotpEnrollment,
+  UnlockData,
+  UnlockResult,
+  LockStatus,
+  SetPinData,
+  SessionInfo,
   AuthUser,
+  UserAccount,
+  CreateUserData,
+  UpdateUserData,
+  LockoutEvent,
   Item,
   Category,
   ItemFilters,
+  ItemPage,
   CreateItemData,
   UpdateItemData,
+  ItemVersion,
+  ItemSelection,
+  BulkUpdateData,
+  BulkResult,
+  ImportFileResult,
+  ImportRequest,
+  ImportResult,
+  TrashContents,
+  UndoStatus,
+  UndoResult,
+  SearchEntityType,
+  SearchResult,
   DashboardStats,
   BackupResult,
   BackupInfo,
+  BackupFile,
+  BackupProgress,
+  ManualBackupOptions,
+  RestoreResult,
+  RetentionPolicy,
+  AuditEntry,
+  AuditFilters,
+  IpcAuthError,
 } from './types';
+import type { ElectronAPI } from '../src/electron-api';
+
+// Listeners notified when a guarded IPC call is denied
+const authErrorListeners = new Set<(error: IpcAuthError) => void>();
+
+function isIpcAuthError(value: unknown): value is IpcAuthError {
+  return typeof value === 'object' && value !== null && 'authError' in value;
+}
+
+// ipcRenderer.invoke that turns a guard denial into a rejected promise and tells
+// the auth listeners, so callers never mistake it for a normal result
+async function invoke<T>(channel: string, ...args: unknown[]): Promise<T> {
+  const result = await ipcRenderer.invoke(channel, ...args);
+
+  if (isIpcAuthError(result)) {
+    authErrorListeners.forEach((listener) => listener(result));
+    throw new Error(result.message);
+  }
+
+  return result as T;
+}
 
 // Define the API structure
-const electronAPI = {
+const electronAPI: ElectronAPI = {
   // ============================================
   // AUTH API
   // ============================================
   auth: {
-    checkSetup: (): Promise<boolean> => ipcRenderer.invoke('auth:checkSetup'),
+    checkSetup: (): Promise<boolean> => invoke('auth:checkSetup'),
 
-    setup: (data: SetupData): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('auth:setup', data),
+    setup: (data: SetupData): Promise<SetupResult> => invoke('auth:setup', data),
 
-    login: (data: LoginData): Promise<LoginResult> => ipcRenderer.invoke('auth:login', data),
+    login: (data: LoginData): Promise<LoginResult> => invoke('auth:login', data),
+
+    // Second login step when login() returns requiresSecondFactor
+    verifySecondFactor: (code: string): Promise<LoginResult> => invoke('auth:verifySecondFactor', code),
 
     logout: (sessionToken?: string): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('auth:logout', sessionToken),
+      invoke('auth:logout', sessionToken),
 
     validateSession: (sessionToken: string): Promise<{ valid: boolean; user?: AuthUser }> =>
-      ipcRenderer.invoke('auth:validateSession', sessionToken),
+      invoke('auth:validateSession', sessionToken),
+
+    // Check a candidate password against the configured policy
+    checkPassword: (password: string): Promise<PasswordCheck> => invoke('auth:checkPassword', password),
 
     changePassword: (data: ChangePasswordData): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('auth:changePassword', data),
+      invoke('auth:changePassword', data),
+
+    // Reset a forgotten password with a one-time recovery code
+    recover: (data: RecoverAccountData): Promise<{ success: boolean; message: string; retryAt?: number }> =>
+      invoke('auth:recover', data),
+
+    recoveryStatus: (): Promise<RecoveryCodeStatus> => invoke('auth:recoveryStatus'),
+
+    regenerateRecoveryCodes: (
+      currentPassword: string
+    ): Promise<{ success: boolean; message: string; codes?: string[] }> =>
+      invoke('auth:regenerateRecoveryCodes', currentPassword),
+
+    totpStatus: (): Promise<TotpStatus> => invoke('auth:totpStatus'),
+
+    beginTotp: (): Promise<{ success: boolean; message: string; enrollment?: TotpEnrollment }> =>
+      invoke('auth:beginTotp'),
+
+    confirmTotp: (code: string): Promise<{ success: boolean; message: string }> =>
+      invoke('auth:confirmTotp', code),
+
+    disableTotp: (currentPassword: string): Promise<{ success: boolean; message: string }> =>
+      invoke('auth:disableTotp', currentPassword),
+
+    listSessions: (): Promise<SessionInfo[]> => invoke('auth:listSessions'),
+
+    revokeSession: (id: string): Promise<{ success: boolean; message: string; signedOut?: boolean }> =>
+      invoke('auth:revokeSession', id),
+
+    signOutEverywhere: (): Promise<{ success: boolean; message: string }> => invoke('auth:signOutEverywhere'),
+
+    lockStatus: (): Promise<LockStatus> => invoke('auth:lockStatus'),
+
+    lock: (): Promise<{ success: boolean; message: string }> => invoke('auth:lock'),
+
+    unlock: (data: UnlockData): Promise<UnlockResult> => invoke('auth:unlock', data),
+
+    setPin: (data: SetPinData): Promise<{ success: boolean; message: string }> => invoke('auth:setPin', data),
+
+    clearPin: (): Promise<{ success: boolean; message: string }> => invoke('auth:clearPin'),
+
+    // User signed in to the main process, if any (survives window reloads)
+    getCurrentUser: (): Promise<AuthUser | null> => invoke('auth:getCurrentUser'),
+
+    // Subscribe to denied IPC calls; returns an unsubscribe function
+    onAuthError: (callback: (error: IpcAuthError) => void): (() => void) => {
+      authErrorListeners.add(callback);
+      return () => {
+        authErrorListeners.delete(callback);
+      };
+    },
+  },
+
+  // ============================================
+  // USERS API
+  // ============================================
+  users: {
+    list: (): Promise<UserAccount[]> => invoke('users:list'),
+
+    create: (data: CreateUserData): Promise<{ success: boolean; message: string; user?: UserAccount }> =>
+      invoke('users:create', data),
+
+    update: (data: UpdateUserData): Promise<{ success: boolean; message: string; user?: UserAccount }> =>
+      invoke('users:update', data),
+
+    disable: (id: number, disabled = true): Promise<{ success: boolean; message: string }> =>
+      invoke('users:disable', id, disabled),
+
+    resetPassword: (id: number, newPassword: string): Promise<{ success: boolean; message: string }> =>
+      invoke('users:resetPassword', id, newPassword),
+
+    lockoutEvents: (): Promise<LockoutEvent[]> => invoke('users:lockoutEvents'),
+
+    unlock: (username: string): Promise<{ success: boolean; message: string }> =>
+      invoke('users:unlock', username),
   },
 
   // ============================================
   // ITEMS API
   // ============================================
   items: {
-    getAll: (filters?: ItemFilters): Promise<Item[]> => ipcRenderer.invoke('items:getAll', filters),
+    getAll: (filters?: ItemFilters): Promise<ItemPage> => invoke('items:getAll', filters),
 
-    getById: (id: string): Promise<Item | null> => ipcRenderer.invoke('items:getById', id),
+    getById: (id: string): Promise<Item | null> => invoke('items:getById', id),
 
-    create: (data: CreateItemData): Promise<{ success: boolean; message: string; item?: Item }> =>
-      ipcRenderer.invoke('items:create', data),
+    // undoId identifies the change for undo.undo()
+    create: (
+      data: CreateItemData
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }> =>
+      invoke('items:create', data),
 
-    update: (data: UpdateItemData): Promise<{ success: boolean; message: string; item?: Item }> =>
-      ipcRenderer.invoke('items:update', data),
+    update: (
+      data: UpdateItemData
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }> =>
+      invoke('items:update', data),
 
-    delete: (id: string): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('items:delete', id),
+    delete: (id: string): Promise<{ success: boolean; message: string; undoId?: number }> =>
+      invoke('items:delete', id),
+
+    getHistory: (id: string): Promise<ItemVersion[]> => invoke('items:getHistory', id),
+
+    restoreVersion: (
+      id: string,
+      version: number
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }> =>
+      invoke('items:restoreVersion', id, version),
+
+    // Each call is one transaction, audit entry and undo step; items that
+    // cannot be changed are listed in `failures`
+    bulkUpdate: (selection: ItemSelection, data: BulkUpdateData): Promise<BulkResult> =>
+      invoke('items:bulkUpdate', selection, data),
+
+    bulkDelete: (selection: ItemSelection): Promise<BulkResult> =>
+      invoke('items:bulkDelete', selection),
+
+    exportCsv: (
+      selection: ItemSelection
+    ): Promise<{ success: boolean; message: string; filePath?: string }> =>
+      invoke('items:exportCsv', selection),
+
+    // Read a CSV or XLSX file for the import wizard
+    pickImportFile: (): Promise<ImportFileResult> => invoke('items:pickImportFile'),
+
+    // With dryRun the import is rolled back, so the result previews it
+    import: (request: ImportRequest): Promise<ImportResult> => invoke('items:import', request),
   },
 
   // ============================================
   // CATEGORIES API
   // ============================================
   categories: {
-    getAll: (): Promise<Category[]> => ipcRenderer.invoke('categories:getAll'),
+    getAll: (): Promise<Category[]> => invoke('categories:getAll'),
 
     create: (name: string): Promise<{ success: boolean; message: string; category?: Category }> =>
-      ipcRenderer.invoke('categories:create', name),
+      invoke('categories:create', name),
 
     delete: (id: string): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('categories:delete', id),
+      invoke('categories:delete', id),
+  },
+
+  // ============================================
+  // TRASH API
+  // ============================================
+  trash: {
+    list: (): Promise<TrashContents> => invoke('trash:list'),
+
+    restoreItem: (id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('trash:restoreItem', id),
+
+    restoreCategory: (id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('trash:restoreCategory', id),
+
+    purgeItem: (id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('trash:purgeItem', id),
+
+    purgeCategory: (id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('trash:purgeCategory', id),
+
+    empty: (): Promise<{ success: boolean; message: string }> => invoke('trash:empty'),
+  },
+
+  // ============================================
+  // UNDO API
+  // ============================================
+  undo: {
+    getStatus: (): Promise<UndoStatus> => invoke('undo:status'),
+
+    // Pass an undoId to undo that change only if it is still the most recent one
+    undo: (undoId?: number): Promise<UndoResult> => invoke('undo:undo', undoId),
+
+    redo: (): Promise<UndoResult> => invoke('undo:redo'),
+  },
+
+  // ============================================
+  // SEARCH API
+  // ============================================
+  search: {
+    // Items and categories; recently opened records first (only those for an empty query)
+    global: (query: string): Promise<SearchResult[]> => invoke('search:global', query),
+
+    recordOpen: (type: SearchEntityType, id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('search:recordOpen', type, id),
   },
 
   // ============================================
   // DASHBOARD API
   // ============================================
   dashboard: {
-    getStats: (): Promise<DashboardStats> => ipcRenderer.invoke('dashboard:getStats'),
+    getStats: (): Promise<DashboardStats> => invoke('dashboard:getStats'),
 
-    getRecentItems: (limit?: number): Promise<Item[]> => ipcRenderer.invoke('dashboard:getRecentItems', limit),
+    getRecentItems: (limit?: number): Promise<Item[]> => invoke('dashboard:getRecentItems', limit),
   },
 
   // ============================================
   // BACKUP API
   // ============================================
   backup: {
-    create: (): Promise<BackupResult> => ipcRenderer.invoke('backup:create'),
+    create: (): Promise<BackupResult> => invoke('backup:create'),
+
+    createManual: (options?: ManualBackupOptions): Promise<{ success: boolean; message: string }> =>
+      invoke('backup:createManual', options),
+
+    getInfo: (): Promise<BackupInfo> => invoke('backup:getInfo'),
+
+    list: (): Promise<BackupFile[]> => invoke('backup:list'),
+
+    restore: (filePath?: string, passphrase?: string): Promise<RestoreResult> =>
+      invoke('backup:restore', filePath, passphrase),
 
-    createManual: (): Promise<{ success: boolean; message: string }> =>
-      ipcRenderer.invoke('backup:createManual'),
+    addDestination: (): Promise<{ success: boolean; message: string }> =>
+      invoke('backup:addDestination'),
 
-    getInfo: (): Promise<BackupInfo> => ipcRenderer.invoke('backup:getInfo'),
+    removeDestination: (id: string): Promise<{ success: boolean; message: string }> =>
+      invoke('backup:removeDestination', id),
+
+    updateDestination: (id: string, retention: RetentionPolicy): Promise<{ success: boolean; message: string }> =>
+      invoke('backup:updateDestination', id, retention),
+
+    // Subscribe to progress of running backups; returns an unsubscribe function
+    onProgress: (callback: (progress: BackupProgress) => void): (() => void) => {
+      const listener = (_: Electron.IpcRendererEvent, progress: BackupProgress) => callback(progress);
+      ipcRenderer.on('backup:progress', listener);
+      return () => {
+        ipcRenderer.removeListener('backup:progress', listener);
+      };
+    },
+  },
+
+  // ============================================
+  // AUDIT LOG API
+  // ============================================
+  audit: {
+    list: (filters?: AuditFilters): Promise<AuditEntry[]> => invoke('audit:list', filters),
+
+    getActions: (): Promise<string[]> => invoke('audit:actions'),
+
+    exportCsv: (filters?: AuditFilters): Promise<{ success: boolean; message: string; filePath?: string }> =>
+      invoke('audit:exportCsv', filters),
   },
 };
 
 // Expose the API to the renderer process
 contextBridge.exposeInMainWorld('electronAPI', electronAPI);
-
-// Type declaration for the renderer process
-export type ElectronAPI = typeof electronAPI;
@@ -0,0 +1,14 @@
+import { z } from 'zod';
+
+// Shared by the Add Item dialog, the import wizard and importItems(), so imported
+// rows follow the same rules as items typed in by hand. The renderer imports this
+// module through src/lib/schemas.ts, so it must stay free of Node and Electron imports.
+export const createItemSchema = z.object({
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  category_id: z.string().optional(),
+  quantity: z.coerce.number({ invalid_type_error: 'Quantity must be a number' }).min(0, 'Quantity must be 0 or more'),
+  status: z.enum(['active', 'inactive']),
+});
+
+export type CreateItemFormData = z.infer<typeof createItemSchema>;
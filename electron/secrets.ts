@@ -0,0 +1,54 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { app, safeStorage } from 'electron';
+import { encryptBuffer, decryptBuffer, packPayload, unpackPayload } from './crypto';
+
+// Key for secrets stored in the database (e.g. TOTP seeds). It lives in userData,
+// outside the database, so a copied database or backup does not reveal them. Where
+// the OS keychain is available (safeStorage) the key itself is encrypted with it.
+const KEY_FILE = path.join(app.getPath('userData'), 'secret.key');
+const KEY_LENGTH = 32;
+
+interface StoredKey {
+  // true when `key` is wrapped by safeStorage
+  protected: boolean;
+  key: string;
+}
+
+let cachedKey: Buffer | null = null;
+
+function getSecretKey(): Buffer {
+  if (cachedKey) {
+    return cachedKey;
+  }
+
+  if (fs.existsSync(KEY_FILE)) {
+    const stored = JSON.parse(fs.readFileSync(KEY_FILE, 'utf-8')) as StoredKey;
+    const raw = Buffer.from(stored.key, 'base64');
+    cachedKey = stored.protected ? Buffer.from(safeStorage.decryptString(raw), 'base64') : raw;
+    return cachedKey;
+  }
+
+  const key = crypto.randomBytes(KEY_LENGTH);
+  const useKeychain = safeStorage.isEncryptionAvailable();
+  const stored: StoredKey = {
+    protected: useKeychain,
+    key: (useKeychain ? safeStorage.encryptString(key.toString('base64')) : key).toString('base64'),
+  };
+
+  fs.writeFileSync(KEY_FILE, JSON.stringify(stored), { mode: 0o600 });
+  cachedKey = key;
+  return key;
+}
+
+export function encryptSecret(plaintext: string): string {
+  const payload = encryptBuffer(getSecretKey(), Buffer.from(plaintext, 'utf-8'));
+  return packPayload(payload).toString('base64');
+}
+
+// Throws if the key file was lost or replaced
+export function decryptSecret(value: string): string {
+  const payload = unpackPayload(Buffer.from(value, 'base64'));
+  return decryptBuffer(getSecretKey(), payload).toString('utf-8');
+}
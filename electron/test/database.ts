@@ -0,0 +1,35 @@
+import fs from 'fs';
+import { closeDatabase, getDatabasePath } from '../database/db';
+import { initDatabase } from '../database/migrations';
+import { createUser, login, clearSession, type AuthUser } from '../database/auth';
+
+export const TEST_USERNAME = 'admin';
+export const TEST_PASSWORD = 'Quiet-Harbor-Lamp-42';
+
+// Delete the database and migrate a new one, signed out
+export async function resetDatabase(): Promise<void> {
+  clearSession();
+  closeDatabase();
+
+  const dbPath = getDatabasePath();
+  for (const file of [dbPath, `${dbPath}-wal`, `${dbPath}-shm`]) {
+    fs.rmSync(file, { force: true });
+  }
+
+  await initDatabase();
+}
+
+// Create the first (admin) account and sign in as it
+export async function signInAsAdmin(): Promise<AuthUser> {
+  const setup = await createUser({ username: TEST_USERNAME, password: TEST_PASSWORD });
+  if (!setup.success) {
+    throw new Error(setup.message);
+  }
+
+  const result = await login({ username: TEST_USERNAME, password: TEST_PASSWORD });
+  if (!result.user) {
+    throw new Error(result.message);
+  }
+
+  return result.user;
+}
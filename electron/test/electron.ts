@@ -0,0 +1,26 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Stand-in for the parts of the electron module the database code uses. Each
+// test file gets its own userData directory, removed again in setup.ts.
+const userDataPath = fs.mkdtempSync(path.join(os.tmpdir(), 'app-test-'));
+
+export const app = {
+  isPackaged: false,
+  getPath: (name: string): string => (name === 'temp' ? os.tmpdir() : userDataPath),
+};
+
+// File pickers are always cancelled; tests call the functions behind them directly
+export const dialog = {
+  showOpenDialog: async () => ({ canceled: true, filePaths: [] as string[] }),
+  showSaveDialog: async () => ({ canceled: true, filePath: undefined }),
+  showMessageBox: async () => ({ response: 0, checkboxChecked: false }),
+};
+
+// No OS keychain, as on a Linux machine without a secret service
+export const safeStorage = {
+  isEncryptionAvailable: (): boolean => false,
+  encryptString: (plainText: string): Buffer => Buffer.from(plainText, 'utf-8'),
+  decryptString: (encrypted: Buffer): string => encrypted.toString('utf-8'),
+};
@@ -0,0 +1,9 @@
+import fs from 'fs';
+import { afterAll } from 'vitest';
+import { app } from 'electron';
+import { closeDatabase } from '../database/db';
+
+afterAll(() => {
+  closeDatabase();
+  fs.rmSync(app.getPath('userData'), { recursive: true, force: true });
+});
@@ -11,6 +11,8 @@ import { Dashboard } from '@/pages/Dashboard';
 import { ItemList } from '@/pages/ItemList';
 import { ItemDetail } from '@/pages/ItemDetail';
 import { Settings } from '@/pages/Settings';
+import { AuditLog } from '@/pages/AuditLog';
+import { Trash } from '@/pages/Trash';
 import { NotFound } from '@/pages/NotFound';
 
 // Create a client
@@ -35,6 +37,8 @@ function App() {
                   <Route path="/" element={<Dashboard />} />
                   <Route path="/items" element={<ItemList />} />
                   <Route path="/items/:id" element={<ItemDetail />} />
+                  <Route path="/trash" element={<Trash />} />
+                  <Route path="/audit" element={<AuditLog />} />
                   <Route path="/settings" element={<Settings />} />
                   <Route path="*" element={<NotFound />} />
                 </Routes>
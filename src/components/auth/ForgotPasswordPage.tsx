@@ -0,0 +1,162 @@
+import { useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { KeyRound, ArrowLeft } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
+
+const recoverSchema = z
+  .object({
+    username: z.string().min(1, 'Username is required'),
+    code: z.string().min(1, 'Recovery code is required'),
+    newPassword: z.string().min(1, 'New password is required'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type RecoverFormData = z.infer<typeof recoverSchema>;
+
+interface ForgotPasswordPageProps {
+  onBack: () => void;
+}
+
+// Reset a forgotten password with one of the recovery codes saved at setup
+export function ForgotPasswordPage({ onBack }: ForgotPasswordPageProps) {
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<RecoverFormData>({
+    resolver: zodResolver(recoverSchema),
+    defaultValues: { username: '', code: '', newPassword: '', confirmPassword: '' },
+  });
+
+  const onSubmit = async (data: RecoverFormData) => {
+    setError(null);
+
+    try {
+      const result = await window.electronAPI.auth.recover({
+        username: data.username,
+        code: data.code,
+        newPassword: data.newPassword,
+      });
+
+      if (result.success) {
+        setSuccess(result.message);
+      } else if (result.retryAt && result.retryAt > Date.now()) {
+        const seconds = Math.ceil((result.retryAt - Date.now()) / 1000);
+        setError(`${result.message} Try again in ${seconds} seconds.`);
+      } else {
+        setError(result.message);
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="space-y-1 text-center">
+          <div className="flex justify-center mb-4">
+            <div className="p-3 rounded-full bg-primary/10">
+              <KeyRound className="h-8 w-8 text-primary" />
+            </div>
+          </div>
+          <CardTitle className="text-2xl">Reset Password</CardTitle>
+          <CardDescription>
+            Enter one of the recovery codes you saved when the account was created. Each code can be
+            used once.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {success ? (
+            <div className="space-y-4">
+              <Alert>
+                <AlertDescription>{success}</AlertDescription>
+              </Alert>
+              <Button className="w-full" onClick={onBack}>
+                Back to Sign In
+              </Button>
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              {error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{error}</AlertDescription>
+                </Alert>
+              )}
+
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input id="username" autoComplete="username" {...register('username')} />
+                {errors.username && (
+                  <p className="text-sm text-destructive">{errors.username.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="code">Recovery Code</Label>
+                <Input
+                  id="code"
+                  placeholder="XXXXX-XXXXX"
+                  autoComplete="off"
+                  className="font-mono uppercase"
+                  {...register('code')}
+                />
+                {errors.code && <p className="text-sm text-destructive">{errors.code.message}</p>}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="newPassword">New Password</Label>
+                <Input
+                  id="newPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  {...register('newPassword')}
+                />
+                {errors.newPassword && (
+                  <p className="text-sm text-destructive">{errors.newPassword.message}</p>
+                )}
+                <PasswordStrengthMeter password={watch('newPassword')} />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">Confirm Password</Label>
+                <Input
+                  id="confirmPassword"
+                  type="password"
+                  autoComplete="new-password"
+                  {...register('confirmPassword')}
+                />
+                {errors.confirmPassword && (
+                  <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>
+                )}
+              </div>
+
+              <Button type="submit" className="w-full" disabled={isSubmitting}>
+                {isSubmitting ? 'Resetting...' : 'Reset Password'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={onBack}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back to Sign In
+              </Button>
+            </form>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from 'react';
+import * as DialogPrimitive from '@radix-ui/react-dialog';
+import { useQueryClient } from '@tanstack/react-query';
+import { Lock, LogOut } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+
+// Full-screen overlay shown while the session is locked. It is a modal dialog
+// so it also takes focus from any dialog that was open when the app locked;
+// the page underneath stays mounted and keeps unsaved form input.
+export function LockScreen() {
+  const { user, lockStatus, unlock, logout } = useAuth();
+  const queryClient = useQueryClient();
+  const [method, setMethod] = useState<'password' | 'pin'>(lockStatus?.hasPin ? 'pin' : 'password');
+  const [secret, setSecret] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+
+  // Re-enable the form once the back-off delay has passed
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const timer = setTimeout(() => setRetryAt(null), Math.max(0, retryAt - Date.now()));
+    return () => clearTimeout(timer);
+  }, [retryAt]);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!secret) return;
+
+    setIsUnlocking(true);
+    setError(null);
+
+    try {
+      const result = await unlock(method === 'pin' ? { pin: secret } : { password: secret });
+
+      if (result.success) {
+        // Anything fetched while locked was refused; load it again
+        queryClient.invalidateQueries();
+      } else {
+        setError(result.message);
+        setSecret('');
+        setRetryAt(result.retryAt || null);
+      }
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const switchMethod = () => {
+    setMethod(method === 'pin' ? 'password' : 'pin');
+    setSecret('');
+    setError(null);
+  };
+
+  return (
+    <DialogPrimitive.Root open>
+      <DialogPrimitive.Portal>
+        <DialogPrimitive.Overlay className="fixed inset-0 z-[100] bg-background/95 backdrop-blur" />
+        <DialogPrimitive.Content
+          className="fixed left-[50%] top-[50%] z-[100] w-full max-w-sm translate-x-[-50%] translate-y-[-50%] space-y-6 rounded-lg border bg-card p-6 shadow-lg"
+          onEscapeKeyDown={(event) => event.preventDefault()}
+          onPointerDownOutside={(event) => event.preventDefault()}
+          onInteractOutside={(event) => event.preventDefault()}
+        >
+          <div className="flex flex-col items-center space-y-2 text-center">
+            <div className="p-3 rounded-full bg-primary/10">
+              <Lock className="h-8 w-8 text-primary" />
+            </div>
+            <DialogPrimitive.Title className="text-2xl font-semibold">Locked</DialogPrimitive.Title>
+            <DialogPrimitive.Description className="text-sm text-muted-foreground">
+              Signed in as {user?.username}. Enter your {method === 'pin' ? 'PIN' : 'password'} to continue.
+            </DialogPrimitive.Description>
+          </div>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="unlock-secret">{method === 'pin' ? 'PIN' : 'Password'}</Label>
+              <Input
+                id="unlock-secret"
+                type="password"
+                inputMode={method === 'pin' ? 'numeric' : undefined}
+                autoComplete="off"
+                autoFocus
+                value={secret}
+                onChange={(event) => setSecret(event.target.value)}
+                disabled={isUnlocking}
+              />
+            </div>
+
+            <Button type="submit" className="w-full" disabled={isUnlocking || !secret || !!retryAt}>
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+
+            <div className="flex justify-between">
+              {lockStatus?.hasPin ? (
+                <Button type="button" variant="link" className="px-0" onClick={switchMethod}>
+                  Use {method === 'pin' ? 'password' : 'PIN'} instead
+                </Button>
+              ) : (
+                <span />
+              )}
+              <Button type="button" variant="ghost" size="sm" onClick={() => logout()}>
+                <LogOut className="h-4 w-4 mr-2" />
+                Sign Out
+              </Button>
+            </div>
+          </form>
+        </DialogPrimitive.Content>
+      </DialogPrimitive.Portal>
+    </DialogPrimitive.Root>
+  );
+}
@@ -1,8 +1,8 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { LogIn, Eye, EyeOff } from 'lucide-react';
+import { LogIn, Eye, EyeOff, Lock, ShieldCheck, ArrowLeft } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -10,6 +10,7 @@ import { Label } from '@/components/ui/label';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { ForgotPasswordPage } from './ForgotPasswordPage';
 
 const loginSchema = z.object({
   username: z.string().min(1, 'Username is required'),
@@ -19,11 +20,23 @@ const loginSchema = z.object({
 
 type LoginFormData = z.infer<typeof loginSchema>;
 
+// 125 -> "2:05"
+const formatCountdown = (seconds: number) =>
+  `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+
 export function LoginPage() {
-  const { login } = useAuth();
+  const { login, verifySecondFactor } = useAuth();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  // Attempts are refused until retryAt; isLocked marks a full lockout
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [isLocked, setIsLocked] = useState(false);
+  const [now, setNow] = useState(Date.now());
+  const [showRecovery, setShowRecovery] = useState(false);
+  // Second step for accounts with two-factor authentication
+  const [needsCode, setNeedsCode] = useState(false);
+  const [code, setCode] = useState('');
 
   const {
     register,
@@ -42,6 +55,35 @@ export function LoginPage() {
 
   const rememberMe = watch('rememberMe');
 
+  // Tick once a second while attempts are throttled
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const timer = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+
+      if (current >= retryAt) {
+        setRetryAt(null);
+        setIsLocked(false);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  const secondsLeft = retryAt ? Math.max(0, Math.ceil((retryAt - now) / 1000)) : 0;
+
+  const handleFailure = (result: { message: string; retryAt?: number; locked?: boolean }) => {
+    setError(result.message);
+
+    if (result.retryAt) {
+      setNow(Date.now());
+      setRetryAt(result.retryAt);
+      setIsLocked(!!result.locked);
+    }
+  };
+
   const onSubmit = async (data: LoginFormData) => {
     setError(null);
     setIsLoading(true);
@@ -49,8 +91,31 @@ export function LoginPage() {
     try {
       const result = await login(data.username, data.password, data.rememberMe);
 
+      if (result.requiresSecondFactor) {
+        setNeedsCode(true);
+        setCode('');
+      } else if (!result.success) {
+        handleFailure(result);
+      }
+    } catch (err) {
+      setError('An unexpected error occurred');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const onSubmitCode = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setError(null);
+    setIsLoading(true);
+
+    try {
+      const result = await verifySecondFactor(code);
+
       if (!result.success) {
-        setError(result.message);
+        // Timed out or locked out: start again from the password step
+        setNeedsCode(!!result.requiresSecondFactor);
+        handleFailure(result);
       }
     } catch (err) {
       setError('An unexpected error occurred');
@@ -59,87 +124,166 @@ export function LoginPage() {
     }
   };
 
+  const backToPassword = () => {
+    setNeedsCode(false);
+    setError(null);
+    setValue('password', '');
+  };
+
+  if (showRecovery) {
+    return <ForgotPasswordPage onBack={() => setShowRecovery(false)} />;
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1 text-center">
           <div className="flex justify-center mb-4">
             <div className="p-3 rounded-full bg-primary/10">
-              <LogIn className="h-8 w-8 text-primary" />
+              {needsCode ? (
+                <ShieldCheck className="h-8 w-8 text-primary" />
+              ) : (
+                <LogIn className="h-8 w-8 text-primary" />
+              )}
             </div>
           </div>
-          <CardTitle className="text-2xl">Welcome Back</CardTitle>
-          <CardDescription>Enter your credentials to access your account</CardDescription>
+          <CardTitle className="text-2xl">
+            {needsCode ? 'Two-Factor Authentication' : 'Welcome Back'}
+          </CardTitle>
+          <CardDescription>
+            {needsCode
+              ? 'Enter the 6-digit code from your authenticator app'
+              : 'Enter your credentials to access your account'}
+          </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
-            {error && (
-              <Alert variant="destructive">
+          {isLocked && secondsLeft > 0 ? (
+            <Alert variant="destructive" className="mb-4">
+              <Lock className="h-4 w-4" />
+              <AlertDescription>
+                Too many failed attempts. Try again in {formatCountdown(secondsLeft)}.
+              </AlertDescription>
+            </Alert>
+          ) : (
+            error && (
+              <Alert variant="destructive" className="mb-4">
                 <AlertDescription>{error}</AlertDescription>
               </Alert>
-            )}
-
-            <div className="space-y-2">
-              <Label htmlFor="username">Username</Label>
-              <Input
-                id="username"
-                type="text"
-                placeholder="Enter your username"
-                autoComplete="username"
-                disabled={isLoading}
-                {...register('username')}
-              />
-              {errors.username && (
-                <p className="text-sm text-destructive">{errors.username.message}</p>
-              )}
-            </div>
+            )
+          )}
 
-            <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
-              <div className="relative">
+          {needsCode ? (
+            <form onSubmit={onSubmitCode} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Authentication Code</Label>
                 <Input
-                  id="password"
-                  type={showPassword ? 'text' : 'password'}
-                  placeholder="Enter your password"
-                  autoComplete="current-password"
+                  id="code"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  placeholder="123456"
+                  autoComplete="one-time-code"
+                  autoFocus
                   disabled={isLoading}
-                  {...register('password')}
+                  className="font-mono"
                 />
-                <Button
-                  type="button"
-                  variant="ghost"
-                  size="sm"
-                  className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
-                  onClick={() => setShowPassword(!showPassword)}
-                >
-                  {showPassword ? (
-                    <EyeOff className="h-4 w-4 text-muted-foreground" />
-                  ) : (
-                    <Eye className="h-4 w-4 text-muted-foreground" />
-                  )}
-                </Button>
+                <p className="text-xs text-muted-foreground">
+                  No access to your authenticator? Enter one of your recovery codes instead.
+                </p>
               </div>
-              {errors.password && (
-                <p className="text-sm text-destructive">{errors.password.message}</p>
-              )}
-            </div>
 
-            <div className="flex items-center space-x-2">
-              <Checkbox
-                id="rememberMe"
-                checked={rememberMe}
-                onCheckedChange={(checked) => setValue('rememberMe', checked === true)}
-                disabled={isLoading}
-              />
-              <Label htmlFor="rememberMe" className="text-sm font-normal cursor-pointer">
-                Remember me for 30 days
-              </Label>
-            </div>
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || !code.trim() || secondsLeft > 0}
+              >
+                {isLoading
+                  ? 'Verifying...'
+                  : secondsLeft > 0
+                    ? `Try again in ${formatCountdown(secondsLeft)}`
+                    : 'Verify'}
+              </Button>
+              <Button type="button" variant="ghost" className="w-full" onClick={backToPassword}>
+                <ArrowLeft className="h-4 w-4 mr-2" />
+                Back
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">Username</Label>
+                <Input
+                  id="username"
+                  type="text"
+                  placeholder="Enter your username"
+                  autoComplete="username"
+                  disabled={isLoading}
+                  {...register('username')}
+                />
+                {errors.username && (
+                  <p className="text-sm text-destructive">{errors.username.message}</p>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">Password</Label>
+                  <button
+                    type="button"
+                    className="text-sm text-muted-foreground hover:text-primary hover:underline"
+                    onClick={() => setShowRecovery(true)}
+                  >
+                    Forgot password?
+                  </button>
+                </div>
+                <div className="relative">
+                  <Input
+                    id="password"
+                    type={showPassword ? 'text' : 'password'}
+                    placeholder="Enter your password"
+                    autoComplete="current-password"
+                    disabled={isLoading}
+                    {...register('password')}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="absolute right-0 top-0 h-full px-3 py-2 hover:bg-transparent"
+                    onClick={() => setShowPassword(!showPassword)}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="h-4 w-4 text-muted-foreground" />
+                    ) : (
+                      <Eye className="h-4 w-4 text-muted-foreground" />
+                    )}
+                  </Button>
+                </div>
+                {errors.password && (
+                  <p className="text-sm text-destructive">{errors.password.message}</p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="rememberMe"
+                  checked={rememberMe}
+                  onCheckedChange={(checked) => setValue('rememberMe', checked === true)}
+                  disabled={isLoading}
+                />
+                <Label htmlFor="rememberMe" className="text-sm font-normal cursor-pointer">
+                  Remember me for 30 days
+                </Label>
+              </div>
 
-            <Button type="submit" className="w-full" disabled={isLoading}>
-              {isLoading ? 'Signing in...' : 'Sign In'}
-            </Button>
-          </form>
+              <Button type="submit" className="w-full" disabled={isLoading || secondsLeft > 0}>
+                {isLoading
+                  ? 'Signing in...'
+                  : secondsLeft > 0
+                    ? `Try again in ${formatCountdown(secondsLeft)}`
+                    : 'Sign In'}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,71 @@
+import { useState, useEffect } from 'react';
+import { Check, X } from 'lucide-react';
+import type { PasswordCheck } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+const strengthLabels = ['Very weak', 'Weak', 'Fair', 'Good', 'Strong'];
+const strengthColors = ['bg-destructive', 'bg-destructive', 'bg-yellow-500', 'bg-green-500', 'bg-green-600'];
+
+interface PasswordStrengthMeterProps {
+  password: string;
+}
+
+// Live strength bar and policy checklist; the policy itself lives in the main process
+export function PasswordStrengthMeter({ password }: PasswordStrengthMeterProps) {
+  const [check, setCheck] = useState<PasswordCheck | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    window.electronAPI.auth
+      .checkPassword(password)
+      .then((result) => {
+        // Ignore answers for text the user has already changed
+        if (!cancelled) setCheck(result);
+      })
+      .catch((error) => console.error('Failed to check password:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [password]);
+
+  if (!check) return null;
+
+  return (
+    <div className="space-y-2">
+      {password && (
+        <div className="flex items-center gap-2">
+          <div className="flex flex-1 gap-1">
+            {[1, 2, 3, 4].map((segment) => (
+              <div
+                key={segment}
+                className={cn(
+                  'h-1.5 flex-1 rounded-full',
+                  check.score >= segment ? strengthColors[check.score] : 'bg-muted'
+                )}
+              />
+            ))}
+          </div>
+          <span className="text-xs text-muted-foreground w-16 text-right">
+            {strengthLabels[check.score]}
+          </span>
+        </div>
+      )}
+      <ul className="space-y-1">
+        {check.requirements.map((requirement) => (
+          <li
+            key={requirement.label}
+            className={cn(
+              'flex items-center gap-1.5 text-xs',
+              requirement.met ? 'text-green-600' : 'text-muted-foreground'
+            )}
+          >
+            {requirement.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+            {requirement.label}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import { Copy, Download } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  username?: string;
+}
+
+// Show freshly generated recovery codes with copy and save-to-file actions
+export function RecoveryCodesList({ codes, username }: RecoveryCodesListProps) {
+  const text = codes.join('\n');
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Recovery codes copied');
+    } catch (error) {
+      toast.error('Failed to copy recovery codes');
+    }
+  };
+
+  const handleDownload = () => {
+    const header = `Recovery codes${username ? ` for ${username}` : ''} (each code works once)\n\n`;
+    const url = URL.createObjectURL(new Blob([header + text + '\n'], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted/50 p-4 font-mono text-sm">
+        {codes.map((code) => (
+          <span key={code}>{code}</span>
+        ))}
+      </div>
+      <div className="flex gap-2">
+        <Button type="button" variant="outline" size="sm" onClick={handleCopy}>
+          <Copy className="h-4 w-4 mr-2" />
+          Copy
+        </Button>
+        <Button type="button" variant="outline" size="sm" onClick={handleDownload}>
+          <Download className="h-4 w-4 mr-2" />
+          Save as File
+        </Button>
+      </div>
+    </div>
+  );
+}
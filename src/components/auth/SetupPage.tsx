@@ -2,13 +2,15 @@ import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { UserPlus, Eye, EyeOff } from 'lucide-react';
+import { UserPlus, Eye, EyeOff, KeyRound } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RecoveryCodesList } from './RecoveryCodesList';
+import { PasswordStrengthMeter } from './PasswordStrengthMeter';
 
 const setupSchema = z
   .object({
@@ -19,7 +21,7 @@ const setupSchema = z
       .regex(/^[a-zA-Z0-9_]+$/, 'Username can only contain letters, numbers, and underscores'),
     password: z
       .string()
-      .min(6, 'Password must be at least 6 characters')
+      .min(1, 'Password is required')
       .max(100, 'Password must be less than 100 characters'),
     confirmPassword: z.string(),
   })
@@ -36,10 +38,14 @@ export function SetupPage() {
   const [isLoading, setIsLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
   const [showConfirmPassword, setShowConfirmPassword] = useState(false);
+  // Shown once after the account is created
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   const {
     register,
     handleSubmit,
+    getValues,
+    watch,
     formState: { errors },
   } = useForm<SetupFormData>({
     resolver: zodResolver(setupSchema),
@@ -60,7 +66,9 @@ export function SetupPage() {
         password: data.password,
       });
 
-      if (result.success) {
+      if (result.success && result.recoveryCodes) {
+        setRecoveryCodes(result.recoveryCodes);
+      } else if (result.success) {
         // Refresh auth state
         await checkSession();
       } else {
@@ -73,6 +81,33 @@ export function SetupPage() {
     }
   };
 
+  if (recoveryCodes) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-background p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1 text-center">
+            <div className="flex justify-center mb-4">
+              <div className="p-3 rounded-full bg-primary/10">
+                <KeyRound className="h-8 w-8 text-primary" />
+              </div>
+            </div>
+            <CardTitle className="text-2xl">Save Your Recovery Codes</CardTitle>
+            <CardDescription>
+              If you forget your password, one of these codes lets you set a new one. Each code works
+              once. Keep them somewhere safe, away from this computer. They will not be shown again.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <RecoveryCodesList codes={recoveryCodes} username={getValues('username')} />
+            <Button className="w-full" onClick={() => checkSession()}>
+              I've Saved My Codes
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background p-4">
       <Card className="w-full max-w-md">
@@ -84,8 +119,8 @@ export function SetupPage() {
           </div>
           <CardTitle className="text-2xl">Create Your Account</CardTitle>
           <CardDescription>
-            Set up your username and password to get started. This will be the only account for this
-            application.
+            Set up your username and password to get started. This first account is the administrator
+            and can add other users later.
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -142,7 +177,7 @@ export function SetupPage() {
               {errors.password && (
                 <p className="text-sm text-destructive">{errors.password.message}</p>
               )}
-              <p className="text-xs text-muted-foreground">Minimum 6 characters</p>
+              <PasswordStrengthMeter password={watch('password')} />
             </div>
 
             <div className="space-y-2">
@@ -0,0 +1,287 @@
+import { useState } from 'react';
+import { ChevronDown, Download, Hash, Trash2, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useBulkDeleteItems, useBulkUpdateItems, useCategories } from '@/hooks/useItems';
+import { useUndo } from '@/hooks/useUndo';
+import type { BulkResult, BulkUpdateData, ItemSelection } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+// Failures listed by name in the toast; the rest are counted
+const FAILURES_SHOWN = 3;
+
+function describeFailures(result: BulkResult) {
+  const more = result.failures.length - FAILURES_SHOWN;
+
+  return (
+    <ul>
+      {result.failures.slice(0, FAILURES_SHOWN).map((failure) => (
+        <li key={failure.id}>
+          {failure.name ?? 'Unknown item'}: {failure.message}
+        </li>
+      ))}
+      {more > 0 && <li>and {more} more</li>}
+    </ul>
+  );
+}
+
+interface BulkActionBarProps {
+  selection: ItemSelection;
+  count: number;
+  canEdit: boolean;
+  onClear: () => void;
+}
+
+export function BulkActionBar({ selection, count, canEdit, onClear }: BulkActionBarProps) {
+  const { data: categories } = useCategories();
+  const bulkUpdate = useBulkUpdateItems();
+  const bulkDelete = useBulkDeleteItems();
+  const { toastWithUndo } = useUndo();
+  const [isQuantityDialogOpen, setIsQuantityDialogOpen] = useState(false);
+  const [quantityDelta, setQuantityDelta] = useState('');
+  const [isDeleteDialogOpen, setIsDeleteDialogOpen] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const isBusy = bulkUpdate.isPending || bulkDelete.isPending;
+  const countLabel = count === 1 ? '1 item' : `${count} items`;
+  const delta = Number(quantityDelta);
+  const isDeltaValid = quantityDelta.trim() !== '' && Number.isInteger(delta) && delta !== 0;
+
+  const showResult = (result: BulkResult) => {
+    if (result.success) {
+      toastWithUndo(result.message, result.undoId);
+    } else {
+      toast.error(result.message);
+    }
+
+    if (result.failures.length > 0) {
+      toast.warning(
+        result.failures.length === 1
+          ? '1 item was skipped'
+          : `${result.failures.length} items were skipped`,
+        { description: describeFailures(result) }
+      );
+    }
+  };
+
+  const handleUpdate = async (data: BulkUpdateData) => {
+    try {
+      showResult(await bulkUpdate.mutateAsync({ selection, data }));
+    } catch (error) {
+      toast.error('Failed to update items');
+    }
+  };
+
+  const handleAdjustQuantity = async () => {
+    if (!isDeltaValid) return;
+
+    await handleUpdate({ quantityDelta: delta });
+    setIsQuantityDialogOpen(false);
+    setQuantityDelta('');
+  };
+
+  const handleDelete = async () => {
+    try {
+      const result = await bulkDelete.mutateAsync(selection);
+      showResult(result);
+
+      if (result.success) {
+        onClear();
+      }
+    } catch (error) {
+      toast.error('Failed to delete items');
+    } finally {
+      setIsDeleteDialogOpen(false);
+    }
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.items.exportCsv(selection);
+
+      if (result.success) {
+        toast.success(result.message);
+      } else if (result.message !== 'Export cancelled') {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to export items');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-md border bg-muted/50 px-3 py-2">
+      <span className="mr-2 text-sm font-medium">{countLabel} selected</span>
+
+      {canEdit && (
+        <>
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isBusy}>
+                Status
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onSelect={() => handleUpdate({ status: 'active' })}>
+                Set active
+              </DropdownMenuItem>
+              <DropdownMenuItem onSelect={() => handleUpdate({ status: 'inactive' })}>
+                Set inactive
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="outline" size="sm" disabled={isBusy}>
+                Move to
+                <ChevronDown className="h-4 w-4 ml-2" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent className="max-h-72 overflow-y-auto">
+              {categories?.map((cat) => (
+                <DropdownMenuItem key={cat.id} onSelect={() => handleUpdate({ category_id: cat.id })}>
+                  {cat.name}
+                </DropdownMenuItem>
+              ))}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onSelect={() => handleUpdate({ category_id: '' })}>
+                No category
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={isBusy}
+            onClick={() => setIsQuantityDialogOpen(true)}
+          >
+            <Hash className="h-4 w-4 mr-2" />
+            Adjust Quantity
+          </Button>
+        </>
+      )}
+
+      <Button variant="outline" size="sm" disabled={isExporting} onClick={handleExport}>
+        <Download className="h-4 w-4 mr-2" />
+        {isExporting ? 'Exporting...' : 'Export'}
+      </Button>
+
+      {canEdit && (
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isBusy}
+          onClick={() => setIsDeleteDialogOpen(true)}
+        >
+          <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+          Delete
+        </Button>
+      )}
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="h-4 w-4 mr-2" />
+        Clear
+      </Button>
+
+      {/* Adjust Quantity Dialog */}
+      <Dialog
+        open={isQuantityDialogOpen}
+        onOpenChange={(open) => {
+          setIsQuantityDialogOpen(open);
+          if (!open) setQuantityDelta('');
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Adjust Quantity</DialogTitle>
+            <DialogDescription>
+              Add to or subtract from the quantity of {countLabel}. Items that would drop below 0
+              are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAdjustQuantity();
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="quantityDelta">Change by</Label>
+              <Input
+                id="quantityDelta"
+                type="number"
+                step="1"
+                value={quantityDelta}
+                onChange={(e) => setQuantityDelta(e.target.value)}
+                placeholder="e.g. 5 or -2"
+                autoFocus
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setIsQuantityDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={!isDeltaValid || bulkUpdate.isPending}>
+                {bulkUpdate.isPending ? 'Applying...' : 'Apply'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Bulk Delete Confirmation Dialog */}
+      <AlertDialog open={isDeleteDialogOpen} onOpenChange={setIsDeleteDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {countLabel}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Move {count === 1 ? 'this item' : `these ${count} items`} to the trash? You can
+              restore them from the Trash page.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,30 @@
+// Must match SEARCH_HIGHLIGHT in electron/database/items.ts
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_END = '\u0003';
+
+interface HighlightedTextProps {
+  text: string;
+  className?: string;
+}
+
+// Renders search-result text with the matched terms in <mark>
+export function HighlightedText({ text, className }: HighlightedTextProps) {
+  const parts = text.split(HIGHLIGHT_START);
+
+  return (
+    <span className={className}>
+      {parts[0]}
+      {parts.slice(1).map((part, i) => {
+        const [match, rest = ''] = part.split(HIGHLIGHT_END);
+        return (
+          <span key={i}>
+            <mark className="rounded-sm bg-yellow-200 px-0.5 text-foreground dark:bg-yellow-500/40">
+              {match}
+            </mark>
+            {rest}
+          </span>
+        );
+      })}
+    </span>
+  );
+}
@@ -0,0 +1,464 @@
+import { useMemo, useState } from 'react';
+import { FileSpreadsheet, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { useImportItems } from '@/hooks/useItems';
+import { createItemSchema } from '@/lib/schemas';
+import type {
+  ImportMatchKey,
+  ImportResult,
+  ImportRow,
+  ImportRowOutcome,
+  ImportSheet,
+  ImportSheetRow,
+} from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+type ImportField = 'id' | 'name' | 'description' | 'category' | 'quantity' | 'status';
+
+// Column index for each field, or null when the field is not imported
+type ColumnMapping = Record<ImportField, number | null>;
+
+type Step = 'file' | 'map' | 'preview';
+
+// Header names recognised for each field, compared without case or punctuation
+const FIELDS: { field: ImportField; label: string; aliases: string[] }[] = [
+  { field: 'name', label: 'Name', aliases: ['name', 'itemname', 'item', 'product', 'title'] },
+  { field: 'description', label: 'Description', aliases: ['description', 'desc', 'details', 'notes'] },
+  { field: 'category', label: 'Category', aliases: ['category', 'categoryname', 'group', 'type'] },
+  { field: 'quantity', label: 'Quantity', aliases: ['quantity', 'qty', 'stock', 'count', 'onhand'] },
+  { field: 'status', label: 'Status', aliases: ['status', 'state'] },
+  { field: 'id', label: 'ID', aliases: ['id', 'itemid'] },
+];
+
+const FIELD_LABELS: Record<string, string> = Object.fromEntries(
+  FIELDS.map(({ field, label }) => [field, label])
+);
+
+const MATCH_OPTIONS: { value: ImportMatchKey; label: string }[] = [
+  { value: 'none', label: 'Always add new items' },
+  { value: 'name', label: 'Update items with the same name' },
+  { value: 'id', label: 'Update items with the same ID' },
+];
+
+const ACTION_LABELS: Record<ImportRowOutcome['action'], string> = {
+  create: 'New',
+  update: 'Update',
+  unchanged: 'Unchanged',
+  error: 'Error',
+};
+
+// Rows shown in the preview table; the summary covers every row
+const PREVIEW_LIMIT = 500;
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function guessMapping(headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const used = new Set<number>();
+  const mapping = {} as ColumnMapping;
+
+  for (const { field, aliases } of FIELDS) {
+    const index = aliases
+      .map((alias) => normalized.findIndex((header, i) => header === alias && !used.has(i)))
+      .find((i) => i !== -1);
+
+    mapping[field] = index ?? null;
+    if (index !== undefined) used.add(index);
+  }
+
+  return mapping;
+}
+
+// Check each row against the Add Item schema. Blank cells are left out, so
+// updates keep the item's current value and new items get the defaults.
+function mapRows(
+  rows: ImportSheetRow[],
+  mapping: ColumnMapping,
+  matchBy: ImportMatchKey
+): { valid: ImportRow[]; invalid: ImportRowOutcome[] } {
+  const valid: ImportRow[] = [];
+  const invalid: ImportRowOutcome[] = [];
+
+  for (const { row, cells } of rows) {
+    const cell = (field: ImportField) => {
+      const index = mapping[field];
+      return index === null ? '' : cells[index] ?? '';
+    };
+    const quantity = cell('quantity');
+    const status = cell('status').toLowerCase();
+    const parsed = createItemSchema.safeParse({
+      name: cell('name'),
+      description: cell('description') || undefined,
+      quantity: quantity === '' ? 0 : quantity,
+      status: status || 'active',
+    });
+
+    if (!parsed.success) {
+      invalid.push({
+        row,
+        action: 'error',
+        message: parsed.error.issues
+          .map((issue) => `${FIELD_LABELS[String(issue.path[0])] ?? issue.path[0]}: ${issue.message}`)
+          .join('; '),
+      });
+      continue;
+    }
+
+    valid.push({
+      row,
+      id: matchBy === 'id' ? cell('id') || undefined : undefined,
+      name: parsed.data.name,
+      description: parsed.data.description,
+      category: cell('category') || undefined,
+      quantity: quantity === '' ? undefined : parsed.data.quantity,
+      status: status ? parsed.data.status : undefined,
+    });
+  }
+
+  return { valid, invalid };
+}
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportDialog({ open, onOpenChange }: ImportDialogProps) {
+  const importItems = useImportItems();
+  const [step, setStep] = useState<Step>('file');
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+  const [matchBy, setMatchBy] = useState<ImportMatchKey>('none');
+  const [preview, setPreview] = useState<ImportResult | null>(null);
+  const [errorsOnly, setErrorsOnly] = useState(false);
+  const [isReading, setIsReading] = useState(false);
+
+  const mapped = useMemo(
+    () => (sheet && mapping ? mapRows(sheet.rows, mapping, matchBy) : null),
+    [sheet, mapping, matchBy]
+  );
+
+  // Rows the schema rejected plus the dry run's outcome for the rest, in file order
+  const previewRows = useMemo(() => {
+    if (!sheet || !mapped || !preview) return [];
+
+    const names = new Map(mapped.valid.map((row) => [row.row, row.name]));
+    const nameIndex = mapping?.name ?? null;
+    const cellsByRow = new Map(sheet.rows.map((row) => [row.row, row.cells]));
+
+    return [...mapped.invalid, ...preview.rows]
+      .sort((a, b) => a.row - b.row)
+      .map((outcome) => ({
+        ...outcome,
+        name:
+          names.get(outcome.row) ??
+          (nameIndex !== null ? cellsByRow.get(outcome.row)?.[nameIndex] : undefined) ??
+          '',
+      }));
+  }, [sheet, mapped, mapping, preview]);
+
+  const shownRows = (errorsOnly ? previewRows.filter((row) => row.action === 'error') : previewRows).slice(
+    0,
+    PREVIEW_LIMIT
+  );
+  const countOf = (action: ImportRowOutcome['action']) =>
+    previewRows.filter((row) => row.action === action).length;
+  const errorCount = countOf('error');
+  const mappingError = !mapping
+    ? null
+    : mapping.name === null
+      ? 'Choose the column that holds the item name'
+      : matchBy === 'id' && mapping.id === null
+        ? 'Choose the column that holds the item ID'
+        : null;
+
+  const reset = () => {
+    setStep('file');
+    setSheet(null);
+    setMapping(null);
+    setMatchBy('none');
+    setPreview(null);
+    setErrorsOnly(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleChooseFile = async () => {
+    setIsReading(true);
+    try {
+      const result = await window.electronAPI.items.pickImportFile();
+
+      if (result.success && result.sheet) {
+        setSheet(result.sheet);
+        setMapping(guessMapping(result.sheet.headers));
+        setStep('map');
+      } else if (result.message !== 'Import cancelled') {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to read the file');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const runImport = async (dryRun: boolean) => {
+    if (!mapped || !sheet) return;
+
+    try {
+      const result = await importItems.mutateAsync({
+        rows: mapped.valid,
+        matchBy,
+        dryRun,
+        fileName: sheet.fileName,
+      });
+
+      if (!result.success) {
+        toast.error(result.message);
+      } else if (dryRun) {
+        setPreview(result);
+        setStep('preview');
+      } else {
+        toast.success(result.message);
+        if (mapped.invalid.length > 0) {
+          toast.warning(
+            mapped.invalid.length === 1
+              ? '1 invalid row was not imported'
+              : `${mapped.invalid.length} invalid rows were not imported`
+          );
+        }
+        handleOpenChange(false);
+      }
+    } catch (error) {
+      toast.error('Failed to import items');
+    }
+  };
+
+  const setColumn = (field: ImportField, value: string) => {
+    setMapping((prev) => prev && { ...prev, [field]: value === 'none' ? null : Number(value) });
+  };
+
+  const sampleRow = sheet?.rows[0]?.cells ?? [];
+  const willChange = preview
+    ? preview.created + preview.updated + preview.categoriesAdded.length > 0
+    : false;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-3xl">
+        <DialogHeader>
+          <DialogTitle>Import Items</DialogTitle>
+          <DialogDescription>
+            {step === 'file' && 'Add or update items from a CSV or Excel (.xlsx) file.'}
+            {step === 'map' &&
+              sheet &&
+              `${sheet.fileName}: ${sheet.rows.length} rows. Choose which column holds each field.`}
+            {step === 'preview' && 'Nothing has been saved yet. Check the rows, then import.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'file' && (
+          <div className="flex flex-col items-center justify-center gap-4 rounded-md border border-dashed py-12 text-center">
+            <FileSpreadsheet className="h-12 w-12 text-muted-foreground opacity-50" />
+            <p className="max-w-sm text-sm text-muted-foreground">
+              The first row should hold the column names. Only the first sheet of an Excel file
+              is read.
+            </p>
+            <Button onClick={handleChooseFile} disabled={isReading}>
+              <Upload className="h-4 w-4 mr-2" />
+              {isReading ? 'Reading...' : 'Choose File'}
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && sheet && mapping && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Existing items</Label>
+              <Select value={matchBy} onValueChange={(value) => setMatchBy(value as ImportMatchKey)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MATCH_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              {FIELDS.filter(({ field }) => field !== 'id' || matchBy === 'id').map(
+                ({ field, label }) => {
+                  const index = mapping[field];
+
+                  return (
+                    <div key={field} className="space-y-2">
+                      <Label>
+                        {label}
+                        {(field === 'name' || field === 'id') && ' *'}
+                      </Label>
+                      <Select
+                        value={index === null ? 'none' : String(index)}
+                        onValueChange={(value) => setColumn(field, value)}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">Don't import</SelectItem>
+                          {sheet.headers.map((header, i) => (
+                            <SelectItem key={i} value={String(i)}>
+                              {header}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="truncate text-xs text-muted-foreground">
+                        {index !== null && sampleRow[index] ? `e.g. ${sampleRow[index]}` : '\u00a0'}
+                      </p>
+                    </div>
+                  );
+                }
+              )}
+            </div>
+
+            <p className="text-sm text-muted-foreground">
+              Missing categories are created. Blank cells keep an item's current value when it is
+              updated.
+            </p>
+            {mappingError && <p className="text-sm text-destructive">{mappingError}</p>}
+          </div>
+        )}
+
+        {step === 'preview' && preview && (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <p className="font-medium">
+                {countOf('create')} new, {countOf('update')} updated, {countOf('unchanged')} unchanged,{' '}
+                {errorCount} with errors
+              </p>
+              {errorCount > 0 && (
+                <p className="text-muted-foreground">Rows with errors are skipped.</p>
+              )}
+              {preview.categoriesAdded.length > 0 && (
+                <p className="text-muted-foreground">
+                  New categories: {preview.categoriesAdded.join(', ')}
+                </p>
+              )}
+            </div>
+
+            {errorCount > 0 && (
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="errorsOnly"
+                  checked={errorsOnly}
+                  onCheckedChange={(checked) => setErrorsOnly(checked === true)}
+                />
+                <Label htmlFor="errorsOnly" className="cursor-pointer text-sm font-normal">
+                  Only show rows with errors ({errorCount})
+                </Label>
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-auto rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead className="w-28">Result</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shownRows.map((row) => (
+                    <TableRow key={row.row}>
+                      <TableCell className="text-muted-foreground">{row.row}</TableCell>
+                      <TableCell>
+                        <span className="font-medium">{row.name || '-'}</span>
+                        {row.message && (
+                          <span className="block text-xs text-destructive">{row.message}</span>
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <Badge
+                          variant={
+                            row.action === 'error'
+                              ? 'destructive'
+                              : row.action === 'unchanged'
+                                ? 'outline'
+                                : 'secondary'
+                          }
+                        >
+                          {ACTION_LABELS[row.action]}
+                        </Badge>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            {shownRows.length === PREVIEW_LIMIT && (
+              <p className="text-xs text-muted-foreground">Showing the first {PREVIEW_LIMIT} rows</p>
+            )}
+          </div>
+        )}
+
+        {step !== 'file' && (
+          <DialogFooter>
+            <Button
+              variant="outline"
+              onClick={() => (step === 'preview' ? setStep('map') : reset())}
+              disabled={importItems.isPending}
+            >
+              Back
+            </Button>
+            {step === 'map' ? (
+              <Button onClick={() => runImport(true)} disabled={!!mappingError || importItems.isPending}>
+                {importItems.isPending ? 'Checking...' : 'Preview'}
+              </Button>
+            ) : (
+              <Button onClick={() => runImport(false)} disabled={!willChange || importItems.isPending}>
+                {importItems.isPending ? 'Importing...' : 'Import'}
+              </Button>
+            )}
+          </DialogFooter>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from 'react';
+import { History, RotateCcw, Eye, EyeOff } from 'lucide-react';
+import { toast } from 'sonner';
+import { useItemHistory, useRestoreItemVersion } from '@/hooks/useItems';
+import { useUndo } from '@/hooks/useUndo';
+import { useAuth } from '@/contexts/AuthContext';
+import type { ItemVersion } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const fieldLabels: Record<string, string> = {
+  name: 'Name',
+  description: 'Description',
+  category_name: 'Category',
+  quantity: 'Quantity',
+  status: 'Status',
+};
+
+const operationLabels: Record<ItemVersion['operation'], string> = {
+  create: 'Created',
+  update: 'Edited',
+  trash: 'Moved to trash',
+  restore: 'Restored from trash',
+  delete: 'Deleted',
+};
+
+function formatValue(value: unknown): string {
+  return value === null || value === undefined || value === '' ? '—' : String(value);
+}
+
+// The item as it was at this version
+function VersionSnapshot({ version }: { version: ItemVersion }) {
+  return (
+    <dl className="grid grid-cols-2 gap-2 rounded-md bg-muted/50 p-3 text-sm">
+      {Object.keys(fieldLabels).map((field) => (
+        <div key={field}>
+          <dt className="text-muted-foreground">{fieldLabels[field]}</dt>
+          <dd className="break-words">{formatValue(version[field as keyof ItemVersion])}</dd>
+        </div>
+      ))}
+    </dl>
+  );
+}
+
+interface ItemHistoryPanelProps {
+  itemId: string;
+}
+
+export function ItemHistoryPanel({ itemId }: ItemHistoryPanelProps) {
+  const { can } = useAuth();
+  const canEdit = can('data:write');
+  const { data: versions, isLoading } = useItemHistory(itemId);
+  const restoreVersion = useRestoreItemVersion();
+  const { toastWithUndo } = useUndo();
+  const [expanded, setExpanded] = useState<number | null>(null);
+  const [versionToRestore, setVersionToRestore] = useState<ItemVersion | null>(null);
+
+  const handleRestore = async () => {
+    if (!versionToRestore) return;
+
+    try {
+      const result = await restoreVersion.mutateAsync({ id: itemId, version: versionToRestore.version });
+
+      if (result.success) {
+        toastWithUndo(result.message, result.undoId);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to restore version');
+    } finally {
+      setVersionToRestore(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>History</CardTitle>
+        <CardDescription>Every saved version of this item, newest first</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-3">
+            {[...Array(3)].map((_, i) => (
+              <Skeleton key={i} className="h-16 w-full" />
+            ))}
+          </div>
+        ) : versions && versions.length > 0 ? (
+          <ol className="space-y-3">
+            {versions.map((version, index) => {
+              const isCurrent = index === 0;
+              const isExpanded = expanded === version.version;
+
+              return (
+                <li key={version.id} className="rounded-md border p-4 space-y-3">
+                  <div className="flex flex-wrap items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Badge variant="outline">v{version.version}</Badge>
+                      <span className="font-medium">{operationLabels[version.operation]}</span>
+                      <span className="text-sm text-muted-foreground">
+                        by {version.changed_by_name || 'System'} ·{' '}
+                        {new Date(`${version.changed_at}Z`).toLocaleString()}
+                      </span>
+                      {isCurrent && <Badge>Current</Badge>}
+                    </div>
+                    <div className="flex gap-2">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setExpanded(isExpanded ? null : version.version)}
+                      >
+                        {isExpanded ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
+                        {isExpanded ? 'Hide' : 'View'}
+                      </Button>
+                      {canEdit && !isCurrent && version.operation !== 'delete' && (
+                        <Button variant="outline" size="sm" onClick={() => setVersionToRestore(version)}>
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {Object.keys(version.changes).length > 0 && (
+                    <ul className="space-y-1 text-sm">
+                      {Object.entries(version.changes).map(([field, change]) => (
+                        <li key={field}>
+                          <span className="font-medium">{fieldLabels[field] || field}:</span>{' '}
+                          {version.operation !== 'create' && (
+                            <>
+                              <span className="text-muted-foreground line-through">
+                                {formatValue(change.from)}
+                              </span>{' '}
+                              →{' '}
+                            </>
+                          )}
+                          {formatValue(change.to)}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+
+                  {isExpanded && <VersionSnapshot version={version} />}
+                </li>
+              );
+            })}
+          </ol>
+        ) : (
+          <div className="flex flex-col items-center justify-center py-8 text-muted-foreground">
+            <History className="h-12 w-12 mb-4 opacity-50" />
+            <p>No history recorded for this item</p>
+          </div>
+        )}
+      </CardContent>
+
+      {/* Restore Confirmation Dialog */}
+      <AlertDialog open={!!versionToRestore} onOpenChange={() => setVersionToRestore(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Version</AlertDialogTitle>
+            <AlertDialogDescription>
+              Put this item back the way it was at version {versionToRestore?.version}? The restore is
+              saved as a new version, so nothing is lost.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleRestore}>Restore</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
@@ -1,30 +1,36 @@
 import { NavLink, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Package, Settings, LogOut, Menu, X } from 'lucide-react';
+import { Package, LogOut, Lock, Menu, X, Search } from 'lucide-react';
 import { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useIdleTimer } from '@/hooks/useIdleTimer';
+import { useUndoShortcuts } from '@/hooks/useUndo';
+import { LockScreen } from '@/components/auth/LockScreen';
+import { CommandPalette } from '@/components/layout/CommandPalette';
+import { navigation } from '@/components/layout/navigation';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
 import { cn } from '@/lib/utils';
 
-const navigation = [
-  { href: '/', label: 'Dashboard', icon: LayoutDashboard },
-  { href: '/items', label: 'Items', icon: Package },
-  { href: '/settings', label: 'Settings', icon: Settings },
-];
-
 interface AppLayoutProps {
   children: React.ReactNode;
 }
 
 export function AppLayout({ children }: AppLayoutProps) {
-  const { logout, user } = useAuth();
+  const { logout, user, isLocked, lock, lockStatus, can } = useAuth();
   const location = useLocation();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
+  const [paletteOpen, setPaletteOpen] = useState(false);
+  const visibleNavigation = navigation.filter((item) => !item.permission || can(item.permission));
 
   const handleLogout = async () => {
     await logout();
   };
 
+  // Lock after the configured idle time (AppConfig.auth.idleLockMinutes)
+  const idleLockMinutes = lockStatus?.idleLockMinutes || 0;
+  useIdleTimer(idleLockMinutes * 60 * 1000, lock, !isLocked && idleLockMinutes > 0);
+  useUndoShortcuts(!isLocked && can('data:write'));
+
   return (
     <div className="min-h-screen bg-background">
       {/* Mobile header */}
@@ -63,9 +69,26 @@ export function AppLayout({ children }: AppLayoutProps) {
             <span className="font-bold text-lg">My Business App</span>
           </div>
 
+          {/* Command palette */}
+          <div className="px-4 pt-4">
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full justify-start text-muted-foreground"
+              onClick={() => {
+                setMobileMenuOpen(false);
+                setPaletteOpen(true);
+              }}
+            >
+              <Search className="h-4 w-4 mr-2" />
+              Search...
+              <kbd className="ml-auto rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+            </Button>
+          </div>
+
           {/* Navigation */}
           <nav className="flex-1 px-4 py-4 space-y-1">
-            {navigation.map((item) => {
+            {visibleNavigation.map((item) => {
               const Icon = item.icon;
               const isActive = location.pathname === item.href;
 
@@ -100,6 +123,15 @@ export function AppLayout({ children }: AppLayoutProps) {
                 <p className="text-sm font-medium truncate">{user?.username || 'User'}</p>
               </div>
             </div>
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full justify-start mb-2"
+              onClick={() => lock()}
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              Lock
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -117,6 +149,11 @@ export function AppLayout({ children }: AppLayoutProps) {
       <main className="lg:pl-64">
         <div className="p-6 lg:p-8">{children}</div>
       </main>
+
+      <CommandPalette open={paletteOpen} onOpenChange={setPaletteOpen} enabled={!isLocked} />
+
+      {/* Lock screen covers the page without unmounting it */}
+      {isLocked && <LockScreen />}
     </div>
   );
 }
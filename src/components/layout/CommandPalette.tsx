@@ -0,0 +1,272 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Package, Tag, Plus, Upload, HardDrive, Lock, History, Search } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { useGlobalSearch, useRecordOpen } from '@/hooks/useSearch';
+import { navigation } from '@/components/layout/navigation';
+import { Dialog, DialogContent, DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import type { SearchResult } from '@/lib/types';
+
+type EntryGroup = 'Recent' | 'Items' | 'Categories' | 'Navigation' | 'Actions';
+
+interface PaletteEntry {
+  key: string;
+  group: EntryGroup;
+  label: string;
+  detail?: string | null;
+  icon: typeof Package;
+  run: () => void;
+}
+
+// Wait for typing to pause before searching
+const SEARCH_DELAY_MS = 150;
+
+function matches(label: string, query: string): boolean {
+  return label.toLowerCase().includes(query.trim().toLowerCase());
+}
+
+interface CommandPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Ctrl+K (Cmd+K on macOS) only opens the palette while enabled
+  enabled: boolean;
+}
+
+export function CommandPalette({ open, onOpenChange, enabled }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { can, lock } = useAuth();
+  const recordOpen = useRecordOpen();
+  const [query, setQuery] = useState('');
+  const [debouncedQuery, setDebouncedQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const { data: results } = useGlobalSearch(debouncedQuery, open && can('data:read'));
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && !event.altKey && event.key.toLowerCase() === 'k') {
+        event.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled, open, onOpenChange]);
+
+  // Start fresh each time the palette opens
+  useEffect(() => {
+    if (open) {
+      setQuery('');
+      setDebouncedQuery('');
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const entries = useMemo(() => {
+    const close = (action: () => void) => () => {
+      onOpenChange(false);
+      action();
+    };
+
+    const toEntry = (result: SearchResult): PaletteEntry => ({
+      key: `${result.type}:${result.id}`,
+      group: result.opened_at ? 'Recent' : result.type === 'item' ? 'Items' : 'Categories',
+      label: result.label,
+      detail: result.detail,
+      icon: result.type === 'item' ? Package : Tag,
+      run: close(() => {
+        if (result.type === 'item') {
+          // ItemDetail records the visit itself
+          navigate(`/items/${result.id}`);
+        } else {
+          recordOpen('category', result.id);
+          navigate(`/items?category=${encodeURIComponent(result.id)}`);
+        }
+      }),
+    });
+
+    const navigationEntries: PaletteEntry[] = navigation
+      .filter((item) => !item.permission || can(item.permission))
+      .map((item) => ({
+        key: `nav:${item.href}`,
+        group: 'Navigation',
+        label: `Go to ${item.label}`,
+        icon: item.icon,
+        run: close(() => navigate(item.href)),
+      }));
+
+    const actionEntries: PaletteEntry[] = [];
+
+    if (can('data:write')) {
+      actionEntries.push({
+        key: 'action:new-item',
+        group: 'Actions',
+        label: 'New Item',
+        icon: Plus,
+        run: close(() => navigate('/items?new=1')),
+      });
+      actionEntries.push({
+        key: 'action:import-items',
+        group: 'Actions',
+        label: 'Import Items',
+        icon: Upload,
+        run: close(() => navigate('/items?import=1')),
+      });
+    }
+
+    if (can('backup:manage')) {
+      actionEntries.push({
+        key: 'action:backup',
+        group: 'Actions',
+        label: 'Create Backup',
+        icon: HardDrive,
+        run: close(async () => {
+          try {
+            const result = await window.electronAPI.backup.create();
+
+            if (result.success) {
+              toast.success(result.message);
+            } else {
+              toast.error(result.message);
+            }
+          } catch (error) {
+            toast.error('Failed to create backup');
+          }
+        }),
+      });
+    }
+
+    actionEntries.push({
+      key: 'action:lock',
+      group: 'Actions',
+      label: 'Lock App',
+      icon: Lock,
+      run: close(() => lock()),
+    });
+
+    const records = (results ?? []).map(toEntry);
+    const commands = [...navigationEntries, ...actionEntries].filter((entry) =>
+      matches(entry.label, debouncedQuery)
+    );
+
+    return [...records, ...commands];
+  }, [results, debouncedQuery, can, lock, navigate, onOpenChange, recordOpen]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [entries]);
+
+  // Keep the highlighted entry in view while moving with the arrow keys
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-index="${activeIndex}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [activeIndex]);
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    if (entries.length === 0) return;
+
+    if (event.key === 'ArrowDown') {
+      event.preventDefault();
+      setActiveIndex((index) => (index + 1) % entries.length);
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault();
+      setActiveIndex((index) => (index - 1 + entries.length) % entries.length);
+    } else if (event.key === 'Home') {
+      event.preventDefault();
+      setActiveIndex(0);
+    } else if (event.key === 'End') {
+      event.preventDefault();
+      setActiveIndex(entries.length - 1);
+    } else if (event.key === 'Enter') {
+      event.preventDefault();
+      entries[activeIndex]?.run();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl gap-0 overflow-hidden p-0 [&>button]:hidden">
+        <DialogTitle className="sr-only">Command Palette</DialogTitle>
+
+        <div className="flex items-center border-b px-3">
+          <Search className="h-4 w-4 shrink-0 text-muted-foreground" />
+          <input
+            autoFocus
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder="Search items and categories, or type a command..."
+            className="flex h-12 w-full bg-transparent px-3 text-sm outline-none placeholder:text-muted-foreground"
+            role="combobox"
+            aria-expanded="true"
+            aria-controls="command-palette-list"
+            aria-activedescendant={entries[activeIndex] ? `command-palette-${activeIndex}` : undefined}
+          />
+        </div>
+
+        <div
+          ref={listRef}
+          id="command-palette-list"
+          role="listbox"
+          className="max-h-[360px] overflow-y-auto p-2"
+        >
+          {entries.length === 0 ? (
+            <p className="py-6 text-center text-sm text-muted-foreground">No results found</p>
+          ) : (
+            entries.map((entry, index) => {
+              const Icon = entry.group === 'Recent' ? History : entry.icon;
+              const showGroup = index === 0 || entries[index - 1].group !== entry.group;
+
+              return (
+                <div key={entry.key}>
+                  {showGroup && (
+                    <p className="px-2 pb-1 pt-2 text-xs font-medium text-muted-foreground">
+                      {entry.group}
+                    </p>
+                  )}
+                  <div
+                    id={`command-palette-${index}`}
+                    data-index={index}
+                    role="option"
+                    aria-selected={index === activeIndex}
+                    className={cn(
+                      'flex cursor-pointer items-center gap-3 rounded-md px-2 py-2 text-sm',
+                      index === activeIndex && 'bg-accent text-accent-foreground'
+                    )}
+                    onMouseMove={() => setActiveIndex(index)}
+                    onClick={entry.run}
+                  >
+                    <Icon className="h-4 w-4 shrink-0 text-muted-foreground" />
+                    <span className="truncate">{entry.label}</span>
+                    {entry.detail && (
+                      <span className="ml-auto shrink-0 text-xs text-muted-foreground">
+                        {entry.detail}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="flex gap-4 border-t px-3 py-2 text-xs text-muted-foreground">
+          <span>↑↓ to move</span>
+          <span>Enter to open</span>
+          <span>Esc to close</span>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
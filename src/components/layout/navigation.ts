@@ -0,0 +1,26 @@
+import { LayoutDashboard, Package, ScrollText, Settings, Trash2, type LucideIcon } from 'lucide-react';
+import { AppConfig, type NavigationIcon } from '../../../app.config';
+import type { Permission } from '@/lib/types';
+
+export interface NavigationEntry {
+  href: string;
+  label: string;
+  icon: LucideIcon;
+  permission?: Permission;
+}
+
+// Imported one by one so only these icons are bundled; every NavigationIcon needs an entry
+const NAVIGATION_ICONS: Record<NavigationIcon, LucideIcon> = {
+  LayoutDashboard,
+  Package,
+  ScrollText,
+  Settings,
+  Trash2,
+};
+
+// Built from AppConfig.navigation and shown in the sidebar and the command palette.
+// Entries with a permission are hidden from users who lack it.
+export const navigation: NavigationEntry[] = AppConfig.navigation.map((entry) => ({
+  ...entry,
+  icon: NAVIGATION_ICONS[entry.icon],
+}));
@@ -0,0 +1,146 @@
+import { useState } from 'react';
+import { FolderPlus, Trash2, SlidersHorizontal, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { BackupDestination, RetentionPolicy } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { RetentionDialog } from '@/components/settings/RetentionDialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+interface BackupDestinationsPanelProps {
+  destinations: BackupDestination[];
+  // Reload BackupInfo after a change
+  onChange: () => void;
+}
+
+const formatRetention = ({ hourly, daily, weekly, monthly }: RetentionPolicy) =>
+  `${hourly}h / ${daily}d / ${weekly}w / ${monthly}m`;
+
+export function BackupDestinationsPanel({ destinations, onChange }: BackupDestinationsPanelProps) {
+  const [editing, setEditing] = useState<BackupDestination | null>(null);
+
+  const failing = destinations.filter((destination) => destination.failing);
+
+  const handleAdd = async () => {
+    const result = await window.electronAPI.backup.addDestination();
+
+    if (result.success) {
+      toast.success(result.message);
+      onChange();
+    } else if (result.message !== 'Cancelled') {
+      toast.error(result.message);
+    }
+  };
+
+  const handleRemove = async (destination: BackupDestination) => {
+    const result = await window.electronAPI.backup.removeDestination(destination.id);
+
+    if (result.success) {
+      toast.success(result.message);
+      onChange();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  const handleRetention = async (retention: RetentionPolicy) => {
+    if (!editing) return;
+
+    const result = await window.electronAPI.backup.updateDestination(editing.id, retention);
+
+    if (result.success) {
+      toast.success(result.message);
+      setEditing(null);
+      onChange();
+    } else {
+      toast.error(result.message);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-medium">Backup Destinations</h3>
+        <p className="text-sm text-muted-foreground">
+          Automatic backups are also copied to these folders, such as a network drive or external disk.
+        </p>
+      </div>
+
+      {failing.length > 0 && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Backups are not reaching{' '}
+            {failing.map((destination) => destination.path).join(', ')}. Check that the{' '}
+            {failing.length === 1 ? 'folder is' : 'folders are'} connected and writable.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {destinations.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Folder</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Copy</TableHead>
+                <TableHead>Retention</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {destinations.map((destination) => (
+                <TableRow key={destination.id}>
+                  <TableCell className="font-mono text-xs">{destination.path}</TableCell>
+                  <TableCell>
+                    {destination.failing ? (
+                      <Badge variant="destructive" title={destination.lastError || 'Folder is not reachable'}>
+                        Failing
+                      </Badge>
+                    ) : (
+                      <Badge variant="outline">{destination.backupCount} backups</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {destination.lastSuccessAt ? new Date(destination.lastSuccessAt).toLocaleString() : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-xs">{formatRetention(destination.retention)}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => setEditing(destination)}>
+                      <SlidersHorizontal className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => handleRemove(destination)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <Button variant="outline" onClick={handleAdd}>
+        <FolderPlus className="h-4 w-4 mr-2" />
+        Add Destination...
+      </Button>
+
+      <RetentionDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        description={`Number of hourly, daily, weekly and monthly backups to keep in ${editing?.path || ''}.`}
+        retention={editing?.retention || { hourly: 0, daily: 0, weekly: 0, monthly: 0 }}
+        onSubmit={handleRetention}
+      />
+    </div>
+  );
+}
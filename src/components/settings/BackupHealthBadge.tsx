@@ -0,0 +1,49 @@
+import type { BackupFile } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+
+const healthLabels: Record<BackupFile['health'], string> = {
+  ok: 'Verified',
+  failed: 'Failed',
+  unverified: 'Unverified',
+};
+
+interface BackupHealthBadgeProps {
+  backup: BackupFile;
+}
+
+// Health of a single backup, with manifest details on hover
+export function BackupHealthBadge({ backup }: BackupHealthBadgeProps) {
+  const { health, manifest } = backup;
+
+  const badge = (
+    <Badge variant={health === 'ok' ? 'default' : health === 'failed' ? 'destructive' : 'secondary'}>
+      {healthLabels[health]}
+    </Badge>
+  );
+
+  if (!manifest) {
+    return badge;
+  }
+
+  const totalRows = Object.values(manifest.tables).reduce((sum, count) => sum + count, 0);
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="cursor-default">{badge}</span>
+      </TooltipTrigger>
+      <TooltipContent className="max-w-xs space-y-1 text-xs">
+        <p>Integrity: {manifest.integrity}</p>
+        {manifest.sizeBytes !== backup.size && <p>File size changed since verification</p>}
+        <p>
+          {totalRows} rows in {Object.keys(manifest.tables).length} tables
+        </p>
+        <p>
+          App {manifest.appVersion}, schema v{manifest.schemaVersion}
+        </p>
+        <p className="font-mono break-all">SHA-256 {manifest.sha256.slice(0, 16)}…</p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
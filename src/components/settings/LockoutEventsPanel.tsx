@@ -0,0 +1,109 @@
+import { useState, useEffect } from 'react';
+import { Unlock } from 'lucide-react';
+import { toast } from 'sonner';
+import type { LockoutEvent } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+const isActive = (event: LockoutEvent) =>
+  !event.unlocked_by && new Date(event.locked_until).getTime() > Date.now();
+
+export function LockoutEventsPanel() {
+  const [events, setEvents] = useState<LockoutEvent[]>([]);
+
+  useEffect(() => {
+    loadEvents();
+  }, []);
+
+  const loadEvents = async () => {
+    try {
+      setEvents(await window.electronAPI.users.lockoutEvents());
+    } catch (error) {
+      console.error('Failed to load lockout events:', error);
+    }
+  };
+
+  const handleUnlock = async (username: string) => {
+    try {
+      const result = await window.electronAPI.users.unlock(username);
+
+      if (result.success) {
+        toast.success(result.message);
+        loadEvents();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to unlock account');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Login Lockouts</CardTitle>
+        <CardDescription>Usernames locked after too many failed sign-in attempts</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Locked At</TableHead>
+                <TableHead className="text-right">Attempts</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.length > 0 ? (
+                events.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="font-medium">{event.username}</TableCell>
+                    <TableCell>{new Date(event.locked_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{event.failed_count}</TableCell>
+                    <TableCell>
+                      {isActive(event) ? (
+                        <Badge variant="destructive">
+                          Locked until {new Date(event.locked_until).toLocaleTimeString()}
+                        </Badge>
+                      ) : event.unlocked_by ? (
+                        <Badge variant="outline">Unlocked by {event.unlocked_by}</Badge>
+                      ) : (
+                        <Badge variant="secondary">Expired</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {isActive(event) && (
+                        <Button variant="ghost" size="sm" onClick={() => handleUnlock(event.username)}>
+                          <Unlock className="h-4 w-4 mr-2" />
+                          Unlock
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-20 text-center text-muted-foreground">
+                    No lockouts recorded
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
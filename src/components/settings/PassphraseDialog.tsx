@@ -0,0 +1,126 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Must match MIN_PASSPHRASE_LENGTH in electron/database/archive.ts
+const MIN_PASSPHRASE_LENGTH = 8;
+
+const passphraseSchema = z.object({
+  passphrase: z.string().min(1, 'Passphrase is required'),
+  confirmPassphrase: z.string(),
+});
+
+type PassphraseFormData = z.infer<typeof passphraseSchema>;
+
+interface PassphraseDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  submitLabel: string;
+  // Ask for the passphrase twice and enforce the minimum length (new archives)
+  confirm?: boolean;
+  onSubmit: (passphrase: string) => Promise<void>;
+}
+
+export function PassphraseDialog({
+  open,
+  onOpenChange,
+  title,
+  description,
+  submitLabel,
+  confirm = false,
+  onSubmit,
+}: PassphraseDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    formState: { errors, isSubmitting },
+  } = useForm<PassphraseFormData>({
+    resolver: zodResolver(passphraseSchema),
+    defaultValues: { passphrase: '', confirmPassphrase: '' },
+  });
+
+  // Never keep a passphrase around once the dialog closes
+  useEffect(() => {
+    if (!open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  const submit = async (data: PassphraseFormData) => {
+    if (confirm) {
+      if (data.passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError('passphrase', {
+          message: `Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`,
+        });
+        return;
+      }
+
+      if (data.passphrase !== data.confirmPassphrase) {
+        setError('confirmPassphrase', { message: "Passphrases don't match" });
+        return;
+      }
+    }
+
+    await onSubmit(data.passphrase);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(submit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input id="passphrase" type="password" autoComplete="off" {...register('passphrase')} />
+            {errors.passphrase && (
+              <p className="text-sm text-destructive">{errors.passphrase.message}</p>
+            )}
+          </div>
+
+          {confirm && (
+            <div className="space-y-2">
+              <Label htmlFor="confirmPassphrase">Confirm Passphrase</Label>
+              <Input
+                id="confirmPassphrase"
+                type="password"
+                autoComplete="off"
+                {...register('confirmPassphrase')}
+              />
+              {errors.confirmPassphrase && (
+                <p className="text-sm text-destructive">{errors.confirmPassphrase.message}</p>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { KeyRound } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+
+const pinSchema = z
+  .object({
+    pin: z.string().regex(/^\d{4,8}$/, 'PIN must be 4 to 8 digits'),
+    confirmPin: z.string(),
+    currentPassword: z.string().min(1, 'Current password is required'),
+  })
+  .refine((data) => data.pin === data.confirmPin, {
+    message: "PINs don't match",
+    path: ['confirmPin'],
+  });
+
+type PinFormData = z.infer<typeof pinSchema>;
+
+// Optional numeric PIN for the idle lock screen
+export function PinSettings() {
+  const { lockStatus, refreshLockStatus } = useAuth();
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<PinFormData>({
+    resolver: zodResolver(pinSchema),
+    defaultValues: { pin: '', confirmPin: '', currentPassword: '' },
+  });
+
+  const onSubmit = async (data: PinFormData) => {
+    try {
+      const result = await window.electronAPI.auth.setPin({
+        pin: data.pin,
+        currentPassword: data.currentPassword,
+      });
+
+      if (result.success) {
+        toast.success(result.message);
+        reset();
+        refreshLockStatus();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to save PIN');
+    }
+  };
+
+  const handleRemove = async () => {
+    try {
+      const result = await window.electronAPI.auth.clearPin();
+
+      if (result.success) {
+        toast.success(result.message);
+        refreshLockStatus();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to remove PIN');
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium">Quick Unlock PIN</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        {lockStatus?.idleLockMinutes
+          ? `The app locks after ${lockStatus.idleLockMinutes} minutes without activity. `
+          : ''}
+        A PIN lets you unlock it without typing your full password.
+      </p>
+
+      <form onSubmit={handleSubmit(onSubmit)} className="space-y-4 max-w-sm">
+        <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="pin">{lockStatus?.hasPin ? 'New PIN' : 'PIN'}</Label>
+            <Input id="pin" type="password" inputMode="numeric" autoComplete="off" {...register('pin')} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="confirmPin">Confirm PIN</Label>
+            <Input id="confirmPin" type="password" inputMode="numeric" autoComplete="off" {...register('confirmPin')} />
+          </div>
+        </div>
+        {errors.pin && <p className="text-sm text-destructive">{errors.pin.message}</p>}
+        {errors.confirmPin && <p className="text-sm text-destructive">{errors.confirmPin.message}</p>}
+
+        <div className="space-y-2">
+          <Label htmlFor="pinCurrentPassword">Current Password</Label>
+          <Input id="pinCurrentPassword" type="password" {...register('currentPassword')} />
+          {errors.currentPassword && (
+            <p className="text-sm text-destructive">{errors.currentPassword.message}</p>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <Button type="submit" disabled={isSubmitting}>
+            <KeyRound className="h-4 w-4 mr-2" />
+            {lockStatus?.hasPin ? 'Change PIN' : 'Set PIN'}
+          </Button>
+          {lockStatus?.hasPin && (
+            <Button type="button" variant="outline" onClick={handleRemove}>
+              Remove PIN
+            </Button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+}
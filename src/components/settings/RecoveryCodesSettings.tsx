@@ -0,0 +1,126 @@
+import { useState, useEffect } from 'react';
+import { RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import type { RecoveryCodeStatus } from '@/lib/types';
+import { RecoveryCodesList } from '@/components/auth/RecoveryCodesList';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Remaining recovery codes for the signed-in user, with a way to issue a new set
+export function RecoveryCodesSettings() {
+  const { user } = useAuth();
+  const [status, setStatus] = useState<RecoveryCodeStatus | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  // The new set, shown once in the dialog
+  const [codes, setCodes] = useState<string[] | null>(null);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setStatus(await window.electronAPI.auth.recoveryStatus());
+    } catch (error) {
+      console.error('Failed to load recovery code status:', error);
+    }
+  };
+
+  const closeDialog = () => {
+    setDialogOpen(false);
+    setCurrentPassword('');
+    setCodes(null);
+  };
+
+  const handleGenerate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsGenerating(true);
+
+    try {
+      const result = await window.electronAPI.auth.regenerateRecoveryCodes(currentPassword);
+
+      if (result.success && result.codes) {
+        setCodes(result.codes);
+        setCurrentPassword('');
+        loadStatus();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to generate recovery codes');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  return (
+    <div>
+      <h3 className="text-lg font-medium">Recovery Codes</h3>
+      <p className="text-sm text-muted-foreground mb-4">
+        {status && status.total > 0
+          ? `${status.remaining} of ${status.total} recovery codes unused. `
+          : 'You have no recovery codes. '}
+        Recovery codes let you reset a forgotten password from the sign-in screen.
+      </p>
+
+      <Button variant="outline" onClick={() => setDialogOpen(true)}>
+        <RefreshCw className="h-4 w-4 mr-2" />
+        {status && status.total > 0 ? 'Regenerate Codes' : 'Generate Codes'}
+      </Button>
+
+      <Dialog open={dialogOpen} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{codes ? 'Your New Recovery Codes' : 'Generate Recovery Codes'}</DialogTitle>
+            <DialogDescription>
+              {codes
+                ? 'Save these codes somewhere safe. They will not be shown again.'
+                : 'A new set replaces all of your existing codes, used or not. Enter your password to continue.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {codes ? (
+            <>
+              <RecoveryCodesList codes={codes} username={user?.username} />
+              <DialogFooter>
+                <Button onClick={closeDialog}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <form onSubmit={handleGenerate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="recoveryCurrentPassword">Current Password</Label>
+                <Input
+                  id="recoveryCurrentPassword"
+                  type="password"
+                  value={currentPassword}
+                  onChange={(event) => setCurrentPassword(event.target.value)}
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isGenerating || !currentPassword}>
+                  {isGenerating ? 'Generating...' : 'Generate'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
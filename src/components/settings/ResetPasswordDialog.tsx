@@ -0,0 +1,94 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const resetPasswordSchema = z
+  .object({
+    newPassword: z.string().min(1, 'Password is required'),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.newPassword === data.confirmPassword, {
+    message: "Passwords don't match",
+    path: ['confirmPassword'],
+  });
+
+type ResetPasswordFormData = z.infer<typeof resetPasswordSchema>;
+
+interface ResetPasswordDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  username: string;
+  onSubmit: (newPassword: string) => Promise<void>;
+}
+
+export function ResetPasswordDialog({ open, onOpenChange, username, onSubmit }: ResetPasswordDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<ResetPasswordFormData>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { newPassword: '', confirmPassword: '' },
+  });
+
+  useEffect(() => {
+    if (!open) {
+      reset();
+    }
+  }, [open, reset]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Reset Password</DialogTitle>
+          <DialogDescription>
+            Set a new password for {username}. They will be signed out everywhere.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit((data) => onSubmit(data.newPassword))} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="reset-newPassword">New Password</Label>
+            <Input id="reset-newPassword" type="password" autoComplete="new-password" {...register('newPassword')} />
+            {errors.newPassword && <p className="text-sm text-destructive">{errors.newPassword.message}</p>}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="reset-confirmPassword">Confirm Password</Label>
+            <Input
+              id="reset-confirmPassword"
+              type="password"
+              autoComplete="new-password"
+              {...register('confirmPassword')}
+            />
+            {errors.confirmPassword && (
+              <p className="text-sm text-destructive">{errors.confirmPassword.message}</p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              Reset Password
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
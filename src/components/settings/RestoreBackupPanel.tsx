@@ -0,0 +1,224 @@
+import { useState, useEffect } from 'react';
+import { RotateCcw, FolderOpen, AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import type { BackupFile, RetentionRule } from '@/lib/types';
+import { formatBytes } from '@/lib/utils';
+import { Badge } from '@/components/ui/badge';
+import { PassphraseDialog } from '@/components/settings/PassphraseDialog';
+import { BackupHealthBadge } from '@/components/settings/BackupHealthBadge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+const retentionLabels: Record<RetentionRule, string> = {
+  latest: 'Latest',
+  hourly: 'Hourly',
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  'last-known-good': 'Last good',
+};
+
+// A backup from the list, or 'file' to pick an external database file
+type RestoreTarget = BackupFile | 'file';
+
+export function RestoreBackupPanel() {
+  const [backups, setBackups] = useState<BackupFile[]>([]);
+  const [restoreTarget, setRestoreTarget] = useState<RestoreTarget | null>(null);
+  const [isRestoring, setIsRestoring] = useState(false);
+  // Encrypted archive waiting for its passphrase
+  const [archivePath, setArchivePath] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadBackups();
+  }, []);
+
+  const loadBackups = async () => {
+    try {
+      setBackups(await window.electronAPI.backup.list());
+    } catch (error) {
+      console.error('Failed to load backups:', error);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!restoreTarget) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await window.electronAPI.backup.restore(
+        restoreTarget === 'file' ? undefined : restoreTarget.path
+      );
+
+      if (result.success) {
+        // The main process reloads the window once the database is swapped
+        toast.success(result.message);
+      } else if (result.needsPassphrase && result.filePath) {
+        setArchivePath(result.filePath);
+      } else if (result.message !== 'Restore cancelled') {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+      setRestoreTarget(null);
+    }
+  };
+
+  const handleArchiveRestore = async (passphrase: string) => {
+    if (!archivePath) return;
+
+    setIsRestoring(true);
+    try {
+      const result = await window.electronAPI.backup.restore(archivePath, passphrase);
+
+      if (result.success) {
+        toast.success(result.message);
+        setArchivePath(null);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to restore backup');
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Restore</CardTitle>
+        <CardDescription>Replace the current data with a previous backup</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            Restoring replaces all current data. A backup of the current data is created first, and
+            the application reloads when the restore completes. Automatic backups are kept by hourly,
+            daily, weekly and monthly rules; backups no rule keeps are pruned.
+          </AlertDescription>
+        </Alert>
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Backup</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead className="text-right">Size</TableHead>
+                <TableHead>Health</TableHead>
+                <TableHead>Kept By</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {backups.length > 0 ? (
+                backups.map((backup) => (
+                  <TableRow key={backup.path}>
+                    <TableCell className="font-mono text-xs">{backup.name}</TableCell>
+                    <TableCell>{new Date(backup.createdAt).toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatBytes(backup.size)}</TableCell>
+                    <TableCell>
+                      <BackupHealthBadge backup={backup} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {backup.retention.length > 0 ? (
+                          backup.retention.map((rule) => (
+                            <Badge key={rule} variant="outline">
+                              {retentionLabels[rule]}
+                            </Badge>
+                          ))
+                        ) : (
+                          <span className="text-xs text-muted-foreground">Pruned next backup</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={isRestoring}
+                        onClick={() => setRestoreTarget(backup)}
+                      >
+                        <RotateCcw className="h-4 w-4 mr-2" />
+                        Restore
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={6} className="h-20 text-center text-muted-foreground">
+                    No backups found
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button variant="outline" disabled={isRestoring} onClick={() => setRestoreTarget('file')}>
+          <FolderOpen className="h-4 w-4 mr-2" />
+          Restore from File...
+        </Button>
+      </CardContent>
+
+      {/* Restore Confirmation Dialog */}
+      <AlertDialog open={!!restoreTarget} onOpenChange={() => setRestoreTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+            <AlertDialogDescription>
+              {restoreTarget === 'file'
+                ? 'Choose a backup file to restore. '
+                : restoreTarget
+                  ? `Restore the backup from ${new Date(restoreTarget.createdAt).toLocaleString()}? `
+                  : ''}
+              All current data will be replaced. You will need to sign in again afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRestore}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {restoreTarget === 'file' ? 'Choose File' : 'Restore'}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <PassphraseDialog
+        open={!!archivePath}
+        onOpenChange={(open) => !open && setArchivePath(null)}
+        title="Encrypted Backup"
+        description="Enter the passphrase that was used when this backup was created."
+        submitLabel={isRestoring ? 'Restoring...' : 'Restore'}
+        onSubmit={handleArchiveRestore}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,91 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import type { RetentionPolicy } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const count = z.coerce.number().int('Must be a whole number').min(0, 'Cannot be negative');
+
+const retentionSchema = z.object({
+  hourly: count,
+  daily: count,
+  weekly: count,
+  monthly: count,
+});
+
+const fields: { name: keyof RetentionPolicy; label: string }[] = [
+  { name: 'hourly', label: 'Hourly' },
+  { name: 'daily', label: 'Daily' },
+  { name: 'weekly', label: 'Weekly' },
+  { name: 'monthly', label: 'Monthly' },
+];
+
+interface RetentionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  description: string;
+  retention: RetentionPolicy;
+  onSubmit: (retention: RetentionPolicy) => Promise<void>;
+}
+
+export function RetentionDialog({ open, onOpenChange, description, retention, onSubmit }: RetentionDialogProps) {
+  const {
+    register,
+    handleSubmit,
+    reset,
+    formState: { errors, isSubmitting },
+  } = useForm<RetentionPolicy>({
+    resolver: zodResolver(retentionSchema),
+    defaultValues: retention,
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset(retention);
+    }
+  }, [open, retention, reset]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Backup Retention</DialogTitle>
+          <DialogDescription>{description}</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(onSubmit)} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            {fields.map((field) => (
+              <div key={field.name} className="space-y-2">
+                <Label htmlFor={`retention-${field.name}`}>{field.label}</Label>
+                <Input id={`retention-${field.name}`} type="number" min={0} {...register(field.name)} />
+                {errors[field.name] && (
+                  <p className="text-sm text-destructive">{errors[field.name]?.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState, useEffect } from 'react';
+import { LogOut, Monitor } from 'lucide-react';
+import { toast } from 'sonner';
+import type { SessionInfo } from '@/lib/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+// The signed-in user's sessions, with revoke and sign out everywhere
+export function SessionsPanel() {
+  const { logout } = useAuth();
+  const [sessions, setSessions] = useState<SessionInfo[]>([]);
+  const [confirmSignOutAll, setConfirmSignOutAll] = useState(false);
+
+  useEffect(() => {
+    loadSessions();
+  }, []);
+
+  const loadSessions = async () => {
+    try {
+      setSessions(await window.electronAPI.auth.listSessions());
+    } catch (error) {
+      console.error('Failed to load sessions:', error);
+    }
+  };
+
+  const handleRevoke = async (session: SessionInfo) => {
+    try {
+      const result = await window.electronAPI.auth.revokeSession(session.id);
+
+      if (result.signedOut) {
+        await logout();
+      } else if (result.success) {
+        toast.success(result.message);
+        loadSessions();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to revoke session');
+    }
+  };
+
+  const handleSignOutEverywhere = async () => {
+    try {
+      const result = await window.electronAPI.auth.signOutEverywhere();
+
+      if (result.success) {
+        await logout();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to sign out everywhere');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Sessions</CardTitle>
+        <CardDescription>
+          Where your account is signed in. "Remember me" sessions last until they expire or are revoked.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Device</TableHead>
+                <TableHead>Signed In</TableHead>
+                <TableHead>Last Seen</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sessions.length > 0 ? (
+                sessions.map((session) => (
+                  <TableRow key={session.id}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <Monitor className="h-4 w-4 text-muted-foreground" />
+                        <span className="font-medium">{session.label || 'Unknown device'}</span>
+                        {session.current && <Badge variant="secondary">This session</Badge>}
+                        {!session.persistent && <Badge variant="outline">Until app closes</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{new Date(session.created_at).toLocaleString()}</TableCell>
+                    <TableCell>
+                      {session.last_seen_at ? new Date(session.last_seen_at).toLocaleString() : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      {session.persistent ? new Date(session.expires_at).toLocaleDateString() : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleRevoke(session)}>
+                        {session.current ? 'Sign Out' : 'Revoke'}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              ) : (
+                <TableRow>
+                  <TableCell colSpan={5} className="h-20 text-center text-muted-foreground">
+                    No active sessions
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button variant="outline" onClick={() => setConfirmSignOutAll(true)}>
+          <LogOut className="h-4 w-4 mr-2" />
+          Sign Out Everywhere
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={confirmSignOutAll} onOpenChange={setConfirmSignOutAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign Out Everywhere</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every session for your account is ended, including this one. You will need to sign in
+              again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleSignOutEverywhere}>Sign Out Everywhere</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+}
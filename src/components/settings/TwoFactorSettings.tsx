@@ -0,0 +1,201 @@
+import { useState, useEffect } from 'react';
+import { ShieldCheck, ShieldOff } from 'lucide-react';
+import { toast } from 'sonner';
+import type { TotpEnrollment } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+// Optional authenticator-app (TOTP) code at sign-in
+export function TwoFactorSettings() {
+  const [enabled, setEnabled] = useState(false);
+  const [enrollment, setEnrollment] = useState<TotpEnrollment | null>(null);
+  const [code, setCode] = useState('');
+  const [disableOpen, setDisableOpen] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const loadStatus = async () => {
+    try {
+      setEnabled((await window.electronAPI.auth.totpStatus()).enabled);
+    } catch (error) {
+      console.error('Failed to load two-factor status:', error);
+    }
+  };
+
+  const handleBegin = async () => {
+    try {
+      const result = await window.electronAPI.auth.beginTotp();
+
+      if (result.success && result.enrollment) {
+        setCode('');
+        setEnrollment(result.enrollment);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to start two-factor setup');
+    }
+  };
+
+  const handleConfirm = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const result = await window.electronAPI.auth.confirmTotp(code);
+
+      if (result.success) {
+        toast.success(result.message);
+        setEnrollment(null);
+        loadStatus();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to turn on two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const closeDisable = () => {
+    setDisableOpen(false);
+    setCurrentPassword('');
+  };
+
+  const handleDisable = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsSubmitting(true);
+
+    try {
+      const result = await window.electronAPI.auth.disableTotp(currentPassword);
+
+      if (result.success) {
+        toast.success(result.message);
+        closeDisable();
+        loadStatus();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to turn off two-factor authentication');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2">
+        <h3 className="text-lg font-medium">Two-Factor Authentication</h3>
+        {enabled && <Badge variant="outline">On</Badge>}
+      </div>
+      <p className="text-sm text-muted-foreground mb-4">
+        Ask for a code from an authenticator app on your phone after your password. Your recovery
+        codes also work if the phone is unavailable.
+      </p>
+
+      {enabled ? (
+        <Button variant="outline" onClick={() => setDisableOpen(true)}>
+          <ShieldOff className="h-4 w-4 mr-2" />
+          Turn Off
+        </Button>
+      ) : (
+        <Button variant="outline" onClick={handleBegin}>
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Set Up
+        </Button>
+      )}
+
+      {/* Enrollment */}
+      <Dialog open={!!enrollment} onOpenChange={(open) => !open && setEnrollment(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Set Up Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              Scan the QR code with your authenticator app, then enter the 6-digit code it shows.
+            </DialogDescription>
+          </DialogHeader>
+
+          {enrollment && (
+            <form onSubmit={handleConfirm} className="space-y-4">
+              <div className="flex justify-center">
+                <img src={enrollment.qrCode} alt="Authenticator QR code" className="h-48 w-48" />
+              </div>
+              <div className="space-y-1 text-center">
+                <p className="text-xs text-muted-foreground">Or enter this key by hand</p>
+                <p className="font-mono text-sm break-all">
+                  {enrollment.secret.match(/.{1,4}/g)?.join(' ')}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="totpCode">Code</Label>
+                <Input
+                  id="totpCode"
+                  value={code}
+                  onChange={(event) => setCode(event.target.value)}
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  className="font-mono"
+                />
+              </div>
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => setEnrollment(null)}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={isSubmitting || !code.trim()}>
+                  {isSubmitting ? 'Verifying...' : 'Turn On'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Disable */}
+      <Dialog open={disableOpen} onOpenChange={(open) => !open && closeDisable()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Turn Off Two-Factor Authentication</DialogTitle>
+            <DialogDescription>
+              You will only need your password to sign in. Enter it to continue.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleDisable} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="totpCurrentPassword">Current Password</Label>
+              <Input
+                id="totpCurrentPassword"
+                type="password"
+                value={currentPassword}
+                onChange={(event) => setCurrentPassword(event.target.value)}
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeDisable}>
+                Cancel
+              </Button>
+              <Button type="submit" variant="destructive" disabled={isSubmitting || !currentPassword}>
+                Turn Off
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
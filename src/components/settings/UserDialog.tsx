@@ -0,0 +1,143 @@
+import { useEffect } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import type { UserAccount, UserRole } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+export const roleLabels: Record<UserRole, string> = {
+  admin: 'Admin',
+  editor: 'Editor',
+  viewer: 'Viewer',
+};
+
+const roleDescriptions: Record<UserRole, string> = {
+  admin: 'Full access, including users, backups and the audit log',
+  editor: 'Can add, edit and delete items',
+  viewer: 'Read-only access',
+};
+
+const userSchema = z.object({
+  username: z.string().trim().min(3, 'Username must be at least 3 characters'),
+  // Only used when creating a user
+  password: z.string(),
+  role: z.enum(['admin', 'editor', 'viewer']),
+});
+
+type UserFormData = z.infer<typeof userSchema>;
+
+interface UserDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing user to edit; omit to create a new one
+  user?: UserAccount | null;
+  onSubmit: (data: UserFormData) => Promise<void>;
+}
+
+export function UserDialog({ open, onOpenChange, user, onSubmit }: UserDialogProps) {
+  const isEditing = !!user;
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    setError,
+    setValue,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<UserFormData>({
+    resolver: zodResolver(userSchema),
+    defaultValues: { username: '', password: '', role: 'viewer' },
+  });
+
+  useEffect(() => {
+    if (open) {
+      reset({ username: user?.username || '', password: '', role: user?.role || 'viewer' });
+    }
+  }, [open, user, reset]);
+
+  const submit = async (data: UserFormData) => {
+    // The password policy itself is checked in the main process
+    if (!isEditing && !data.password) {
+      setError('password', { message: 'Password is required' });
+      return;
+    }
+
+    await onSubmit(data);
+  };
+
+  const role = watch('role');
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{isEditing ? 'Edit User' : 'Add User'}</DialogTitle>
+          <DialogDescription>
+            {isEditing
+              ? 'Change the username or role of this account.'
+              : 'Create an account for someone who shares this workstation.'}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit(submit)} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="user-username">Username</Label>
+            <Input id="user-username" autoComplete="off" {...register('username')} />
+            {errors.username && <p className="text-sm text-destructive">{errors.username.message}</p>}
+          </div>
+
+          {!isEditing && (
+            <div className="space-y-2">
+              <Label htmlFor="user-password">Password</Label>
+              <Input id="user-password" type="password" autoComplete="new-password" {...register('password')} />
+              {errors.password && <p className="text-sm text-destructive">{errors.password.message}</p>}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="user-role">Role</Label>
+            <Select value={role} onValueChange={(value) => setValue('role', value as UserRole)}>
+              <SelectTrigger id="user-role">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(roleLabels) as UserRole[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {roleLabels[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-sm text-muted-foreground">{roleDescriptions[role]}</p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={isSubmitting}>
+              {isEditing ? 'Save' : 'Add User'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
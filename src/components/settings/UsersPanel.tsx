@@ -0,0 +1,176 @@
+import { useState, useEffect } from 'react';
+import { UserPlus, Pencil, KeyRound, UserX, UserCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import type { UserAccount, UserRole } from '@/lib/types';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { UserDialog, roleLabels } from '@/components/settings/UserDialog';
+import { ResetPasswordDialog } from '@/components/settings/ResetPasswordDialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+
+export function UsersPanel() {
+  const { user: currentUser } = useAuth();
+  const [users, setUsers] = useState<UserAccount[]>([]);
+  // null = closed, 'new' = add user, otherwise the user being edited
+  const [editing, setEditing] = useState<UserAccount | 'new' | null>(null);
+  const [resetting, setResetting] = useState<UserAccount | null>(null);
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const loadUsers = async () => {
+    try {
+      setUsers(await window.electronAPI.users.list());
+    } catch (error) {
+      console.error('Failed to load users:', error);
+    }
+  };
+
+  const handleSave = async (data: { username: string; password: string; role: UserRole }) => {
+    try {
+      const result =
+        editing === 'new'
+          ? await window.electronAPI.users.create(data)
+          : await window.electronAPI.users.update({
+              id: (editing as UserAccount).id,
+              username: data.username,
+              role: data.role,
+            });
+
+      if (result.success) {
+        toast.success(result.message);
+        setEditing(null);
+        loadUsers();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to save user');
+    }
+  };
+
+  const handleToggleDisabled = async (account: UserAccount) => {
+    try {
+      const result = await window.electronAPI.users.disable(account.id, !account.disabled);
+
+      if (result.success) {
+        toast.success(result.message);
+        loadUsers();
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to update user');
+    }
+  };
+
+  const handleResetPassword = async (newPassword: string) => {
+    if (!resetting) return;
+
+    try {
+      const result = await window.electronAPI.users.resetPassword(resetting.id, newPassword);
+
+      if (result.success) {
+        toast.success(result.message);
+        setResetting(null);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to reset password');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Users</CardTitle>
+        <CardDescription>Manage who can sign in on this workstation and what they can do</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Username</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last Login</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {users.map((account) => (
+                <TableRow key={account.id}>
+                  <TableCell className="font-medium">
+                    {account.username}
+                    {account.id === currentUser?.id && (
+                      <span className="ml-2 text-xs text-muted-foreground">(you)</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{roleLabels[account.role]}</TableCell>
+                  <TableCell>
+                    {account.disabled ? (
+                      <Badge variant="secondary">Disabled</Badge>
+                    ) : (
+                      <Badge variant="outline">Active</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {account.last_login ? new Date(account.last_login).toLocaleString() : 'Never'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" title="Edit" onClick={() => setEditing(account)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" title="Reset password" onClick={() => setResetting(account)}>
+                      <KeyRound className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      title={account.disabled ? 'Enable' : 'Disable'}
+                      disabled={account.id === currentUser?.id}
+                      onClick={() => handleToggleDisabled(account)}
+                    >
+                      {account.disabled ? <UserCheck className="h-4 w-4" /> : <UserX className="h-4 w-4" />}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <Button variant="outline" onClick={() => setEditing('new')}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add User
+        </Button>
+      </CardContent>
+
+      <UserDialog
+        open={!!editing}
+        onOpenChange={(open) => !open && setEditing(null)}
+        user={editing === 'new' ? null : editing}
+        onSubmit={handleSave}
+      />
+
+      <ResetPasswordDialog
+        open={!!resetting}
+        onOpenChange={(open) => !open && setResetting(null)}
+        username={resetting?.username || ''}
+        onSubmit={handleResetPassword}
+      />
+    </Card>
+  );
+}
@@ -1,14 +1,40 @@
 import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
-import type { AuthUser } from '@/lib/types';
+import type {
+  AuthUser,
+  LoginResult,
+  Permission,
+  LockStatus,
+  UnlockData,
+  UnlockResult,
+} from '@/lib/types';
+import { hasPermission } from '@/lib/permissions';
+
+// retryAt is set while further attempts are throttled or locked out
+interface LoginOutcome {
+  success: boolean;
+  message: string;
+  retryAt?: number;
+  locked?: boolean;
+  // Password accepted; call verifySecondFactor with the authenticator code
+  requiresSecondFactor?: boolean;
+}
 
 interface AuthContextType {
   isAuthenticated: boolean;
   isLoading: boolean;
   isSetupComplete: boolean | null;
   user: AuthUser | null;
-  login: (username: string, password: string, rememberMe?: boolean) => Promise<{ success: boolean; message: string }>;
+  login: (username: string, password: string, rememberMe?: boolean) => Promise<LoginOutcome>;
+  verifySecondFactor: (code: string) => Promise<LoginOutcome>;
   logout: () => Promise<void>;
   checkSession: () => Promise<void>;
+  can: (permission: Permission) => boolean;
+  // Idle lock (the main process refuses data calls while locked)
+  isLocked: boolean;
+  lockStatus: LockStatus | null;
+  lock: () => Promise<void>;
+  unlock: (data: UnlockData) => Promise<UnlockResult>;
+  refreshLockStatus: () => Promise<void>;
 }
 
 const AuthContext = createContext<AuthContextType | null>(null);
@@ -20,6 +46,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const [isSetupComplete, setIsSetupComplete] = useState<boolean | null>(null);
   const [user, setUser] = useState<AuthUser | null>(null);
+  const [lockStatus, setLockStatus] = useState<LockStatus | null>(null);
 
   // Check if setup is complete and validate existing session
   const checkSession = useCallback(async () => {
@@ -52,8 +79,10 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
           setUser(null);
         }
       } else {
-        setIsAuthenticated(false);
-        setUser(null);
+        // No saved token, but the main process may still be signed in (window reload)
+        const currentUser = await window.electronAPI.auth.getCurrentUser();
+        setIsAuthenticated(!!currentUser);
+        setUser(currentUser);
       }
     } catch (error) {
       console.error('Error checking session:', error);
@@ -69,12 +98,94 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     checkSession();
   }, [checkSession]);
 
+  const refreshLockStatus = useCallback(async () => {
+    try {
+      setLockStatus(await window.electronAPI.auth.lockStatus());
+    } catch (error) {
+      console.error('Error loading lock status:', error);
+    }
+  }, []);
+
+  // Load the lock state for the signed-in user (it survives window reloads)
+  useEffect(() => {
+    if (isAuthenticated) {
+      refreshLockStatus();
+    } else {
+      setLockStatus(null);
+    }
+  }, [isAuthenticated, refreshLockStatus]);
+
+  // The main process rejected a call: back to the login page, or show the lock screen
+  useEffect(() => {
+    return window.electronAPI.auth.onAuthError((error) => {
+      if (error.authError === 'UNAUTHORIZED') {
+        setIsAuthenticated(false);
+        setUser(null);
+      } else if (error.authError === 'LOCKED') {
+        setLockStatus((prev) => (prev ? { ...prev, locked: true } : prev));
+      }
+    });
+  }, []);
+
+  const lock = useCallback(async () => {
+    try {
+      const result = await window.electronAPI.auth.lock();
+
+      if (result.success) {
+        setLockStatus((prev) => (prev ? { ...prev, locked: true } : prev));
+      }
+    } catch (error) {
+      console.error('Lock error:', error);
+    }
+  }, []);
+
+  const unlock = async (data: UnlockData): Promise<UnlockResult> => {
+    try {
+      const result = await window.electronAPI.auth.unlock(data);
+
+      if (result.success) {
+        setLockStatus((prev) => (prev ? { ...prev, locked: false } : prev));
+      } else if (result.signedOut) {
+        localStorage.removeItem(SESSION_TOKEN_KEY);
+        setIsAuthenticated(false);
+        setUser(null);
+      }
+
+      return result;
+    } catch (error) {
+      console.error('Unlock error:', error);
+      return { success: false, message: 'Failed to unlock' };
+    }
+  };
+
+  const can = useCallback((permission: Permission) => hasPermission(user?.role, permission), [user]);
+
+  const applyLoginResult = (result: LoginResult): LoginOutcome => {
+    if (result.success) {
+      setIsAuthenticated(true);
+      setUser(result.user || null);
+
+      // Save session token if remember me is enabled
+      if (result.sessionToken) {
+        localStorage.setItem(SESSION_TOKEN_KEY, result.sessionToken);
+      }
+    }
+
+    return {
+      success: result.success,
+      message: result.message,
+      retryAt: result.retryAt,
+      locked: result.locked,
+      requiresSecondFactor: result.requiresSecondFactor,
+    };
+  };
+
   // Login function
   const login = async (
     username: string,
     password: string,
     rememberMe?: boolean
-  ): Promise<{ success: boolean; message: string }> => {
+  ): Promise<LoginOutcome> => {
     try {
       const result = await window.electronAPI.auth.login({
         username,
@@ -82,17 +193,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         rememberMe,
       });
 
-      if (result.success) {
-        setIsAuthenticated(true);
-        setUser(result.user || null);
-
-        // Save session token if remember me is enabled
-        if (result.sessionToken) {
-          localStorage.setItem(SESSION_TOKEN_KEY, result.sessionToken);
-        }
-      }
-
-      return { success: result.success, message: result.message };
+      return applyLoginResult(result);
     } catch (error) {
       console.error('Login error:', error);
       return {
@@ -102,6 +203,19 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  const verifySecondFactor = async (code: string): Promise<LoginOutcome> => {
+    try {
+      return applyLoginResult(await window.electronAPI.auth.verifySecondFactor(code));
+    } catch (error) {
+      console.error('Second factor error:', error);
+      return {
+        success: false,
+        message: error instanceof Error ? error.message : 'Login failed',
+        requiresSecondFactor: true,
+      };
+    }
+  };
+
   // Logout function
   const logout = async () => {
     try {
@@ -124,8 +238,15 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
         isSetupComplete,
         user,
         login,
+        verifySecondFactor,
         logout,
         checkSession,
+        can,
+        isLocked: !!lockStatus?.locked,
+        lockStatus,
+        lock,
+        unlock,
+        refreshLockStatus,
       }}
     >
       {children}
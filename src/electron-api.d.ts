@@ -0,0 +1,274 @@
+import type {
+  SetupData,
+  LoginData,
+  LoginResult,
+  ChangePasswordData,
+  PasswordCheck,
+  SetupResult,
+  RecoverAccountData,
+  RecoveryCodeStatus,
+  TotpStatus,
+  TotpEnrollment,
+  UnlockData,
+  UnlockResult,
+  LockStatus,
+  SetPinData,
+  SessionInfo,
+  AuthUser,
+  UserAccount,
+  CreateUserData,
+  UpdateUserData,
+  LockoutEvent,
+  Item,
+  Category,
+  ItemFilters,
+  ItemPage,
+  CreateItemData,
+  UpdateItemData,
+  ItemVersion,
+  ItemSelection,
+  BulkUpdateData,
+  BulkResult,
+  ImportFileResult,
+  ImportRequest,
+  ImportResult,
+  TrashContents,
+  UndoStatus,
+  UndoResult,
+  SearchEntityType,
+  SearchResult,
+  DashboardStats,
+  BackupResult,
+  BackupInfo,
+  BackupFile,
+  BackupProgress,
+  ManualBackupOptions,
+  RestoreResult,
+  RetentionPolicy,
+  AuditEntry,
+  AuditFilters,
+  IpcAuthError,
+} from './lib/types';
+
+// The API the preload exposes as window.electronAPI. electron/preload.ts is typed
+// against this interface, so the two cannot drift apart, and the renderer reads it
+// without type-checking the preload itself.
+export interface ElectronAPI {
+  // ============================================
+  // AUTH API
+  // ============================================
+  auth: {
+    checkSetup(): Promise<boolean>;
+
+    setup(data: SetupData): Promise<SetupResult>;
+
+    login(data: LoginData): Promise<LoginResult>;
+
+    // Second login step when login() returns requiresSecondFactor
+    verifySecondFactor(code: string): Promise<LoginResult>;
+
+    logout(sessionToken?: string): Promise<{ success: boolean; message: string }>;
+
+    validateSession(sessionToken: string): Promise<{ valid: boolean; user?: AuthUser }>;
+
+    // Check a candidate password against the configured policy
+    checkPassword(password: string): Promise<PasswordCheck>;
+
+    changePassword(data: ChangePasswordData): Promise<{ success: boolean; message: string }>;
+
+    // Reset a forgotten password with a one-time recovery code
+    recover(data: RecoverAccountData): Promise<{ success: boolean; message: string; retryAt?: number }>;
+
+    recoveryStatus(): Promise<RecoveryCodeStatus>;
+
+    regenerateRecoveryCodes(
+      currentPassword: string
+    ): Promise<{ success: boolean; message: string; codes?: string[] }>;
+
+    totpStatus(): Promise<TotpStatus>;
+
+    beginTotp(): Promise<{ success: boolean; message: string; enrollment?: TotpEnrollment }>;
+
+    confirmTotp(code: string): Promise<{ success: boolean; message: string }>;
+
+    disableTotp(currentPassword: string): Promise<{ success: boolean; message: string }>;
+
+    listSessions(): Promise<SessionInfo[]>;
+
+    revokeSession(id: string): Promise<{ success: boolean; message: string; signedOut?: boolean }>;
+
+    signOutEverywhere(): Promise<{ success: boolean; message: string }>;
+
+    lockStatus(): Promise<LockStatus>;
+
+    lock(): Promise<{ success: boolean; message: string }>;
+
+    unlock(data: UnlockData): Promise<UnlockResult>;
+
+    setPin(data: SetPinData): Promise<{ success: boolean; message: string }>;
+
+    clearPin(): Promise<{ success: boolean; message: string }>;
+
+    // User signed in to the main process, if any (survives window reloads)
+    getCurrentUser(): Promise<AuthUser | null>;
+
+    // Subscribe to denied IPC calls; returns an unsubscribe function
+    onAuthError(callback: (error: IpcAuthError) => void): () => void;
+  };
+
+  // ============================================
+  // USERS API
+  // ============================================
+  users: {
+    list(): Promise<UserAccount[]>;
+
+    create(data: CreateUserData): Promise<{ success: boolean; message: string; user?: UserAccount }>;
+
+    update(data: UpdateUserData): Promise<{ success: boolean; message: string; user?: UserAccount }>;
+
+    disable(id: number, disabled?: boolean): Promise<{ success: boolean; message: string }>;
+
+    resetPassword(id: number, newPassword: string): Promise<{ success: boolean; message: string }>;
+
+    lockoutEvents(): Promise<LockoutEvent[]>;
+
+    unlock(username: string): Promise<{ success: boolean; message: string }>;
+  };
+
+  // ============================================
+  // ITEMS API
+  // ============================================
+  items: {
+    getAll(filters?: ItemFilters): Promise<ItemPage>;
+
+    getById(id: string): Promise<Item | null>;
+
+    // undoId identifies the change for undo.undo()
+    create(
+      data: CreateItemData
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }>;
+
+    update(
+      data: UpdateItemData
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }>;
+
+    delete(id: string): Promise<{ success: boolean; message: string; undoId?: number }>;
+
+    getHistory(id: string): Promise<ItemVersion[]>;
+
+    restoreVersion(
+      id: string,
+      version: number
+    ): Promise<{ success: boolean; message: string; item?: Item; undoId?: number }>;
+
+    // Each call is one transaction, audit entry and undo step; items that
+    // cannot be changed are listed in `failures`
+    bulkUpdate(selection: ItemSelection, data: BulkUpdateData): Promise<BulkResult>;
+
+    bulkDelete(selection: ItemSelection): Promise<BulkResult>;
+
+    exportCsv(
+      selection: ItemSelection
+    ): Promise<{ success: boolean; message: string; filePath?: string }>;
+
+    // Read a CSV or XLSX file for the import wizard
+    pickImportFile(): Promise<ImportFileResult>;
+
+    // With dryRun the import is rolled back, so the result previews it
+    import(request: ImportRequest): Promise<ImportResult>;
+  };
+
+  // ============================================
+  // CATEGORIES API
+  // ============================================
+  categories: {
+    getAll(): Promise<Category[]>;
+
+    create(name: string): Promise<{ success: boolean; message: string; category?: Category }>;
+
+    delete(id: string): Promise<{ success: boolean; message: string }>;
+  };
+
+  // ============================================
+  // TRASH API
+  // ============================================
+  trash: {
+    list(): Promise<TrashContents>;
+
+    restoreItem(id: string): Promise<{ success: boolean; message: string }>;
+
+    restoreCategory(id: string): Promise<{ success: boolean; message: string }>;
+
+    purgeItem(id: string): Promise<{ success: boolean; message: string }>;
+
+    purgeCategory(id: string): Promise<{ success: boolean; message: string }>;
+
+    empty(): Promise<{ success: boolean; message: string }>;
+  };
+
+  // ============================================
+  // UNDO API
+  // ============================================
+  undo: {
+    getStatus(): Promise<UndoStatus>;
+
+    // Pass an undoId to undo that change only if it is still the most recent one
+    undo(undoId?: number): Promise<UndoResult>;
+
+    redo(): Promise<UndoResult>;
+  };
+
+  // ============================================
+  // SEARCH API
+  // ============================================
+  search: {
+    // Items and categories; recently opened records first (only those for an empty query)
+    global(query: string): Promise<SearchResult[]>;
+
+    recordOpen(type: SearchEntityType, id: string): Promise<{ success: boolean; message: string }>;
+  };
+
+  // ============================================
+  // DASHBOARD API
+  // ============================================
+  dashboard: {
+    getStats(): Promise<DashboardStats>;
+
+    getRecentItems(limit?: number): Promise<Item[]>;
+  };
+
+  // ============================================
+  // BACKUP API
+  // ============================================
+  backup: {
+    create(): Promise<BackupResult>;
+
+    createManual(options?: ManualBackupOptions): Promise<{ success: boolean; message: string }>;
+
+    getInfo(): Promise<BackupInfo>;
+
+    list(): Promise<BackupFile[]>;
+
+    restore(filePath?: string, passphrase?: string): Promise<RestoreResult>;
+
+    addDestination(): Promise<{ success: boolean; message: string }>;
+
+    removeDestination(id: string): Promise<{ success: boolean; message: string }>;
+
+    updateDestination(id: string, retention: RetentionPolicy): Promise<{ success: boolean; message: string }>;
+
+    // Subscribe to progress of running backups; returns an unsubscribe function
+    onProgress(callback: (progress: BackupProgress) => void): () => void;
+  };
+
+  // ============================================
+  // AUDIT LOG API
+  // ============================================
+  audit: {
+    list(filters?: AuditFilters): Promise<AuditEntry[]>;
+
+    getActions(): Promise<string[]>;
+
+    exportCsv(filters?: AuditFilters): Promise<{ success: boolean; message: string; filePath?: string }>;
+  };
+}
@@ -0,0 +1,26 @@
+import { useQuery } from '@tanstack/react-query';
+import type { AuditFilters } from '@/lib/types';
+
+// Query keys
+export const auditKeys = {
+  all: ['audit'] as const,
+  list: (filters?: AuditFilters) => [...auditKeys.all, 'list', filters] as const,
+  actions: ['audit', 'actions'] as const,
+};
+
+// Entries are written by every change in the app, so always refetch when the page opens
+export function useAuditLog(filters?: AuditFilters) {
+  return useQuery({
+    queryKey: auditKeys.list(filters),
+    queryFn: () => window.electronAPI.audit.list(filters),
+    staleTime: 0,
+  });
+}
+
+export function useAuditActions() {
+  return useQuery({
+    queryKey: auditKeys.actions,
+    queryFn: () => window.electronAPI.audit.getActions(),
+    staleTime: 0,
+  });
+}
@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'wheel', 'touchstart'] as const;
+
+// Call onIdle once after timeoutMs without keyboard, mouse or touch activity
+export function useIdleTimer(timeoutMs: number, onIdle: () => void, enabled = true) {
+  const onIdleRef = useRef(onIdle);
+  onIdleRef.current = onIdle;
+
+  useEffect(() => {
+    if (!enabled || timeoutMs <= 0) return;
+
+    let timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+
+    const reset = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => onIdleRef.current(), timeoutMs);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, reset, { passive: true }));
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, reset));
+    };
+  }, [timeoutMs, enabled]);
+}
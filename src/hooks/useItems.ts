@@ -1,19 +1,39 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
-import type { Item, Category, ItemFilters, DashboardStats } from '@/lib/types';
+import {
+  useQuery,
+  useInfiniteQuery,
+  useMutation,
+  useQueryClient,
+  keepPreviousData,
+  type QueryClient,
+} from '@tanstack/react-query';
+import type {
+  Item,
+  Category,
+  ItemFilters,
+  ItemSelection,
+  BulkUpdateData,
+  ImportRequest,
+  DashboardStats,
+} from '@/lib/types';
 
 // Query keys
 export const itemKeys = {
   all: ['items'] as const,
   lists: () => [...itemKeys.all, 'list'] as const,
-  list: (filters?: ItemFilters) => [...itemKeys.lists(), filters] as const,
+  infinite: (filters?: ItemFilters) => [...itemKeys.lists(), 'infinite', filters] as const,
   details: () => [...itemKeys.all, 'detail'] as const,
   detail: (id: string) => [...itemKeys.details(), id] as const,
+  history: (id: string) => [...itemKeys.all, 'history', id] as const,
 };
 
 export const categoryKeys = {
   all: ['categories'] as const,
 };
 
+export const trashKeys = {
+  all: ['trash'] as const,
+};
+
 export const dashboardKeys = {
   stats: ['dashboard', 'stats'] as const,
   recentItems: ['dashboard', 'recentItems'] as const,
@@ -23,10 +43,20 @@ export const dashboardKeys = {
 // ITEMS HOOKS
 // ============================================
 
-export function useItems(filters?: ItemFilters) {
-  return useQuery({
-    queryKey: itemKeys.list(filters),
-    queryFn: () => window.electronAPI.items.getAll(filters),
+// Rows fetched per request by useInfiniteItems
+const INFINITE_PAGE_SIZE = 100;
+
+// Items loaded a page at a time as the list scrolls; `filters.page` and
+// `filters.pageSize` are managed here
+export function useInfiniteItems(filters?: Omit<ItemFilters, 'page' | 'pageSize'>) {
+  return useInfiniteQuery({
+    queryKey: itemKeys.infinite(filters),
+    queryFn: ({ pageParam }) =>
+      window.electronAPI.items.getAll({ ...filters, page: pageParam, pageSize: INFINITE_PAGE_SIZE }),
+    initialPageParam: 1,
+    getNextPageParam: (lastPage, pages) =>
+      pages.length * INFINITE_PAGE_SIZE < lastPage.total ? pages.length + 1 : undefined,
+    placeholderData: keepPreviousData,
   });
 }
 
@@ -82,6 +112,29 @@ export function useDeleteItem() {
 
   return useMutation({
     mutationFn: (id: string) => window.electronAPI.items.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: itemKeys.all });
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.stats });
+      queryClient.invalidateQueries({ queryKey: dashboardKeys.recentItems });
+    },
+  });
+}
+
+export function useItemHistory(id: string) {
+  return useQuery({
+    queryKey: itemKeys.history(id),
+    queryFn: () => window.electronAPI.items.getHistory(id),
+    enabled: !!id,
+  });
+}
+
+export function useRestoreItemVersion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, version }: { id: string; version: number }) =>
+      window.electronAPI.items.restoreVersion(id, version),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: itemKeys.all });
       queryClient.invalidateQueries({ queryKey: dashboardKeys.stats });
@@ -90,6 +143,37 @@ export function useDeleteItem() {
   });
 }
 
+export function useBulkUpdateItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ selection, data }: { selection: ItemSelection; data: BulkUpdateData }) =>
+      window.electronAPI.items.bulkUpdate(selection, data),
+    onSuccess: () => invalidateItemData(queryClient),
+  });
+}
+
+export function useBulkDeleteItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (selection: ItemSelection) => window.electronAPI.items.bulkDelete(selection),
+    onSuccess: () => invalidateItemData(queryClient),
+  });
+}
+
+export function useImportItems() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: ImportRequest) => window.electronAPI.items.import(request),
+    // A dry run is rolled back, so there is nothing to refresh
+    onSuccess: (_, request) => {
+      if (!request.dryRun) invalidateItemData(queryClient);
+    },
+  });
+}
+
 // ============================================
 // CATEGORIES HOOKS
 // ============================================
@@ -120,11 +204,67 @@ export function useDeleteCategory() {
     mutationFn: (id: string) => window.electronAPI.categories.delete(id),
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+      queryClient.invalidateQueries({ queryKey: trashKeys.all });
       queryClient.invalidateQueries({ queryKey: dashboardKeys.stats });
     },
   });
 }
 
+// ============================================
+// TRASH HOOKS
+// ============================================
+
+export type TrashEntryKind = 'item' | 'category';
+
+// Restoring, purging or undoing can change any list, so refresh everything
+export function invalidateItemData(queryClient: QueryClient) {
+  queryClient.invalidateQueries({ queryKey: trashKeys.all });
+  queryClient.invalidateQueries({ queryKey: itemKeys.all });
+  queryClient.invalidateQueries({ queryKey: categoryKeys.all });
+  queryClient.invalidateQueries({ queryKey: dashboardKeys.stats });
+  queryClient.invalidateQueries({ queryKey: dashboardKeys.recentItems });
+}
+
+export function useTrash() {
+  return useQuery({
+    queryKey: trashKeys.all,
+    queryFn: () => window.electronAPI.trash.list(),
+  });
+}
+
+export function useRestoreFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: TrashEntryKind; id: string }) =>
+      kind === 'item'
+        ? window.electronAPI.trash.restoreItem(id)
+        : window.electronAPI.trash.restoreCategory(id),
+    onSuccess: () => invalidateItemData(queryClient),
+  });
+}
+
+export function usePurgeFromTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ kind, id }: { kind: TrashEntryKind; id: string }) =>
+      kind === 'item'
+        ? window.electronAPI.trash.purgeItem(id)
+        : window.electronAPI.trash.purgeCategory(id),
+    onSuccess: () => invalidateItemData(queryClient),
+  });
+}
+
+export function useEmptyTrash() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => window.electronAPI.trash.empty(),
+    onSuccess: () => invalidateItemData(queryClient),
+  });
+}
+
 // ============================================
 // DASHBOARD HOOKS
 // ============================================
@@ -0,0 +1,37 @@
+import { useCallback } from 'react';
+import { useQuery, useQueryClient, keepPreviousData } from '@tanstack/react-query';
+import type { SearchEntityType } from '@/lib/types';
+
+export const searchKeys = {
+  all: ['search'] as const,
+  global: (query: string) => [...searchKeys.all, query] as const,
+};
+
+// Items and categories matching `query`, recently opened first. An empty query
+// returns only the recently opened records.
+export function useGlobalSearch(query: string, enabled = true) {
+  return useQuery({
+    queryKey: searchKeys.global(query),
+    queryFn: () => window.electronAPI.search.global(query),
+    enabled,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+  });
+}
+
+// Remember that a record was opened, so it is listed first next time
+export function useRecordOpen() {
+  const queryClient = useQueryClient();
+
+  return useCallback(
+    async (type: SearchEntityType, id: string) => {
+      try {
+        await window.electronAPI.search.recordOpen(type, id);
+        queryClient.invalidateQueries({ queryKey: searchKeys.all });
+      } catch (error) {
+        console.error('Failed to record recent record:', error);
+      }
+    },
+    [queryClient]
+  );
+}
@@ -0,0 +1,83 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+import { invalidateItemData } from '@/hooks/useItems';
+
+// Undo/redo runs in the main process, which keeps the stack of inverse operations
+export function useUndo() {
+  const queryClient = useQueryClient();
+
+  const run = useCallback(
+    async (action: () => Promise<{ success: boolean; message: string }>, failure: string) => {
+      try {
+        const result = await action();
+        invalidateItemData(queryClient);
+
+        if (result.success) {
+          toast.success(result.message);
+        } else {
+          toast.error(result.message);
+        }
+      } catch (error) {
+        toast.error(failure);
+      }
+    },
+    [queryClient]
+  );
+
+  const undo = useCallback(
+    (undoId?: number) => run(() => window.electronAPI.undo.undo(undoId), 'Failed to undo'),
+    [run]
+  );
+
+  const redo = useCallback(() => run(() => window.electronAPI.undo.redo(), 'Failed to redo'), [run]);
+
+  // Success toast with an Undo button when the change can be undone
+  const toastWithUndo = useCallback(
+    (message: string, undoId?: number) => {
+      toast.success(
+        message,
+        undoId !== undefined ? { action: { label: 'Undo', onClick: () => undo(undoId) } } : undefined
+      );
+    },
+    [undo]
+  );
+
+  return { undo, redo, toastWithUndo };
+}
+
+function isTextField(target: EventTarget | null): boolean {
+  return (
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+  );
+}
+
+// Ctrl+Z to undo, Ctrl+Shift+Z or Ctrl+Y to redo (Cmd on macOS). Text fields keep
+// their own undo.
+export function useUndoShortcuts(enabled = true) {
+  const { undo, redo } = useUndo();
+  const actionsRef = useRef({ undo, redo });
+  actionsRef.current = { undo, redo };
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey) || event.altKey || isTextField(event.target)) return;
+
+      const key = event.key.toLowerCase();
+
+      if (key === 'z' && !event.shiftKey) {
+        event.preventDefault();
+        actionsRef.current.undo();
+      } else if ((key === 'z' && event.shiftKey) || key === 'y') {
+        event.preventDefault();
+        actionsRef.current.redo();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,3 @@
+// Role permissions are shared with the main process, which enforces them; the
+// renderer only uses them to hide actions the user cannot take.
+export { hasPermission } from '../../electron/permissions';
@@ -0,0 +1,2 @@
+// Item rules are shared with the main process, which checks imported rows again
+export { createItemSchema, type CreateItemFormData } from '../../electron/schemas';
@@ -1,11 +1,150 @@
 // Re-export types from electron for use in renderer
+export type UserRole = 'admin' | 'editor' | 'viewer';
+
 export interface AuthUser {
   id: number;
   username: string;
+  role: UserRole;
   created_at: string;
   last_login: string | null;
 }
 
+export interface SetupData {
+  username: string;
+  password: string;
+}
+
+export interface SetupResult {
+  success: boolean;
+  message: string;
+  recoveryCodes?: string[];
+}
+
+export interface LoginData {
+  username: string;
+  password: string;
+  rememberMe?: boolean;
+}
+
+export interface LoginResult {
+  success: boolean;
+  message: string;
+  sessionToken?: string;
+  user?: AuthUser;
+  retryAt?: number;
+  locked?: boolean;
+  requiresSecondFactor?: boolean;
+}
+
+export interface ChangePasswordData {
+  currentPassword: string;
+  newPassword: string;
+}
+
+export interface RecoverAccountData {
+  username: string;
+  code: string;
+  newPassword: string;
+}
+
+export interface RecoveryCodeStatus {
+  remaining: number;
+  total: number;
+}
+
+export interface PasswordRequirement {
+  label: string;
+  met: boolean;
+}
+
+export interface PasswordCheck {
+  valid: boolean;
+  score: number;
+  requirements: PasswordRequirement[];
+}
+
+export interface TotpStatus {
+  enabled: boolean;
+}
+
+export interface TotpEnrollment {
+  secret: string;
+  qrCode: string;
+}
+
+export interface SessionInfo {
+  id: string;
+  label: string | null;
+  created_at: string;
+  last_seen_at: string | null;
+  expires_at: string;
+  persistent: boolean;
+  current: boolean;
+}
+
+export interface UnlockData {
+  password?: string;
+  pin?: string;
+}
+
+export interface UnlockResult {
+  success: boolean;
+  message: string;
+  retryAt?: number;
+  signedOut?: boolean;
+}
+
+export interface LockStatus {
+  locked: boolean;
+  hasPin: boolean;
+  idleLockMinutes: number;
+}
+
+export interface SetPinData {
+  currentPassword: string;
+  pin: string;
+}
+
+export interface UserAccount extends AuthUser {
+  disabled: boolean;
+}
+
+export interface CreateUserData {
+  username: string;
+  password: string;
+  role: UserRole;
+}
+
+export interface UpdateUserData {
+  id: number;
+  username?: string;
+  role?: UserRole;
+}
+
+export interface LockoutEvent {
+  id: number;
+  username: string;
+  failed_count: number;
+  locked_at: string;
+  locked_until: string;
+  unlocked_by: string | null;
+}
+
+export type Permission =
+  | 'account'
+  | 'data:read'
+  | 'data:write'
+  | 'backup:manage'
+  | 'users:manage'
+  | 'audit:read';
+
+export type AuthErrorCode = 'UNAUTHORIZED' | 'FORBIDDEN' | 'LOCKED';
+
+export interface IpcAuthError {
+  authError: AuthErrorCode;
+  message: string;
+}
+
 export interface Item {
   id: string;
   name: string;
@@ -16,18 +155,117 @@ export interface Item {
   status: 'active' | 'inactive';
   created_at: string;
   updated_at: string;
+  // Set while the item is in the trash
+  deleted_at: string | null;
+  // Search results only: the name with matches wrapped in SEARCH_HIGHLIGHT
+  // markers, and the matching part of the description (null if it did not match)
+  name_highlight?: string;
+  description_snippet?: string | null;
+}
+
+export interface CreateItemData {
+  name: string;
+  description?: string;
+  category_id?: string;
+  quantity?: number;
+  status?: 'active' | 'inactive';
+}
+
+export interface UpdateItemData {
+  id: string;
+  name?: string;
+  description?: string;
+  category_id?: string;
+  quantity?: number;
+  status?: 'active' | 'inactive';
 }
 
 export interface Category {
   id: string;
   name: string;
   created_at: string;
+  deleted_at: string | null;
+}
+
+export interface TrashContents {
+  items: Item[];
+  categories: Category[];
+  // Days before entries are purged (0 = never)
+  retentionDays: number;
 }
 
+// 'relevance' only applies while searching (best match first)
+export type ItemSortField =
+  | 'name'
+  | 'quantity'
+  | 'category'
+  | 'status'
+  | 'created_at'
+  | 'updated_at'
+  | 'relevance';
+
+export type SortDirection = 'asc' | 'desc';
+
 export interface ItemFilters {
   search?: string;
   category_id?: string;
   status?: 'active' | 'inactive' | 'all';
+  // 1-based
+  page?: number;
+  pageSize?: number;
+  sortBy?: ItemSortField;
+  sortDir?: SortDirection;
+}
+
+// One page of items, with the number of items matching the filters
+export interface ItemPage {
+  rows: Item[];
+  total: number;
+}
+
+// Explicit ids, or every item matching the list filters ("select all")
+export type ItemSelection = { ids: string[] } | { filters: ItemFilters; excludeIds?: string[] };
+
+export interface BulkUpdateData {
+  status?: 'active' | 'inactive';
+  // '' removes the category
+  category_id?: string;
+  // Added to each item's quantity
+  quantityDelta?: number;
+}
+
+export interface BulkFailure {
+  id: string;
+  name: string | null;
+  message: string;
+}
+
+export interface BulkResult {
+  success: boolean;
+  message: string;
+  // Items actually changed
+  changed: number;
+  failures: BulkFailure[];
+  undoId?: number;
+}
+
+// A saved version of an item, written by the item_history triggers
+export interface ItemVersion {
+  id: number;
+  item_id: string;
+  version: number;
+  operation: 'create' | 'update' | 'trash' | 'restore' | 'delete';
+  name: string;
+  description: string | null;
+  category_id: string | null;
+  category_name: string | null;
+  quantity: number;
+  status: 'active' | 'inactive';
+  changed_at: string;
+  changed_by: number | null;
+  changed_by_name: string | null;
+  // Compared with the previous version
+  changes: AuditChanges;
 }
 
 export interface DashboardStats {
@@ -37,8 +275,192 @@ export interface DashboardStats {
   totalCategories: number;
 }
 
+export interface UndoStatus {
+  canUndo: boolean;
+  canRedo: boolean;
+  undoLabel: string | null;
+  redoLabel: string | null;
+}
+
+export interface UndoResult {
+  success: boolean;
+  message: string;
+  status: UndoStatus;
+}
+
+export type SearchEntityType = 'item' | 'category';
+
+export interface SearchResult {
+  type: SearchEntityType;
+  id: string;
+  label: string;
+  // Category of an item, or the number of items in a category
+  detail: string | null;
+  // When the signed-in user last opened the record (null if not recently)
+  opened_at: string | null;
+}
+
+export interface ImportSheetRow {
+  // Row number in the file (the header is usually row 1)
+  row: number;
+  cells: string[];
+}
+
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: ImportSheetRow[];
+}
+
+export interface ImportFileResult {
+  success: boolean;
+  message: string;
+  sheet?: ImportSheet;
+}
+
+// How imported rows find the item they update; 'none' always creates
+export type ImportMatchKey = 'none' | 'id' | 'name';
+
+// A mapped and validated row. Fields left out keep their current value when
+// the row updates an item.
+export interface ImportRow {
+  row: number;
+  id?: string;
+  name: string;
+  description?: string;
+  // Matched by name, ignoring case; created if missing
+  category?: string;
+  quantity?: number;
+  status?: 'active' | 'inactive';
+}
+
+export interface ImportRequest {
+  rows: ImportRow[];
+  matchBy: ImportMatchKey;
+  dryRun: boolean;
+  // Shown in the audit log
+  fileName?: string;
+}
+
+export interface ImportRowOutcome {
+  row: number;
+  action: 'create' | 'update' | 'unchanged' | 'error';
+  message?: string;
+}
+
+export interface ImportResult {
+  success: boolean;
+  message: string;
+  dryRun: boolean;
+  created: number;
+  updated: number;
+  failed: number;
+  // Categories created, or restored from the trash, for the rows
+  categoriesAdded: string[];
+  rows: ImportRowOutcome[];
+}
+
+export interface BackupResult {
+  success: boolean;
+  message: string;
+  filePath?: string;
+}
+
 export interface BackupInfo {
   backupDir: string;
   lastBackupTime: number | null;
   backupCount: number;
+  lastVerifiedBackupTime: number | null;
+  backups: BackupFile[];
+  destinations: BackupDestination[];
+}
+
+export interface BackupProgress {
+  totalPages: number;
+  remainingPages: number;
+}
+
+export interface ManualBackupOptions {
+  encrypt?: boolean;
+  passphrase?: string;
+}
+
+export interface RestoreResult {
+  success: boolean;
+  message: string;
+  needsPassphrase?: boolean;
+  filePath?: string;
+  safetyBackupPath?: string;
+}
+
+export type RetentionRule = 'latest' | 'hourly' | 'daily' | 'weekly' | 'monthly' | 'last-known-good';
+
+export type BackupHealth = 'ok' | 'failed' | 'unverified';
+
+export interface BackupManifest {
+  file: string;
+  createdAt: string;
+  appVersion: string;
+  schemaVersion: number;
+  sizeBytes: number;
+  sha256: string;
+  integrity: string;
+  tables: Record<string, number>;
+}
+
+export interface BackupFile {
+  name: string;
+  path: string;
+  size: number;
+  createdAt: number;
+  health: BackupHealth;
+  manifest: BackupManifest | null;
+  retention: RetentionRule[];
+}
+
+export interface RetentionPolicy {
+  hourly: number;
+  daily: number;
+  weekly: number;
+  monthly: number;
+}
+
+export interface BackupDestination {
+  id: string;
+  path: string;
+  retention: RetentionPolicy;
+  lastAttemptAt: number | null;
+  lastSuccessAt: number | null;
+  lastError: string | null;
+  reachable: boolean;
+  failing: boolean;
+  backupCount: number;
+}
+
+export type AuditEntityType = 'item' | 'category' | 'user' | 'backup' | 'destination';
+
+// Field-level changes; `from` is null for creates and `to` is null for deletes
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>;
+
+export interface AuditEntry {
+  id: number;
+  created_at: string;
+  actor_id: number | null;
+  actor: string;
+  action: string;
+  entity_type: AuditEntityType;
+  entity_id: string | null;
+  entity_label: string | null;
+  changes: AuditChanges | null;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  entity_type?: AuditEntityType;
+  action?: string;
+  entity_id?: string;
+  // Inclusive dates, YYYY-MM-DD
+  from?: string;
+  to?: string;
+  limit?: number;
 }
@@ -0,0 +1,254 @@
+import { useState } from 'react';
+import { Download, Search, ScrollText } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuditLog, useAuditActions } from '@/hooks/useAudit';
+import type { AuditChanges, AuditEntityType, AuditFilters } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+// Must match DEFAULT_LIMIT in electron/database/audit.ts
+const PAGE_LIMIT = 500;
+
+const entityTypeLabels: Record<AuditEntityType, string> = {
+  item: 'Items',
+  category: 'Categories',
+  user: 'Users',
+  backup: 'Backups',
+  destination: 'Backup Destinations',
+};
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '—';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function ChangeList({ changes }: { changes: AuditChanges | null }) {
+  if (!changes) {
+    return <span className="text-muted-foreground">-</span>;
+  }
+
+  return (
+    <ul className="space-y-0.5 text-xs">
+      {Object.entries(changes).map(([field, change]) => (
+        <li key={field}>
+          <span className="font-medium">{field}:</span>{' '}
+          <span className="text-muted-foreground">{formatValue(change.from)}</span> →{' '}
+          {formatValue(change.to)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export function AuditLog() {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const [actorQuery, setActorQuery] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+
+  const { data: entries, isLoading } = useAuditLog(filters);
+  const { data: actions } = useAuditActions();
+
+  const handleSearch = () => {
+    setFilters((prev) => ({ ...prev, actor: actorQuery || undefined }));
+  };
+
+  const handleFilterChange = (key: keyof AuditFilters, value: string) => {
+    setFilters((prev) => ({
+      ...prev,
+      [key]: value === 'all' || value === '' ? undefined : value,
+    }));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const result = await window.electronAPI.audit.exportCsv(filters);
+
+      if (result.success) {
+        toast.success(result.message);
+      } else if (result.message !== 'Export cancelled') {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to export audit log');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Audit Log</h1>
+          <p className="text-muted-foreground">Who changed what, and when</p>
+        </div>
+
+        <Button variant="outline" onClick={handleExport} disabled={isExporting}>
+          <Download className="h-4 w-4 mr-2" />
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col lg:flex-row gap-4">
+        <div className="flex-1 flex gap-2">
+          <Input
+            placeholder="Filter by user..."
+            value={actorQuery}
+            onChange={(e) => setActorQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSearch()}
+            className="max-w-sm"
+          />
+          <Button variant="outline" onClick={handleSearch}>
+            <Search className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Select
+            value={filters.entity_type || 'all'}
+            onValueChange={(value) => handleFilterChange('entity_type', value)}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="All Records" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Records</SelectItem>
+              {(Object.keys(entityTypeLabels) as AuditEntityType[]).map((type) => (
+                <SelectItem key={type} value={type}>
+                  {entityTypeLabels[type]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={filters.action || 'all'}
+            onValueChange={(value) => handleFilterChange('action', value)}
+          >
+            <SelectTrigger className="w-[200px]">
+              <SelectValue placeholder="All Actions" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Actions</SelectItem>
+              {actions?.map((action) => (
+                <SelectItem key={action} value={action}>
+                  {action}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Input
+            type="date"
+            aria-label="From date"
+            value={filters.from || ''}
+            onChange={(e) => handleFilterChange('from', e.target.value)}
+            className="w-[150px]"
+          />
+          <Input
+            type="date"
+            aria-label="To date"
+            value={filters.to || ''}
+            onChange={(e) => handleFilterChange('to', e.target.value)}
+            className="w-[150px]"
+          />
+        </div>
+      </div>
+
+      {/* Entries Table */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Time</TableHead>
+              <TableHead>User</TableHead>
+              <TableHead>Action</TableHead>
+              <TableHead>Record</TableHead>
+              <TableHead>Changes</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              [...Array(5)].map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-5 w-32" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-20" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-24" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-32" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-40" />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : entries && entries.length > 0 ? (
+              entries.map((entry) => (
+                <TableRow key={entry.id}>
+                  <TableCell className="whitespace-nowrap">
+                    {new Date(`${entry.created_at}Z`).toLocaleString()}
+                  </TableCell>
+                  <TableCell>{entry.actor}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="font-mono text-xs">
+                      {entry.action}
+                    </Badge>
+                  </TableCell>
+                  <TableCell>
+                    <span className="text-muted-foreground">{entry.entity_type}</span>{' '}
+                    {entry.entity_label || entry.entity_id || ''}
+                  </TableCell>
+                  <TableCell>
+                    <ChangeList changes={entry.changes} />
+                  </TableCell>
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={5} className="h-32 text-center">
+                  <div className="flex flex-col items-center justify-center text-muted-foreground">
+                    <ScrollText className="h-12 w-12 mb-4 opacity-50" />
+                    <p>No audit entries found</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {entries && entries.length >= PAGE_LIMIT && (
+        <p className="text-sm text-muted-foreground">
+          Showing the {PAGE_LIMIT} most recent matching entries. Narrow the filters or export to CSV to see
+          everything.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,12 +5,17 @@ import { z } from 'zod';
 import { ArrowLeft, Save, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useItem, useCategories, useUpdateItem, useDeleteItem } from '@/hooks/useItems';
+import { useUndo } from '@/hooks/useUndo';
+import { useRecordOpen } from '@/hooks/useSearch';
+import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { ItemHistoryPanel } from '@/components/items/ItemHistoryPanel';
 import {
   Select,
   SelectContent,
@@ -44,11 +49,15 @@ type UpdateItemFormData = z.infer<typeof updateItemSchema>;
 export function ItemDetail() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
+  const { can } = useAuth();
+  const canEdit = can('data:write');
 
   const { data: item, isLoading: itemLoading } = useItem(id || '');
   const { data: categories } = useCategories();
   const updateItem = useUpdateItem();
   const deleteItem = useDeleteItem();
+  const { toastWithUndo } = useUndo();
+  const recordOpen = useRecordOpen();
 
   const {
     register,
@@ -68,6 +77,14 @@ export function ItemDetail() {
     },
   });
 
+  // List the item first in the command palette next time
+  const itemId = item?.id;
+  useEffect(() => {
+    if (itemId) {
+      recordOpen('item', itemId);
+    }
+  }, [itemId, recordOpen]);
+
   // Populate form when item data loads
   useEffect(() => {
     if (item) {
@@ -95,7 +112,7 @@ export function ItemDetail() {
       });
 
       if (result.success) {
-        toast.success('Item updated successfully');
+        toastWithUndo('Item updated successfully', result.undoId);
       } else {
         toast.error(result.message);
       }
@@ -111,7 +128,7 @@ export function ItemDetail() {
       const result = await deleteItem.mutateAsync(id);
 
       if (result.success) {
-        toast.success('Item deleted successfully');
+        toastWithUndo('Item moved to trash', result.undoId);
         navigate('/items');
       } else {
         toast.error(result.message);
@@ -176,144 +193,165 @@ export function ItemDetail() {
           </Button>
           <div>
             <h1 className="text-2xl font-bold tracking-tight">{item.name}</h1>
-            <p className="text-muted-foreground">Edit item details</p>
+            <p className="text-muted-foreground">{canEdit ? 'Edit item details' : 'View item details'}</p>
           </div>
         </div>
 
-        <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button variant="destructive" size="sm">
-              <Trash2 className="h-4 w-4 mr-2" />
-              Delete
-            </Button>
-          </AlertDialogTrigger>
-          <AlertDialogContent>
-            <AlertDialogHeader>
-              <AlertDialogTitle>Delete Item</AlertDialogTitle>
-              <AlertDialogDescription>
-                Are you sure you want to delete "{item.name}"? This action cannot be undone.
-              </AlertDialogDescription>
-            </AlertDialogHeader>
-            <AlertDialogFooter>
-              <AlertDialogCancel>Cancel</AlertDialogCancel>
-              <AlertDialogAction
-                onClick={handleDelete}
-                className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-              >
+        {canEdit && (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="destructive" size="sm">
+                <Trash2 className="h-4 w-4 mr-2" />
                 Delete
-              </AlertDialogAction>
-            </AlertDialogFooter>
-          </AlertDialogContent>
-        </AlertDialog>
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete Item</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Move "{item.name}" to the trash? You can restore it from the Trash page.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Cancel</AlertDialogCancel>
+                <AlertDialogAction
+                  onClick={handleDelete}
+                  className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                >
+                  Delete
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
       </div>
 
-      {/* Form */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Item Details</CardTitle>
-          <CardDescription>Update the information for this item</CardDescription>
-        </CardHeader>
-        <CardContent>
-          <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
-            <div className="space-y-2">
-              <Label htmlFor="name">Name *</Label>
-              <Input id="name" {...register('name')} placeholder="Item name" />
-              {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
-            </div>
+      <Tabs defaultValue="details" className="space-y-6">
+        <TabsList>
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="history">History</TabsTrigger>
+        </TabsList>
 
-            <div className="space-y-2">
-              <Label htmlFor="description">Description</Label>
-              <Textarea
-                id="description"
-                {...register('description')}
-                placeholder="Item description"
-                rows={4}
-              />
-            </div>
+        <TabsContent value="details" className="space-y-6">
+          {/* Form */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Item Details</CardTitle>
+              <CardDescription>
+                {canEdit ? 'Update the information for this item' : 'You have read-only access to items'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSubmit(onSubmit)}>
+                <fieldset disabled={!canEdit} className="space-y-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="name">Name *</Label>
+                    <Input id="name" {...register('name')} placeholder="Item name" />
+                    {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+                  </div>
 
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-              <div className="space-y-2">
-                <Label htmlFor="category">Category</Label>
-                <Select
-                  value={watch('category_id') || 'none'}
-                  onValueChange={(value) => setValue('category_id', value === 'none' ? '' : value, { shouldDirty: true })}
-                >
-                  <SelectTrigger>
-                    <SelectValue placeholder="Select category" />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="none">No category</SelectItem>
-                    {categories?.map((cat) => (
-                      <SelectItem key={cat.id} value={cat.id}>
-                        {cat.name}
-                      </SelectItem>
-                    ))}
-                  </SelectContent>
-                </Select>
-              </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      {...register('description')}
+                      placeholder="Item description"
+                      rows={4}
+                    />
+                  </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="quantity">Quantity</Label>
-                <Input id="quantity" type="number" min="0" {...register('quantity')} />
-                {errors.quantity && (
-                  <p className="text-sm text-destructive">{errors.quantity.message}</p>
-                )}
-              </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="category">Category</Label>
+                      <Select
+                        value={watch('category_id') || 'none'}
+                        onValueChange={(value) => setValue('category_id', value === 'none' ? '' : value, { shouldDirty: true })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select category" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">No category</SelectItem>
+                          {categories?.map((cat) => (
+                            <SelectItem key={cat.id} value={cat.id}>
+                              {cat.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
 
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select
-                  value={watch('status')}
-                  onValueChange={(value) =>
-                    setValue('status', value as 'active' | 'inactive', { shouldDirty: true })
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-            </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="quantity">Quantity</Label>
+                      <Input id="quantity" type="number" min="0" {...register('quantity')} />
+                      {errors.quantity && (
+                        <p className="text-sm text-destructive">{errors.quantity.message}</p>
+                      )}
+                    </div>
 
-            <div className="flex justify-end gap-4">
-              <Button type="button" variant="outline" onClick={() => reset()} disabled={!isDirty}>
-                Reset
-              </Button>
-              <Button type="submit" disabled={updateItem.isPending || !isDirty}>
-                <Save className="h-4 w-4 mr-2" />
-                {updateItem.isPending ? 'Saving...' : 'Save Changes'}
-              </Button>
-            </div>
-          </form>
-        </CardContent>
-      </Card>
+                    <div className="space-y-2">
+                      <Label htmlFor="status">Status</Label>
+                      <Select
+                        value={watch('status')}
+                        onValueChange={(value) =>
+                          setValue('status', value as 'active' | 'inactive', { shouldDirty: true })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="active">Active</SelectItem>
+                          <SelectItem value="inactive">Inactive</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
 
-      {/* Metadata */}
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-sm font-medium">Item Information</CardTitle>
-        </CardHeader>
-        <CardContent>
-          <dl className="grid grid-cols-2 gap-4 text-sm">
-            <div>
-              <dt className="text-muted-foreground">Created</dt>
-              <dd>{new Date(item.created_at).toLocaleString()}</dd>
-            </div>
-            <div>
-              <dt className="text-muted-foreground">Last Updated</dt>
-              <dd>{new Date(item.updated_at).toLocaleString()}</dd>
-            </div>
-            <div>
-              <dt className="text-muted-foreground">ID</dt>
-              <dd className="font-mono text-xs">{item.id}</dd>
-            </div>
-          </dl>
-        </CardContent>
-      </Card>
+                  {canEdit && (
+                    <div className="flex justify-end gap-4">
+                      <Button type="button" variant="outline" onClick={() => reset()} disabled={!isDirty}>
+                        Reset
+                      </Button>
+                      <Button type="submit" disabled={updateItem.isPending || !isDirty}>
+                        <Save className="h-4 w-4 mr-2" />
+                        {updateItem.isPending ? 'Saving...' : 'Save Changes'}
+                      </Button>
+                    </div>
+                  )}
+                </fieldset>
+              </form>
+            </CardContent>
+          </Card>
+
+          {/* Metadata */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-sm font-medium">Item Information</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <dl className="grid grid-cols-2 gap-4 text-sm">
+                <div>
+                  <dt className="text-muted-foreground">Created</dt>
+                  <dd>{new Date(item.created_at).toLocaleString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">Last Updated</dt>
+                  <dd>{new Date(item.updated_at).toLocaleString()}</dd>
+                </div>
+                <div>
+                  <dt className="text-muted-foreground">ID</dt>
+                  <dd className="font-mono text-xs">{item.id}</dd>
+                </div>
+              </dl>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="history">
+          <ItemHistoryPanel itemId={item.id} />
+        </TabsContent>
+      </Tabs>
     </div>
   );
 }
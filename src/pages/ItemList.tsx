@@ -1,16 +1,34 @@
-import { useState } from 'react';
-import { Link } from 'react-router-dom';
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
-import { Plus, Search, Edit, Trash2, Package } from 'lucide-react';
+import {
+  Plus,
+  Search,
+  Edit,
+  Trash2,
+  Package,
+  ArrowUp,
+  ArrowDown,
+  ArrowUpDown,
+  Sparkles,
+  Upload,
+} from 'lucide-react';
 import { toast } from 'sonner';
-import { useItems, useCategories, useCreateItem, useDeleteItem } from '@/hooks/useItems';
-import type { ItemFilters } from '@/lib/types';
+import { useInfiniteItems, useCategories, useCreateItem, useDeleteItem } from '@/hooks/useItems';
+import { useUndo } from '@/hooks/useUndo';
+import { HighlightedText } from '@/components/items/HighlightedText';
+import { BulkActionBar } from '@/components/items/BulkActionBar';
+import { ImportDialog } from '@/components/items/ImportDialog';
+import { useAuth } from '@/contexts/AuthContext';
+import { createItemSchema, type CreateItemFormData } from '@/lib/schemas';
+import type { ItemFilters, ItemSelection, ItemSortField } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Textarea } from '@/components/ui/textarea';
 import {
@@ -48,26 +66,112 @@ import {
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
 
-const createItemSchema = z.object({
-  name: z.string().min(1, 'Name is required'),
-  description: z.string().optional(),
-  category_id: z.string().optional(),
-  quantity: z.coerce.number().min(0, 'Quantity must be 0 or more'),
-  status: z.enum(['active', 'inactive']),
-});
+// Pages are fetched as the list scrolls, so the list manages them itself
+type ListFilters = Omit<ItemFilters, 'page' | 'pageSize'>;
+
+const DEFAULT_FILTERS: ListFilters = {
+  sortBy: 'created_at',
+  sortDir: 'desc',
+};
+
+// Ticked rows, or every item matching the filters except the unticked ones.
+// Only loaded rows can be ticked, so "select all" has to be its own mode.
+type RowSelection = { mode: 'ids'; ids: Set<string> } | { mode: 'all'; excluded: Set<string> };
+
+const NO_SELECTION: RowSelection = { mode: 'ids', ids: new Set() };
 
-type CreateItemFormData = z.infer<typeof createItemSchema>;
+// Starting guess for row height; rows with a search snippet are measured taller
+const ESTIMATED_ROW_HEIGHT = 53;
+// Fetch the next page when the last rendered row is this close to the end
+const FETCH_AHEAD_ROWS = 20;
+// Rows moved by Page Up / Page Down
+const KEYBOARD_PAGE_ROWS = 10;
+
+// Dates and quantities read best largest first; text columns A to Z
+const DESCENDING_FIRST: ItemSortField[] = ['quantity', 'created_at', 'updated_at'];
+
+interface SortableHeadProps {
+  field: ItemSortField;
+  label: string;
+  filters: ListFilters;
+  onSort: (field: ItemSortField) => void;
+  className?: string;
+}
+
+function SortableHead({ field, label, filters, onSort, className }: SortableHeadProps) {
+  const active = filters.sortBy === field;
+  const Icon = !active ? ArrowUpDown : filters.sortDir === 'asc' ? ArrowUp : ArrowDown;
+
+  return (
+    <TableHead
+      className={className}
+      aria-sort={active ? (filters.sortDir === 'asc' ? 'ascending' : 'descending') : undefined}
+    >
+      <Button variant="ghost" size="sm" className="-mx-3 h-8" onClick={() => onSort(field)}>
+        {label}
+        <Icon className={`h-3.5 w-3.5 ml-2 ${active ? '' : 'text-muted-foreground/50'}`} />
+      </Button>
+    </TableHead>
+  );
+}
 
 export function ItemList() {
-  const [filters, setFilters] = useState<ItemFilters>({});
+  const { can } = useAuth();
+  const navigate = useNavigate();
+  const canEdit = can('data:write');
+  const [filters, setFilters] = useState<ListFilters>(DEFAULT_FILTERS);
   const [searchQuery, setSearchQuery] = useState('');
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
   const [itemToDelete, setItemToDelete] = useState<string | null>(null);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [rowSelection, setRowSelection] = useState<RowSelection>(NO_SELECTION);
+
+  const {
+    data: itemPages,
+    isLoading: itemsLoading,
+    isPlaceholderData,
+    hasNextPage,
+    isFetchingNextPage,
+    fetchNextPage,
+  } = useInfiniteItems(filters);
+  const items = itemPages?.pages.flatMap((page) => page.rows);
+  const total = itemPages?.pages[0]?.total ?? 0;
+  const rowCount = items?.length ?? 0;
+
+  const selectedCount =
+    rowSelection.mode === 'ids'
+      ? rowSelection.ids.size
+      : Math.max(total - rowSelection.excluded.size, 0);
+  const isRowSelected = (id: string) =>
+    rowSelection.mode === 'ids' ? rowSelection.ids.has(id) : !rowSelection.excluded.has(id);
+  const selection = useMemo<ItemSelection>(
+    () =>
+      rowSelection.mode === 'ids'
+        ? { ids: [...rowSelection.ids] }
+        : { filters, excludeIds: [...rowSelection.excluded] },
+    [rowSelection, filters]
+  );
 
-  const { data: items, isLoading: itemsLoading } = useItems(filters);
+  // Only the rows in view are rendered
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const virtualizer = useVirtualizer({
+    count: rowCount,
+    getScrollElement: () => scrollRef.current,
+    estimateSize: () => ESTIMATED_ROW_HEIGHT,
+    overscan: 10,
+    getItemKey: (index) => items?.[index]?.id ?? index,
+  });
+  const virtualRows = virtualizer.getVirtualItems();
+  const paddingTop = virtualRows.length > 0 ? virtualRows[0].start : 0;
+  const paddingBottom =
+    virtualRows.length > 0 ? virtualizer.getTotalSize() - virtualRows[virtualRows.length - 1].end : 0;
+  const lastRenderedIndex = virtualRows.length > 0 ? virtualRows[virtualRows.length - 1].index : -1;
   const { data: categories } = useCategories();
   const createItem = useCreateItem();
   const deleteItem = useDeleteItem();
+  const { toastWithUndo } = useUndo();
 
   const {
     register,
@@ -87,17 +191,133 @@ export function ItemList() {
     },
   });
 
+  // The command palette links here with ?category=<id>, ?new=1 or ?import=1
+  useEffect(() => {
+    const categoryId = searchParams.get('category');
+    const openCreate = searchParams.get('new') === '1';
+    const openImport = searchParams.get('import') === '1';
+
+    if (!categoryId && !openCreate && !openImport) return;
+
+    if (categoryId) {
+      setFilters((prev) => ({ ...prev, category_id: categoryId }));
+    }
+    if (openCreate && canEdit) {
+      setIsCreateDialogOpen(true);
+    }
+    if (openImport && canEdit) {
+      setIsImportDialogOpen(true);
+    }
+    setSearchParams({}, { replace: true });
+  }, [searchParams, setSearchParams, canEdit]);
+
+  useEffect(() => {
+    if (hasNextPage && !isFetchingNextPage && lastRenderedIndex >= rowCount - FETCH_AHEAD_ROWS) {
+      fetchNextPage();
+    }
+  }, [hasNextPage, isFetchingNextPage, lastRenderedIndex, rowCount, fetchNextPage]);
+
+  // New filters or sorting start again from the top, with nothing selected
+  useEffect(() => {
+    setActiveIndex(-1);
+    setRowSelection(NO_SELECTION);
+    scrollRef.current?.scrollTo({ top: 0 });
+  }, [filters]);
+
+  const toggleRow = (id: string) => {
+    setRowSelection((prev) => {
+      const ids = new Set(prev.mode === 'ids' ? prev.ids : prev.excluded);
+
+      if (ids.has(id)) {
+        ids.delete(id);
+      } else {
+        ids.add(id);
+      }
+
+      return prev.mode === 'ids' ? { mode: 'ids', ids } : { mode: 'all', excluded: ids };
+    });
+  };
+
+  // The header checkbox selects every item matching the filters, loaded or not
+  const toggleAll = () => {
+    setRowSelection(
+      selectedCount > 0 && selectedCount === total ? NO_SELECTION : { mode: 'all', excluded: new Set() }
+    );
+  };
+
+  const moveActiveRow = (index: number) => {
+    const next = Math.min(Math.max(index, 0), rowCount - 1);
+    setActiveIndex(next);
+    virtualizer.scrollToIndex(next, { align: 'auto' });
+  };
+
+  // Arrow keys move between rows, Space selects and Enter opens the highlighted item
+  const handleTableKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (rowCount === 0 || event.target !== event.currentTarget) return;
+
+    const moves: Record<string, number> = {
+      ArrowDown: activeIndex + 1,
+      ArrowUp: activeIndex - 1,
+      PageDown: activeIndex + KEYBOARD_PAGE_ROWS,
+      PageUp: activeIndex - KEYBOARD_PAGE_ROWS,
+      Home: 0,
+      End: rowCount - 1,
+    };
+
+    if (event.key in moves) {
+      event.preventDefault();
+      moveActiveRow(moves[event.key]);
+    } else if (event.key === 'Enter' && items?.[activeIndex]) {
+      event.preventDefault();
+      navigate(`/items/${items[activeIndex].id}`);
+    } else if (event.key === ' ' && items?.[activeIndex]) {
+      event.preventDefault();
+      toggleRow(items[activeIndex].id);
+    }
+  };
+
+  // A new search sorts by best match; clearing it leaves relevance order
   const handleSearch = () => {
-    setFilters((prev) => ({ ...prev, search: searchQuery || undefined }));
+    const search = searchQuery.trim() || undefined;
+
+    setFilters((prev) => {
+      if (search === prev.search) return prev;
+
+      if (search) {
+        return { ...prev, search, sortBy: 'relevance', sortDir: 'desc' };
+      }
+
+      return {
+        ...prev,
+        search,
+        sortBy: prev.sortBy === 'relevance' ? DEFAULT_FILTERS.sortBy : prev.sortBy,
+        sortDir: prev.sortBy === 'relevance' ? DEFAULT_FILTERS.sortDir : prev.sortDir,
+      };
+    });
   };
 
-  const handleFilterChange = (key: keyof ItemFilters, value: string) => {
+  const handleFilterChange = (key: 'category_id' | 'status', value: string) => {
     setFilters((prev) => ({
       ...prev,
       [key]: value === 'all' ? undefined : value,
     }));
   };
 
+  const handleSort = (field: ItemSortField) => {
+    setFilters((prev) => ({
+      ...prev,
+      sortBy: field,
+      sortDir:
+        prev.sortBy === field
+          ? prev.sortDir === 'asc'
+            ? 'desc'
+            : 'asc'
+          : DESCENDING_FIRST.includes(field)
+            ? 'desc'
+            : 'asc',
+    }));
+  };
+
   const onCreateSubmit = async (data: CreateItemFormData) => {
     try {
       const result = await createItem.mutateAsync({
@@ -109,7 +329,7 @@ export function ItemList() {
       });
 
       if (result.success) {
-        toast.success('Item created successfully');
+        toastWithUndo('Item created successfully', result.undoId);
         setIsCreateDialogOpen(false);
         reset();
       } else {
@@ -127,7 +347,7 @@ export function ItemList() {
       const result = await deleteItem.mutateAsync(itemToDelete);
 
       if (result.success) {
-        toast.success('Item deleted successfully');
+        toastWithUndo('Item moved to trash', result.undoId);
       } else {
         toast.error(result.message);
       }
@@ -147,104 +367,115 @@ export function ItemList() {
           <p className="text-muted-foreground">Manage your inventory items</p>
         </div>
 
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Item
+        <div className="flex gap-2">
+          {canEdit && (
+            <Button variant="outline" onClick={() => setIsImportDialogOpen(true)}>
+              <Upload className="h-4 w-4 mr-2" />
+              Import
             </Button>
-          </DialogTrigger>
-          <DialogContent>
-            <DialogHeader>
-              <DialogTitle>Add New Item</DialogTitle>
-              <DialogDescription>Create a new item in your inventory</DialogDescription>
-            </DialogHeader>
-            <form onSubmit={handleSubmit(onCreateSubmit)} className="space-y-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Name *</Label>
-                <Input id="name" {...register('name')} placeholder="Item name" />
-                {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="description">Description</Label>
-                <Textarea
-                  id="description"
-                  {...register('description')}
-                  placeholder="Item description"
-                  rows={3}
-                />
-              </div>
+          )}
+
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            {canEdit && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Item
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>Add New Item</DialogTitle>
+                <DialogDescription>Create a new item in your inventory</DialogDescription>
+              </DialogHeader>
+              <form onSubmit={handleSubmit(onCreateSubmit)} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="name">Name *</Label>
+                  <Input id="name" {...register('name')} placeholder="Item name" />
+                  {errors.name && <p className="text-sm text-destructive">{errors.name.message}</p>}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="description">Description</Label>
+                  <Textarea
+                    id="description"
+                    {...register('description')}
+                    placeholder="Item description"
+                    rows={3}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="category">Category</Label>
+                    <Select
+                      value={watch('category_id') || 'none'}
+                      onValueChange={(value) => setValue('category_id', value === 'none' ? '' : value)}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select category" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No category</SelectItem>
+                        {categories?.map((cat) => (
+                          <SelectItem key={cat.id} value={cat.id}>
+                            {cat.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="quantity">Quantity</Label>
+                    <Input
+                      id="quantity"
+                      type="number"
+                      min="0"
+                      {...register('quantity')}
+                    />
+                    {errors.quantity && (
+                      <p className="text-sm text-destructive">{errors.quantity.message}</p>
+                    )}
+                  </div>
+                </div>
 
-              <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="category">Category</Label>
+                  <Label htmlFor="status">Status</Label>
                   <Select
-                    value={watch('category_id') || 'none'}
-                    onValueChange={(value) => setValue('category_id', value === 'none' ? '' : value)}
+                    value={watch('status')}
+                    onValueChange={(value) => setValue('status', value as 'active' | 'inactive')}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="Select category" />
+                      <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="none">No category</SelectItem>
-                      {categories?.map((cat) => (
-                        <SelectItem key={cat.id} value={cat.id}>
-                          {cat.name}
-                        </SelectItem>
-                      ))}
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="inactive">Inactive</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="quantity">Quantity</Label>
-                  <Input
-                    id="quantity"
-                    type="number"
-                    min="0"
-                    {...register('quantity')}
-                  />
-                  {errors.quantity && (
-                    <p className="text-sm text-destructive">{errors.quantity.message}</p>
-                  )}
-                </div>
-              </div>
-
-              <div className="space-y-2">
-                <Label htmlFor="status">Status</Label>
-                <Select
-                  value={watch('status')}
-                  onValueChange={(value) => setValue('status', value as 'active' | 'inactive')}
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="active">Active</SelectItem>
-                    <SelectItem value="inactive">Inactive</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <DialogFooter>
-                <Button
-                  type="button"
-                  variant="outline"
-                  onClick={() => {
-                    setIsCreateDialogOpen(false);
-                    reset();
-                  }}
-                >
-                  Cancel
-                </Button>
-                <Button type="submit" disabled={createItem.isPending}>
-                  {createItem.isPending ? 'Creating...' : 'Create Item'}
-                </Button>
-              </DialogFooter>
-            </form>
-          </DialogContent>
-        </Dialog>
+                <DialogFooter>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => {
+                      setIsCreateDialogOpen(false);
+                      reset();
+                    }}
+                  >
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={createItem.isPending}>
+                    {createItem.isPending ? 'Creating...' : 'Create Item'}
+                  </Button>
+                </DialogFooter>
+              </form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Filters */}
@@ -263,6 +494,16 @@ export function ItemList() {
         </div>
 
         <div className="flex gap-2">
+          {filters.search && (
+            <Button
+              variant={filters.sortBy === 'relevance' ? 'secondary' : 'outline'}
+              onClick={() => setFilters((prev) => ({ ...prev, sortBy: 'relevance', sortDir: 'desc' }))}
+            >
+              <Sparkles className="h-4 w-4 mr-2" />
+              Best Match
+            </Button>
+          )}
+
           <Select
             value={filters.category_id || 'all'}
             onValueChange={(value) => handleFilterChange('category_id', value)}
@@ -296,15 +537,65 @@ export function ItemList() {
         </div>
       </div>
 
-      {/* Items Table */}
-      <div className="rounded-md border">
+      {selectedCount > 0 && (
+        <BulkActionBar
+          selection={selection}
+          count={selectedCount}
+          canEdit={canEdit}
+          onClear={() => setRowSelection(NO_SELECTION)}
+        />
+      )}
+
+      {/* Items Table: the outer div scrolls, so the Table wrapper must not clip */}
+      <div
+        ref={scrollRef}
+        tabIndex={0}
+        role="region"
+        aria-label="Items. Use the arrow keys to move between rows and Enter to open one."
+        onKeyDown={handleTableKeyDown}
+        className={`max-h-[calc(100vh-16rem)] min-h-[16rem] overflow-auto rounded-md border transition-opacity focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring [&>div]:overflow-visible ${isPlaceholderData ? 'opacity-60' : ''}`}
+      >
         <Table>
-          <TableHeader>
+          <TableHeader className="sticky top-0 z-10 bg-background shadow-[0_1px_0_hsl(var(--border))]">
             <TableRow>
-              <TableHead>Name</TableHead>
-              <TableHead>Category</TableHead>
-              <TableHead className="text-right">Quantity</TableHead>
-              <TableHead>Status</TableHead>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={
+                    selectedCount > 0 && selectedCount === total
+                      ? true
+                      : selectedCount > 0
+                        ? 'indeterminate'
+                        : false
+                  }
+                  onCheckedChange={toggleAll}
+                  disabled={total === 0}
+                  aria-label="Select all matching items"
+                />
+              </TableHead>
+              <SortableHead field="name" label="Name" filters={filters} onSort={handleSort} />
+              <SortableHead field="category" label="Category" filters={filters} onSort={handleSort} />
+              <SortableHead
+                field="quantity"
+                label="Quantity"
+                filters={filters}
+                onSort={handleSort}
+                className="text-right"
+              />
+              <SortableHead field="status" label="Status" filters={filters} onSort={handleSort} />
+              <SortableHead
+                field="created_at"
+                label="Added"
+                filters={filters}
+                onSort={handleSort}
+                className="hidden lg:table-cell"
+              />
+              <SortableHead
+                field="updated_at"
+                label="Updated"
+                filters={filters}
+                onSort={handleSort}
+                className="hidden lg:table-cell"
+              />
               <TableHead className="text-right">Actions</TableHead>
             </TableRow>
           </TableHeader>
@@ -312,6 +603,9 @@ export function ItemList() {
             {itemsLoading ? (
               [...Array(5)].map((_, i) => (
                 <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-4 w-4" />
+                  </TableCell>
                   <TableCell>
                     <Skeleton className="h-5 w-32" />
                   </TableCell>
@@ -324,61 +618,105 @@ export function ItemList() {
                   <TableCell>
                     <Skeleton className="h-5 w-16" />
                   </TableCell>
+                  <TableCell className="hidden lg:table-cell">
+                    <Skeleton className="h-5 w-24" />
+                  </TableCell>
+                  <TableCell className="hidden lg:table-cell">
+                    <Skeleton className="h-5 w-24" />
+                  </TableCell>
                   <TableCell>
                     <Skeleton className="h-8 w-20 ml-auto" />
                   </TableCell>
                 </TableRow>
               ))
             ) : items && items.length > 0 ? (
-              items.map((item) => (
-                <TableRow key={item.id}>
-                  <TableCell className="font-medium">
-                    <Link
-                      to={`/items/${item.id}`}
-                      className="hover:underline flex items-center gap-2"
+              <>
+                {paddingTop > 0 && <tr aria-hidden style={{ height: paddingTop }} />}
+                {virtualRows.map((virtualRow) => {
+                  const item = items[virtualRow.index];
+
+                  return (
+                    <TableRow
+                      key={virtualRow.key}
+                      ref={virtualizer.measureElement}
+                      data-index={virtualRow.index}
+                      data-state={virtualRow.index === activeIndex ? 'selected' : undefined}
+                      aria-selected={virtualRow.index === activeIndex}
+                      onClick={() => setActiveIndex(virtualRow.index)}
                     >
-                      <Package className="h-4 w-4 text-muted-foreground" />
-                      {item.name}
-                    </Link>
-                  </TableCell>
-                  <TableCell>{item.category_name || '-'}</TableCell>
-                  <TableCell className="text-right">{item.quantity}</TableCell>
-                  <TableCell>
-                    <Badge variant={item.status === 'active' ? 'default' : 'secondary'}>
-                      {item.status}
-                    </Badge>
-                  </TableCell>
-                  <TableCell className="text-right">
-                    <div className="flex justify-end gap-2">
-                      <Button variant="ghost" size="icon" asChild>
-                        <Link to={`/items/${item.id}`}>
-                          <Edit className="h-4 w-4" />
+                      <TableCell>
+                        <Checkbox
+                          checked={isRowSelected(item.id)}
+                          onCheckedChange={() => toggleRow(item.id)}
+                          aria-label={`Select ${item.name}`}
+                        />
+                      </TableCell>
+                      <TableCell className="font-medium">
+                        <Link
+                          to={`/items/${item.id}`}
+                          className="hover:underline flex items-center gap-2"
+                        >
+                          <Package className="h-4 w-4 text-muted-foreground" />
+                          {item.name_highlight ? <HighlightedText text={item.name_highlight} /> : item.name}
                         </Link>
-                      </Button>
-                      <Button
-                        variant="ghost"
-                        size="icon"
-                        onClick={() => setItemToDelete(item.id)}
-                      >
-                        <Trash2 className="h-4 w-4 text-destructive" />
-                      </Button>
-                    </div>
-                  </TableCell>
-                </TableRow>
-              ))
+                        {item.description_snippet && (
+                          <HighlightedText
+                            text={item.description_snippet}
+                            className="mt-1 block pl-6 text-xs font-normal text-muted-foreground"
+                          />
+                        )}
+                      </TableCell>
+                      <TableCell>{item.category_name || '-'}</TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell>
+                        <Badge variant={item.status === 'active' ? 'default' : 'secondary'}>
+                          {item.status}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell text-muted-foreground">
+                        {new Date(`${item.created_at}Z`).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="hidden lg:table-cell text-muted-foreground">
+                        {new Date(`${item.updated_at}Z`).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="ghost" size="icon" asChild>
+                            <Link to={`/items/${item.id}`}>
+                              <Edit className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          {canEdit && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => setItemToDelete(item.id)}
+                            >
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                {paddingBottom > 0 && <tr aria-hidden style={{ height: paddingBottom }} />}
+              </>
             ) : (
               <TableRow>
-                <TableCell colSpan={5} className="h-32 text-center">
+                <TableCell colSpan={8} className="h-32 text-center">
                   <div className="flex flex-col items-center justify-center text-muted-foreground">
                     <Package className="h-12 w-12 mb-4 opacity-50" />
                     <p>No items found</p>
-                    <Button
-                      variant="link"
-                      className="mt-2"
-                      onClick={() => setIsCreateDialogOpen(true)}
-                    >
-                      Add your first item
-                    </Button>
+                    {canEdit && (
+                      <Button
+                        variant="link"
+                        className="mt-2"
+                        onClick={() => setIsCreateDialogOpen(true)}
+                      >
+                        Add your first item
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -387,13 +725,20 @@ export function ItemList() {
         </Table>
       </div>
 
+      {total > 0 && (
+        <p className="text-sm text-muted-foreground">
+          {rowCount < total ? `Loaded ${rowCount} of ${total} items` : `${total} items`}
+          {isFetchingNextPage && ' - loading more...'}
+        </p>
+      )}
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={!!itemToDelete} onOpenChange={() => setItemToDelete(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle>Delete Item</AlertDialogTitle>
             <AlertDialogDescription>
-              Are you sure you want to delete this item? This action cannot be undone.
+              Move this item to the trash? You can restore it from the Trash page.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -407,6 +752,8 @@ export function ItemList() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      <ImportDialog open={isImportDialogOpen} onOpenChange={setIsImportDialogOpen} />
     </div>
   );
 }
@@ -2,21 +2,33 @@ import { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { Save, Download, FolderOpen, Eye, EyeOff, Info } from 'lucide-react';
+import { Save, Download, FolderOpen, Eye, EyeOff, Info, ShieldAlert, Lock } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
-import type { BackupInfo } from '@/lib/types';
+import type { BackupInfo, ManualBackupOptions } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { RestoreBackupPanel } from '@/components/settings/RestoreBackupPanel';
+import { PassphraseDialog } from '@/components/settings/PassphraseDialog';
+import { BackupDestinationsPanel } from '@/components/settings/BackupDestinationsPanel';
+import { UsersPanel } from '@/components/settings/UsersPanel';
+import { PinSettings } from '@/components/settings/PinSettings';
+import { PasswordStrengthMeter } from '@/components/auth/PasswordStrengthMeter';
+import { RecoveryCodesSettings } from '@/components/settings/RecoveryCodesSettings';
+import { TwoFactorSettings } from '@/components/settings/TwoFactorSettings';
+import { SessionsPanel } from '@/components/settings/SessionsPanel';
+import { LockoutEventsPanel } from '@/components/settings/LockoutEventsPanel';
+import { roleLabels } from '@/components/settings/UserDialog';
 
 const changePasswordSchema = z
   .object({
     currentPassword: z.string().min(1, 'Current password is required'),
-    newPassword: z.string().min(6, 'New password must be at least 6 characters'),
+    newPassword: z.string().min(1, 'New password is required'),
     confirmPassword: z.string(),
   })
   .refine((data) => data.newPassword === data.confirmPassword, {
@@ -27,9 +39,11 @@ const changePasswordSchema = z
 type ChangePasswordFormData = z.infer<typeof changePasswordSchema>;
 
 export function Settings() {
-  const { user, logout } = useAuth();
+  const { user, logout, can } = useAuth();
   const [backupInfo, setBackupInfo] = useState<BackupInfo | null>(null);
   const [isLoadingBackup, setIsLoadingBackup] = useState(false);
+  const [backupProgress, setBackupProgress] = useState<number | null>(null);
+  const [isEncryptDialogOpen, setIsEncryptDialogOpen] = useState(false);
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
 
@@ -37,6 +51,7 @@ export function Settings() {
     register,
     handleSubmit,
     reset,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<ChangePasswordFormData>({
     resolver: zodResolver(changePasswordSchema),
@@ -49,8 +64,10 @@ export function Settings() {
 
   // Load backup info
   useEffect(() => {
-    loadBackupInfo();
-  }, []);
+    if (can('backup:manage')) {
+      loadBackupInfo();
+    }
+  }, [can]);
 
   const loadBackupInfo = async () => {
     try {
@@ -61,10 +78,15 @@ export function Settings() {
     }
   };
 
-  const handleManualBackup = async () => {
+  const handleManualBackup = async (options?: ManualBackupOptions) => {
     setIsLoadingBackup(true);
+
+    const unsubscribe = window.electronAPI.backup.onProgress(({ totalPages, remainingPages }) => {
+      setBackupProgress(totalPages > 0 ? Math.round(((totalPages - remainingPages) / totalPages) * 100) : 0);
+    });
+
     try {
-      const result = await window.electronAPI.backup.createManual();
+      const result = await window.electronAPI.backup.createManual(options);
 
       if (result.success) {
         toast.success(result.message);
@@ -77,6 +99,8 @@ export function Settings() {
     } catch (error) {
       toast.error('Failed to create backup');
     } finally {
+      unsubscribe();
+      setBackupProgress(null);
       setIsLoadingBackup(false);
     }
   };
@@ -101,6 +125,8 @@ export function Settings() {
     }
   };
 
+  const failedBackups = backupInfo?.backups.filter((backup) => backup.health === 'failed') || [];
+
   const formatLastBackup = (timestamp: number | null) => {
     if (!timestamp) return 'Never';
 
@@ -141,6 +167,7 @@ export function Settings() {
             <Label>Username</Label>
             <div className="flex items-center gap-2">
               <Input value={user?.username || ''} disabled className="max-w-sm" />
+              {user && <Badge variant="outline">{roleLabels[user.role]}</Badge>}
             </div>
           </div>
 
@@ -202,6 +229,7 @@ export function Settings() {
                 {errors.newPassword && (
                   <p className="text-sm text-destructive">{errors.newPassword.message}</p>
                 )}
+                <PasswordStrengthMeter password={watch('newPassword')} />
               </div>
 
               <div className="space-y-2">
@@ -222,52 +250,131 @@ export function Settings() {
               </Button>
             </form>
           </div>
-        </CardContent>
-      </Card>
 
-      {/* Backup Section */}
-      <Card>
-        <CardHeader>
-          <CardTitle>Backup</CardTitle>
-          <CardDescription>Manage your data backups</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <Alert>
-            <Info className="h-4 w-4" />
-            <AlertDescription>
-              Backups are automatically created every 6 hours and when you close the application.
-              You can also create a manual backup at any time.
-            </AlertDescription>
-          </Alert>
-
-          <div className="grid gap-4 md:grid-cols-3">
-            <div className="space-y-1">
-              <Label className="text-muted-foreground">Last Backup</Label>
-              <p className="font-medium">{formatLastBackup(backupInfo?.lastBackupTime || null)}</p>
-            </div>
-            <div className="space-y-1">
-              <Label className="text-muted-foreground">Total Backups</Label>
-              <p className="font-medium">{backupInfo?.backupCount || 0} files</p>
-            </div>
-            <div className="space-y-1">
-              <Label className="text-muted-foreground">Backup Location</Label>
-              <p className="font-medium text-sm truncate" title={backupInfo?.backupDir}>
-                {backupInfo?.backupDir || 'Loading...'}
-              </p>
-            </div>
-          </div>
+          <Separator />
+
+          {/* Quick Unlock PIN */}
+          <PinSettings />
 
           <Separator />
 
-          <div className="flex gap-4">
-            <Button onClick={handleManualBackup} disabled={isLoadingBackup}>
-              <Download className="h-4 w-4 mr-2" />
-              {isLoadingBackup ? 'Creating Backup...' : 'Create Manual Backup'}
-            </Button>
-          </div>
+          {/* Two-Factor Authentication */}
+          <TwoFactorSettings />
+
+          <Separator />
+
+          {/* Recovery Codes */}
+          <RecoveryCodesSettings />
         </CardContent>
       </Card>
 
+      {/* Sessions Section */}
+      <SessionsPanel />
+
+      {/* Users Section (admins only) */}
+      {can('users:manage') && (
+        <>
+          <UsersPanel />
+          <LockoutEventsPanel />
+        </>
+      )}
+
+      {can('backup:manage') && (
+        <>
+          {/* Backup Section */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Backup</CardTitle>
+              <CardDescription>Manage your data backups</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Alert>
+                <Info className="h-4 w-4" />
+                <AlertDescription>
+                  Backups are automatically created every 6 hours and when you close the application.
+                  You can also create a manual backup at any time.
+                </AlertDescription>
+              </Alert>
+
+              <div className="grid gap-4 md:grid-cols-4">
+                <div className="space-y-1">
+                  <Label className="text-muted-foreground">Last Backup</Label>
+                  <p className="font-medium">{formatLastBackup(backupInfo?.lastBackupTime || null)}</p>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-muted-foreground">Last Verified Backup</Label>
+                  <p className="font-medium">
+                    {formatLastBackup(backupInfo?.lastVerifiedBackupTime || null)}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-muted-foreground">Total Backups</Label>
+                  <p className="font-medium">{backupInfo?.backupCount || 0} files</p>
+                </div>
+                <div className="space-y-1">
+                  <Label className="text-muted-foreground">Backup Location</Label>
+                  <p className="font-medium text-sm truncate" title={backupInfo?.backupDir}>
+                    {backupInfo?.backupDir || 'Loading...'}
+                  </p>
+                </div>
+              </div>
+
+              {failedBackups.length > 0 && (
+                <Alert variant="destructive">
+                  <ShieldAlert className="h-4 w-4" />
+                  <AlertDescription>
+                    {failedBackups.length === 1 ? '1 backup' : `${failedBackups.length} backups`} failed
+                    verification: {failedBackups.map((backup) => backup.name).join(', ')}
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <Separator />
+
+              <div className="flex gap-4">
+                <Button onClick={() => handleManualBackup()} disabled={isLoadingBackup}>
+                  <Download className="h-4 w-4 mr-2" />
+                  {isLoadingBackup
+                    ? `Creating Backup...${backupProgress !== null ? ` ${backupProgress}%` : ''}`
+                    : 'Create Manual Backup'}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setIsEncryptDialogOpen(true)}
+                  disabled={isLoadingBackup}
+                >
+                  <Lock className="h-4 w-4 mr-2" />
+                  Create Encrypted Backup
+                </Button>
+              </div>
+
+              <PassphraseDialog
+                open={isEncryptDialogOpen}
+                onOpenChange={setIsEncryptDialogOpen}
+                title="Create Encrypted Backup"
+                description="The backup is compressed and encrypted with this passphrase. It cannot be restored without it, so keep it somewhere safe."
+                submitLabel="Choose Location"
+                confirm
+                onSubmit={async (passphrase) => {
+                  setIsEncryptDialogOpen(false);
+                  await handleManualBackup({ encrypt: true, passphrase });
+                }}
+              />
+
+              <Separator />
+
+              <BackupDestinationsPanel
+                destinations={backupInfo?.destinations || []}
+                onChange={loadBackupInfo}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Restore Section */}
+          <RestoreBackupPanel />
+        </>
+      )}
+
       {/* About Section */}
       <Card>
         <CardHeader>
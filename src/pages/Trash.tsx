@@ -0,0 +1,276 @@
+import { useState } from 'react';
+import { Trash2, RotateCcw, Package, FolderOpen } from 'lucide-react';
+import { toast } from 'sonner';
+import {
+  useTrash,
+  useRestoreFromTrash,
+  usePurgeFromTrash,
+  useEmptyTrash,
+  type TrashEntryKind,
+} from '@/hooks/useItems';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+
+interface TrashRow {
+  kind: TrashEntryKind;
+  id: string;
+  name: string;
+  detail: string | null;
+  deletedAt: string;
+}
+
+// deleted_at is stored as UTC "YYYY-MM-DD HH:MM:SS"
+function formatDeletedAt(deletedAt: string): string {
+  return new Date(`${deletedAt}Z`).toLocaleString();
+}
+
+export function Trash() {
+  const { can } = useAuth();
+  const canEdit = can('data:write');
+  const { data: trash, isLoading } = useTrash();
+  const restoreEntry = useRestoreFromTrash();
+  const purgeEntry = usePurgeFromTrash();
+  const emptyTrash = useEmptyTrash();
+  const [rowToPurge, setRowToPurge] = useState<TrashRow | null>(null);
+  const [isEmptyDialogOpen, setIsEmptyDialogOpen] = useState(false);
+
+  const rows: TrashRow[] = trash
+    ? [
+        ...trash.items.map((item) => ({
+          kind: 'item' as const,
+          id: item.id,
+          name: item.name,
+          detail: item.category_name || null,
+          deletedAt: item.deleted_at!,
+        })),
+        ...trash.categories.map((category) => ({
+          kind: 'category' as const,
+          id: category.id,
+          name: category.name,
+          detail: null,
+          deletedAt: category.deleted_at!,
+        })),
+      ].sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    : [];
+
+  const handleRestore = async (row: TrashRow) => {
+    try {
+      const result = await restoreEntry.mutateAsync({ kind: row.kind, id: row.id });
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to restore');
+    }
+  };
+
+  const handlePurge = async () => {
+    if (!rowToPurge) return;
+
+    try {
+      const result = await purgeEntry.mutateAsync({ kind: rowToPurge.kind, id: rowToPurge.id });
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to delete permanently');
+    } finally {
+      setRowToPurge(null);
+    }
+  };
+
+  const handleEmpty = async () => {
+    try {
+      const result = await emptyTrash.mutateAsync();
+
+      if (result.success) {
+        toast.success(result.message);
+      } else {
+        toast.error(result.message);
+      }
+    } catch (error) {
+      toast.error('Failed to empty trash');
+    } finally {
+      setIsEmptyDialogOpen(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight">Trash</h1>
+          <p className="text-muted-foreground">
+            {trash && trash.retentionDays > 0
+              ? `Deleted items and categories are removed for good after ${trash.retentionDays} days`
+              : 'Deleted items and categories stay here until you remove them'}
+          </p>
+        </div>
+
+        {canEdit && (
+          <Button
+            variant="destructive"
+            disabled={rows.length === 0}
+            onClick={() => setIsEmptyDialogOpen(true)}
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Empty Trash
+          </Button>
+        )}
+      </div>
+
+      {/* Trash Table */}
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Deleted</TableHead>
+              {canEdit && <TableHead className="text-right">Actions</TableHead>}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {isLoading ? (
+              [...Array(3)].map((_, i) => (
+                <TableRow key={i}>
+                  <TableCell>
+                    <Skeleton className="h-5 w-32" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-16" />
+                  </TableCell>
+                  <TableCell>
+                    <Skeleton className="h-5 w-32" />
+                  </TableCell>
+                  {canEdit && (
+                    <TableCell>
+                      <Skeleton className="h-8 w-40 ml-auto" />
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            ) : rows.length > 0 ? (
+              rows.map((row) => (
+                <TableRow key={`${row.kind}-${row.id}`}>
+                  <TableCell className="font-medium">
+                    <div className="flex items-center gap-2">
+                      {row.kind === 'item' ? (
+                        <Package className="h-4 w-4 text-muted-foreground" />
+                      ) : (
+                        <FolderOpen className="h-4 w-4 text-muted-foreground" />
+                      )}
+                      {row.name}
+                      {row.detail && <span className="text-muted-foreground">({row.detail})</span>}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{row.kind === 'item' ? 'Item' : 'Category'}</Badge>
+                  </TableCell>
+                  <TableCell>{formatDeletedAt(row.deletedAt)}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={restoreEntry.isPending}
+                          onClick={() => handleRestore(row)}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-2" />
+                          Restore
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => setRowToPurge(row)}>
+                          <Trash2 className="h-4 w-4 mr-2 text-destructive" />
+                          Delete
+                        </Button>
+                      </div>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))
+            ) : (
+              <TableRow>
+                <TableCell colSpan={canEdit ? 4 : 3} className="h-32 text-center">
+                  <div className="flex flex-col items-center justify-center text-muted-foreground">
+                    <Trash2 className="h-12 w-12 mb-4 opacity-50" />
+                    <p>The trash is empty</p>
+                  </div>
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      {/* Permanent Delete Dialog */}
+      <AlertDialog open={!!rowToPurge} onOpenChange={() => setRowToPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Permanently</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete "{rowToPurge?.name}"? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handlePurge}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Empty Trash Dialog */}
+      <AlertDialog open={isEmptyDialogOpen} onOpenChange={setIsEmptyDialogOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Empty Trash</AlertDialogTitle>
+            <AlertDialogDescription>
+              Permanently delete all {rows.length} entries in the trash? This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleEmpty}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Empty Trash
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
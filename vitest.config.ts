@@ -0,0 +1,19 @@
+import { defineConfig } from 'vitest/config';
+import path from 'path';
+
+// Main-process tests run under plain Node; the electron module is replaced by a
+// stand-in (electron/test/electron.ts) that keeps userData in a temp directory
+export default defineConfig({
+  resolve: {
+    alias: {
+      electron: path.resolve(__dirname, './electron/test/electron.ts'),
+    },
+  },
+  test: {
+    include: ['electron/**/*.test.ts'],
+    environment: 'node',
+    setupFiles: ['./electron/test/setup.ts'],
+    // bcrypt at the configured cost and scrypt are deliberately slow
+    testTimeout: 30000,
+  },
+});